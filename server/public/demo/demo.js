@@ -74,7 +74,9 @@
           statusDiv.textContent = "";
         }, 3000);
       } else {
-        throw new Error(result.error || "Failed to extract product");
+        // e.g. "fetch_failed (blocked)" for a CAPTCHA page
+        const reason = result.reason ? ` (${result.reason})` : "";
+        throw new Error((result.error || "Failed to extract product") + reason);
       }
     } catch (error) {
       statusDiv.textContent = "✗ Error: " + error.message;
@@ -7,17 +7,23 @@ import { dirname } from 'path';
 import rateLimit from 'express-rate-limit';
 
 // Config
-import { connectDatabase } from './config/database';
-import { PORT, RATE_LIMIT } from './config/constants';
+import { connectDatabase, disconnectDatabase } from './config/database';
+import { PORT, RATE_LIMIT, EMBEDDED_WORKER } from './config/constants';
 
 // Services
 import { initEmailService } from './services/email.service';
-import { startPeriodicChecks } from './services/notifier.service';
+import { startPeriodicChecks, stopPeriodicChecks } from './services/notifier.service';
+import { startWorker, stopWorker } from './services/worker.service';
+import { getBrowserPoolStats, closeBrowserPool } from './services/browserPool';
+import { runMigrations } from './migrations';
 
 // Routes
 import subscriptionRoutes from './routes/subscription.routes';
 import extractionRoutes from './routes/extraction.routes';
 import adminRoutes from './routes/admin.routes';
+import productRoutes from './routes/product.routes';
+import manageRoutes from './routes/manage.routes';
+import watchlistRoutes from './routes/watchlist.routes';
 
 // ESM __dirname equivalent
 const __filename = fileURLToPath(import.meta.url);
@@ -29,7 +35,7 @@ const app = express();
 app.use((req: express.Request, res: express.Response, next: express.NextFunction) => {
     res.header('Access-Control-Allow-Origin', '*');
     res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-    res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-API-Key');
     if (req.method === 'OPTIONS') {
         return res.sendStatus(200);
     }
@@ -72,10 +78,13 @@ app.use('/embed', express.static(path.join(publicDir, 'embed')));
 app.use('/', subscriptionRoutes);
 app.use('/', extractionRoutes);
 app.use('/', adminRoutes);
+app.use('/', productRoutes);
+app.use('/', manageRoutes);
+app.use('/', watchlistRoutes);
 
 // Health check
 app.get('/health', (req, res) => {
-    res.json({ status: 'healthy', timestamp: new Date().toISOString() });
+    res.json({ status: 'healthy', timestamp: new Date().toISOString(), browserPool: getBrowserPoolStats() });
 });
 
 // Error handling middleware
@@ -98,25 +107,55 @@ process.on('unhandledRejection', (reason, promise) => {
     console.error('Unhandled Rejection at:', promise, 'reason:', reason);
 });
 
+let server: ReturnType<typeof app.listen> | null = null;
+let shuttingDown = false;
+
+/**
+ * Stop accepting work, close pooled browsers and the database, then exit.
+ */
+async function shutdown(signal: string) {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    console.log(`\n${signal} received, shutting down...`);
+
+    stopPeriodicChecks();
+    server?.close();
+    await stopWorker();
+    await closeBrowserPool();
+    await disconnectDatabase();
+    process.exit(0);
+}
+
+process.on('SIGINT', () => void shutdown('SIGINT'));
+process.on('SIGTERM', () => void shutdown('SIGTERM'));
+
 // Initialize and start server
 async function startServer() {
     try {
         // Connect to MongoDB
         await connectDatabase();
 
+        // Bring data written by older versions up to date
+        await runMigrations();
+
         // Initialize email service
         await initEmailService();
 
         // Start Express server
-        app.listen(PORT, () => {
+        server = app.listen(PORT, () => {
             console.log(`\n🚀 Server running on http://localhost:${PORT}`);
             console.log(`📊 Health check: http://localhost:${PORT}/health`);
             console.log(`📝 Demo page: http://localhost:${PORT}/demo/index.html\n`);
             console.log(`📝 Embed page: http://localhost:${PORT}/embed/price-drop.html`);
         });
 
-        // Start periodic price checks
+        // Queue due price checks periodically
         startPeriodicChecks();
+
+        // Run the checks here unless separate workers do (npm run worker)
+        if (EMBEDDED_WORKER) {
+            startWorker();
+        }
     } catch (error) {
         console.error('Failed to start server:', error);
         process.exit(1);
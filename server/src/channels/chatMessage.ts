@@ -0,0 +1,67 @@
+/**
+ * Short localized message shared by the chat channels (Slack, Discord,
+ * Telegram). Uses the email strings (views/emails/locales), so a chat alert
+ * reads like the email's subject and price lines; each channel only adds
+ * its own markup.
+ */
+import { formatMoney, subtractAmounts } from '../money';
+import { getMessages } from '../views/emails/locales';
+import { unsubscribeUrl, manageLoginUrl } from '../links';
+import { NotificationContent } from './types';
+
+export interface ChatMessage {
+    /** Like the email subject, e.g. "🔔 Price Drop Alert: <name>" */
+    title: string;
+    /** Plain-text detail lines (prices, savings, stock note) */
+    lines: string[];
+    productName: string;
+    productUrl: string;
+    image: string | null;
+    /** Links with their localized labels, in display order */
+    links: { label: string; url: string }[];
+}
+
+/**
+ * Build the chat message for a notification, in its locale.
+ */
+export function buildChatMessage(content: NotificationContent): ChatMessage {
+    const t = getMessages(content.locale);
+    const lines: string[] = [];
+    let title: string;
+
+    if (content.event === 'price_drop') {
+        const money = (amount: number) => formatMoney(amount, content.currency, t.intlLocale);
+        const percent = new Intl.NumberFormat(t.intlLocale, { style: 'percent', maximumFractionDigits: 1 })
+            .format((content.oldPrice - content.newPrice) / content.oldPrice);
+        title = t.priceDrop.subject(content.product.name);
+        lines.push(
+            t.priceDrop.oldPrice(money(content.oldPrice)),
+            t.priceDrop.newPrice(money(content.newPrice)),
+            t.priceDrop.youSave(money(subtractAmounts(content.oldPrice, content.newPrice, content.currency)), percent),
+        );
+    } else if (content.event === 'back_in_stock') {
+        title = t.backInStock.subject(content.product.name);
+        if (content.price != null) {
+            lines.push(t.backInStock.price(formatMoney(content.price, content.currency, t.intlLocale)));
+        }
+        if (content.availability === 'limited') lines.push(t.backInStock.limited);
+        if (content.availability === 'preorder') lines.push(t.backInStock.preorder);
+    } else {
+        title = t.delisted.subject(content.product.name);
+        lines.push(t.delisted.intro);
+    }
+
+    return {
+        title,
+        lines,
+        productName: content.product.name,
+        productUrl: content.product.url,
+        image: content.product.image,
+        links: [
+            { label: t.common.viewProduct, url: content.product.url },
+            // A delisted product's subscription has already expired
+            ...(content.event === 'delisted' ? [] : [{ label: t.common.unsubscribe, url: unsubscribeUrl(content.subscriptionId) }]),
+            { label: t.common.manageAlerts, url: manageLoginUrl() },
+        ],
+    };
+}
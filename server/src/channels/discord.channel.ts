@@ -0,0 +1,40 @@
+/**
+ * Discord channel: a message POSTed to a Discord incoming-webhook URL
+ * (https://discord.com/api/webhooks/<id>/<token>), as one embed.
+ */
+import { NotificationChannel } from './types';
+import { buildChatMessage, ChatMessage } from './chatMessage';
+import { postJsonToPublicUrl, validateHttpUrl } from './http';
+
+/** Embed accent colors per event */
+const COLORS = { price_drop: 0x10B981, back_in_stock: 0x0E6F78, delisted: 0x6B7280 };
+
+/**
+ * Discord webhook payload for a message. Embed limits: 256 characters of
+ * title, 4096 of description.
+ */
+export function buildDiscordPayload(message: ChatMessage, event: keyof typeof COLORS): Record<string, unknown> {
+    const links = message.links.map((link) => `[${link.label}](${link.url})`).join(' · ');
+    return {
+        username: 'Price Drop Notifier',
+        // Pings nobody, whatever the product name contains
+        allowed_mentions: { parse: [] },
+        embeds: [{
+            title: message.title.slice(0, 256),
+            url: message.productUrl,
+            description: [...message.lines, '', links].join('\n').slice(0, 4096),
+            color: COLORS[event],
+            ...(message.image && /^https?:/.test(message.image) ? { thumbnail: { url: message.image } } : {}),
+        }],
+    };
+}
+
+export const discordChannel: NotificationChannel = {
+    type: 'discord',
+
+    validateAddress: validateHttpUrl,
+
+    async send(content, target) {
+        return postJsonToPublicUrl(target.address, JSON.stringify(buildDiscordPayload(buildChatMessage(content), content.event)));
+    },
+};
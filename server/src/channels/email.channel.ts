@@ -0,0 +1,80 @@
+/**
+ * Email channel: the localized HTML + text emails of email.service.ts, and
+ * the digest emails, which only this channel sends.
+ */
+import { sendPriceDropEmail, sendBackInStockEmail, sendDelistedEmail, sendDigestEmail } from '../services/email.service';
+import { unsubscribeUrl, manageLoginUrl } from '../links';
+import { ChannelResult, DigestContent, NotificationChannel } from './types';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const emailChannel: NotificationChannel = {
+    type: 'email',
+
+    validateAddress(address) {
+        return EMAIL_PATTERN.test(address) ? null : 'must be an email address';
+    },
+
+    async send(content, target) {
+        const common = {
+            to: target.address,
+            locale: content.locale,
+            productName: content.product.name,
+            productUrl: content.product.url,
+            manageUrl: manageLoginUrl(),
+        };
+
+        let reference: string | null;
+        if (content.event === 'price_drop') {
+            reference = await sendPriceDropEmail({
+                ...common,
+                productImage: content.product.image ?? undefined,
+                history: content.history,
+                oldPrice: content.oldPrice,
+                newPrice: content.newPrice,
+                currency: content.currency,
+                unsubscribeUrl: unsubscribeUrl(content.subscriptionId),
+            });
+        } else if (content.event === 'back_in_stock') {
+            reference = await sendBackInStockEmail({
+                ...common,
+                productImage: content.product.image ?? undefined,
+                availability: content.availability,
+                price: content.price,
+                currency: content.currency,
+                unsubscribeUrl: unsubscribeUrl(content.subscriptionId),
+            });
+        } else {
+            reference = await sendDelistedEmail(common);
+        }
+
+        return emailResult(reference);
+    },
+};
+
+/**
+ * Send a digest email to an address.
+ */
+export async function sendDigestContent(content: DigestContent, address: string): Promise<ChannelResult> {
+    const reference = await sendDigestEmail({
+        to: address,
+        locale: content.locale,
+        frequency: content.frequency,
+        items: content.items.map((item) => ({
+            productName: item.product.name,
+            productUrl: item.product.url,
+            productImage: item.product.image ?? undefined,
+            oldPrice: item.oldPrice,
+            newPrice: item.newPrice,
+            currency: item.currency,
+            unsubscribeUrl: unsubscribeUrl(item.subscriptionId),
+        })),
+        manageUrl: manageLoginUrl(),
+    });
+    return emailResult(reference);
+}
+
+function emailResult(reference: string | null): ChannelResult {
+    // email.service logs the transport error and returns null
+    return reference != null ? { ok: true, reference } : { ok: false, error: 'Email not sent (see server log)' };
+}
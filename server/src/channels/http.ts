@@ -0,0 +1,133 @@
+/**
+ * JSON POST shared by the HTTP channels (webhook, Slack, Discord, Telegram).
+ * URLs given by subscribers must point to public addresses, so the public
+ * subscribe endpoint can't be used to reach the server's own network.
+ */
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { CHANNEL_TIMEOUT_MS, WEBHOOK_ALLOWED_HOSTS } from '../config/constants';
+import { ChannelResult } from './types';
+
+const USER_AGENT = 'PriceDropNotifier/1';
+
+/** Longest part of an error answer kept in the attempt log */
+const MAX_ERROR_BODY = 200;
+
+/**
+ * Loopback, private, link-local (cloud metadata endpoints), shared (CGNAT),
+ * multicast and reserved ranges. IPv4-mapped IPv6 addresses match the IPv4
+ * ranges.
+ */
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+    PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+    PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+const NOT_PUBLIC = 'must not point to a private, loopback or link-local address';
+
+/** Whether an IP address is outside the public internet */
+export function isPrivateAddress(ip: string): boolean {
+    const family = isIP(ip);
+    return family !== 0 && PRIVATE_ADDRESSES.check(ip, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/** URL hostname without IPv6 brackets */
+function hostnameOf(url: URL): string {
+    return url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+}
+
+/**
+ * POST a JSON body. Any answer but 2xx (redirects included), a network
+ * error or no answer within CHANNEL_TIMEOUT_MS is a failure.
+ * @param body - Serialized JSON, sent exactly as given (webhook signatures cover it)
+ */
+export async function postJson(url: string, body: string, headers: Record<string, string> = {}): Promise<ChannelResult> {
+    let resp: Response;
+    try {
+        resp = await fetch(url, {
+            method: 'POST',
+            body,
+            redirect: 'manual',
+            signal: AbortSignal.timeout(CHANNEL_TIMEOUT_MS),
+            headers: {
+                'Content-Type': 'application/json',
+                'User-Agent': USER_AGENT,
+                ...headers,
+            },
+        });
+    } catch (error) {
+        if (error instanceof Error && error.name === 'TimeoutError') {
+            return { ok: false, error: `Timed out after ${CHANNEL_TIMEOUT_MS} ms` };
+        }
+        // fetch() reports "fetch failed" with the actual error (ECONNREFUSED...) as its cause
+        const cause = (error as { cause?: unknown } | null)?.cause;
+        const message = (error instanceof Error ? error.message : String(error))
+            + (cause instanceof Error ? ` (${cause.message})` : '');
+        return { ok: false, error: message };
+    }
+
+    // Read the answer either way so the connection is released
+    const text = await resp.text().catch(() => '');
+    if (resp.status >= 200 && resp.status < 300) {
+        return { ok: true, statusCode: resp.status };
+    }
+    return {
+        ok: false,
+        statusCode: resp.status,
+        error: `HTTP ${resp.status}${text.trim() ? `: ${text.trim().slice(0, MAX_ERROR_BODY)}` : ''}`,
+    };
+}
+
+/**
+ * POST a JSON body to a URL a subscriber gave, once its hostname resolves
+ * to public addresses only (or is in WEBHOOK_ALLOWED_HOSTS). Resolved on
+ * every send: a name that passed validation may point elsewhere later.
+ */
+export async function postJsonToPublicUrl(url: string, body: string, headers: Record<string, string> = {}): Promise<ChannelResult> {
+    const hostname = URL.canParse(url) ? hostnameOf(new URL(url)) : null;
+    if (hostname && !WEBHOOK_ALLOWED_HOSTS.includes(hostname)) {
+        let addresses: string[];
+        try {
+            addresses = isIP(hostname) ? [hostname] : (await lookup(hostname, { all: true })).map((entry) => entry.address);
+        } catch (error) {
+            return { ok: false, error: `Unable to resolve ${hostname}: ${error instanceof Error ? error.message : String(error)}` };
+        }
+        const blocked = addresses.find(isPrivateAddress);
+        if (blocked) {
+            return { ok: false, error: `Refused: ${hostname} resolves to ${blocked}, the URL ${NOT_PUBLIC}` };
+        }
+    }
+    return postJson(url, body, headers);
+}
+
+/**
+ * Why a URL can't receive notifications, or null. Local and private
+ * addresses are refused unless in WEBHOOK_ALLOWED_HOSTS; hostnames are
+ * resolved and checked again when sending (see postJsonToPublicUrl).
+ */
+export function validateHttpUrl(address: string): string | null {
+    let url: URL;
+    try {
+        url = new URL(address);
+    } catch {
+        return 'must be an http(s) URL';
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return 'must be an http(s) URL';
+    }
+
+    const hostname = hostnameOf(url);
+    if (WEBHOOK_ALLOWED_HOSTS.includes(hostname)) {
+        return null;
+    }
+    if (hostname === 'localhost' || hostname.endsWith('.localhost') || isPrivateAddress(hostname)) {
+        return NOT_PUBLIC;
+    }
+    return null;
+}
@@ -0,0 +1,58 @@
+/**
+ * Notification channel registry.
+ * To add a channel, create a channel file next to this one implementing
+ * NotificationChannel, add its type to ChannelType and register it in
+ * `channels` below. The dispatcher (services/dispatcher.service.ts) and the
+ * subscribe validators pick it up from here.
+ */
+import { ChannelType, NotificationChannel } from './types';
+import { emailChannel } from './email.channel';
+import { webhookChannel } from './webhook.channel';
+import { slackChannel } from './slack.channel';
+import { discordChannel } from './discord.channel';
+import { telegramChannel } from './telegram.channel';
+
+export type {
+    ChannelType,
+    ChannelTarget,
+    ChannelResult,
+    DigestContent,
+    DigestContentItem,
+    NotificationChannel,
+    NotificationContent,
+    NotificationEvent,
+    NotificationEventData,
+} from './types';
+export { generateWebhookSecret, signWebhookPayload } from './webhook.channel';
+export { sendDigestContent } from './email.channel';
+
+const channels: Record<ChannelType, NotificationChannel> = {
+    email: emailChannel,
+    webhook: webhookChannel,
+    slack: slackChannel,
+    discord: discordChannel,
+    telegram: telegramChannel,
+};
+
+export const CHANNEL_TYPES = Object.keys(channels) as ChannelType[];
+
+/**
+ * The channel for a type.
+ */
+export function getChannel(type: ChannelType): NotificationChannel {
+    return channels[type];
+}
+
+/**
+ * Why a channel entry can't be used, or null when it is valid.
+ */
+export function validateChannelTarget(type: unknown, address: unknown): string | null {
+    if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(channels, type)) {
+        return `Channel type must be one of: ${CHANNEL_TYPES.join(', ')}`;
+    }
+    if (typeof address !== 'string' || !address.trim()) {
+        return `A ${type} channel needs an address`;
+    }
+    const problem = channels[type as ChannelType].validateAddress(address.trim());
+    return problem ? `The ${type} address ${problem}` : null;
+}
@@ -0,0 +1,51 @@
+/**
+ * Slack channel: a message POSTed to a Slack incoming-webhook URL
+ * (https://hooks.slack.com/services/...), as Block Kit blocks with a plain
+ * `text` fallback for notifications. Any service accepting Slack-shaped
+ * incoming webhooks (Mattermost, Rocket.Chat...) works too.
+ */
+import { NotificationChannel } from './types';
+import { buildChatMessage, ChatMessage } from './chatMessage';
+import { postJsonToPublicUrl, validateHttpUrl } from './http';
+
+/** Escape text for Slack mrkdwn (only &, < and > are special) */
+function escapeMrkdwn(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Slack incoming-webhook payload for a message.
+ */
+export function buildSlackPayload(message: ChatMessage): Record<string, unknown> {
+    const details = [`*<${message.productUrl}|${escapeMrkdwn(message.productName)}>*`, ...message.lines.map(escapeMrkdwn)].join('\n');
+    return {
+        text: message.title,
+        blocks: [
+            { type: 'header', text: { type: 'plain_text', text: message.title.slice(0, 150), emoji: true } },
+            {
+                type: 'section',
+                text: { type: 'mrkdwn', text: details },
+                ...(message.image && /^https?:/.test(message.image)
+                    ? { accessory: { type: 'image', image_url: message.image, alt_text: message.productName.slice(0, 2000) } }
+                    : {}),
+            },
+            {
+                type: 'context',
+                elements: [{
+                    type: 'mrkdwn',
+                    text: message.links.map((link) => `<${link.url}|${escapeMrkdwn(link.label)}>`).join(' · '),
+                }],
+            },
+        ],
+    };
+}
+
+export const slackChannel: NotificationChannel = {
+    type: 'slack',
+
+    validateAddress: validateHttpUrl,
+
+    async send(content, target) {
+        return postJsonToPublicUrl(target.address, JSON.stringify(buildSlackPayload(buildChatMessage(content))));
+    },
+};
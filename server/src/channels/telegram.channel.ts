@@ -0,0 +1,49 @@
+/**
+ * Telegram channel: a message sent by the bot configured with
+ * TELEGRAM_BOT_TOKEN through the Bot API `sendMessage` method. The address
+ * is the chat id (a number, negative for groups) or a public channel's
+ * @username; the bot must be a member of the chat.
+ */
+import { escapeHtml } from '../views/pages';
+import { TELEGRAM_API_URL, TELEGRAM_BOT_TOKEN } from '../config/constants';
+import { NotificationChannel } from './types';
+import { buildChatMessage, ChatMessage } from './chatMessage';
+import { postJson } from './http';
+
+const CHAT_ID_PATTERN = /^(-?\d{1,20}|@[A-Za-z][A-Za-z0-9_]{4,31})$/;
+
+/**
+ * Bot API `sendMessage` parameters for a message, in Telegram's HTML
+ * parse mode (4096 characters at most).
+ */
+export function buildTelegramPayload(message: ChatMessage, chatId: string): Record<string, unknown> {
+    const text = [
+        `<b>${escapeHtml(message.title)}</b>`,
+        '',
+        ...message.lines.map(escapeHtml),
+        '',
+        message.links.map((link) => `<a href="${escapeHtml(link.url)}">${escapeHtml(link.label)}</a>`).join(' · '),
+    ].join('\n');
+    return {
+        chat_id: chatId,
+        text: text.slice(0, 4096),
+        parse_mode: 'HTML',
+        link_preview_options: { url: message.productUrl },
+    };
+}
+
+export const telegramChannel: NotificationChannel = {
+    type: 'telegram',
+
+    validateAddress(address) {
+        return CHAT_ID_PATTERN.test(address) ? null : 'must be a Telegram chat id or @channel name';
+    },
+
+    async send(content, target) {
+        if (!TELEGRAM_BOT_TOKEN) {
+            return { ok: false, error: 'TELEGRAM_BOT_TOKEN is not set' };
+        }
+        const payload = buildTelegramPayload(buildChatMessage(content), target.address);
+        return postJson(`${TELEGRAM_API_URL}/bot${TELEGRAM_BOT_TOKEN}/sendMessage`, JSON.stringify(payload));
+    },
+};
@@ -0,0 +1,99 @@
+/**
+ * Notification channel contract.
+ * A channel delivers one notification to one address: an email address, a
+ * webhook URL, a Slack or Discord incoming-webhook URL, or a Telegram chat.
+ * Channels receive the channel-neutral content stored on the Notification
+ * and format it into their own payload shape; the dispatcher (see
+ * services/dispatcher.service.ts) records the outcome and retries failures.
+ */
+import { DigestFrequency, PriceHistoryPoint, ProductAvailability } from '../types';
+
+export type ChannelType = 'email' | 'webhook' | 'slack' | 'discord' | 'telegram';
+
+/** `digest` notifications only go to the email channel (see DigestContent) */
+export type NotificationEvent = 'price_drop' | 'back_in_stock' | 'delisted' | 'digest';
+
+/** Where a subscription's notifications go on one channel */
+export interface ChannelTarget {
+    type: ChannelType;
+    /** Email address, URL, or Telegram chat id, depending on the type */
+    address: string;
+    /** Key webhook payloads are signed with (`webhook` only) */
+    secret?: string;
+}
+
+/** Event-specific fields of a notification */
+export type NotificationEventData =
+    | {
+        event: 'price_drop';
+        oldPrice: number;
+        newPrice: number;
+        currency: string | null;
+        /** Recent daily prices, drawn as a sparkline in emails */
+        history?: PriceHistoryPoint[];
+    }
+    | { event: 'back_in_stock'; availability: ProductAvailability; price: number | null; currency: string | null }
+    | { event: 'delisted' };
+
+/**
+ * What a notification says, independent of the channel. Stored on the
+ * Notification, so every retry sends the same content.
+ */
+export type NotificationContent = NotificationEventData & {
+    /** Notification id, stable across retries */
+    id: string;
+    createdAt: string;
+    subscriptionId: string;
+    /** Language of the message (see SUPPORTED_LOCALES) */
+    locale: string;
+    product: {
+        id: string;
+        name: string;
+        url: string;
+        image: string | null;
+    };
+};
+
+/** One price drop of a digest */
+export interface DigestContentItem {
+    subscriptionId: string;
+    product: {
+        name: string;
+        url: string;
+        image: string | null;
+    };
+    /** Price before the first drop of the period */
+    oldPrice: number;
+    newPrice: number;
+    currency: string | null;
+}
+
+/**
+ * What a digest email says: every price drop collected for an address over
+ * the day or week. Stored on the Notification like NotificationContent, so
+ * a resend sends the same drops.
+ */
+export interface DigestContent {
+    event: 'digest';
+    id: string;
+    createdAt: string;
+    locale: string;
+    frequency: DigestFrequency;
+    items: DigestContentItem[];
+}
+
+/**
+ * Outcome of one delivery attempt. `statusCode` is the HTTP status of the
+ * endpoint's answer, when there was one; `reference` is where a sent email
+ * ended up (Ethereal preview URL, outbox .eml path or SMTP message id).
+ */
+export type ChannelResult =
+    | { ok: true; statusCode?: number; reference?: string }
+    | { ok: false; statusCode?: number; error: string };
+
+export interface NotificationChannel {
+    type: ChannelType;
+    /** Why an address can't be used on this channel, or null when it can */
+    validateAddress(address: string): string | null;
+    send(content: NotificationContent, target: ChannelTarget): Promise<ChannelResult>;
+}
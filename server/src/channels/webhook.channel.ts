@@ -0,0 +1,73 @@
+/**
+ * Webhook channel: a versioned JSON payload POSTed to the subscriber's URL,
+ * signed with the subscription's secret.
+ *
+ * Signature: `X-PriceDrop-Signature: t=<unix seconds>,v1=<hex>` where the
+ * hex digest is HMAC-SHA256(secret, "<t>.<raw body>"). Receivers should
+ * recompute it and reject stale timestamps.
+ */
+import { createHmac, randomBytes } from 'crypto';
+import { NotificationChannel, NotificationContent } from './types';
+import { postJsonToPublicUrl, validateHttpUrl } from './http';
+
+/** Version of the payload format, sent as `version` */
+export const WEBHOOK_PAYLOAD_VERSION = 1;
+
+/**
+ * Generate the secret a webhook target's payloads are signed with.
+ */
+export function generateWebhookSecret(): string {
+    return 'whsec_' + randomBytes(24).toString('base64url');
+}
+
+/**
+ * Compute the `X-PriceDrop-Signature` header for a payload.
+ * @param secret - The webhook target's secret
+ * @param timestamp - Unix time in seconds, part of the signed data
+ * @param body - Raw JSON body, exactly as sent
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+    const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * The version 1 payload: product, subscription and the event's fields
+ * (prices for `price_drop`, availability and price for `back_in_stock`).
+ */
+export function buildWebhookPayload(content: NotificationContent): Record<string, unknown> {
+    const base = {
+        version: WEBHOOK_PAYLOAD_VERSION,
+        id: content.id,
+        event: content.event,
+        createdAt: content.createdAt,
+        subscriptionId: content.subscriptionId,
+        product: content.product,
+    };
+    if (content.event === 'price_drop') {
+        return { ...base, oldPrice: content.oldPrice, newPrice: content.newPrice, currency: content.currency };
+    }
+    if (content.event === 'back_in_stock') {
+        return { ...base, availability: content.availability, price: content.price, currency: content.currency };
+    }
+    return base;
+}
+
+export const webhookChannel: NotificationChannel = {
+    type: 'webhook',
+
+    validateAddress: validateHttpUrl,
+
+    async send(content, target) {
+        if (!target.secret) {
+            return { ok: false, error: 'Webhook target has no secret' };
+        }
+        const body = JSON.stringify(buildWebhookPayload(content));
+        const timestamp = Math.floor(Date.now() / 1000);
+        return postJsonToPublicUrl(target.address, body, {
+            'X-PriceDrop-Event': content.event,
+            'X-PriceDrop-Delivery': content.id,
+            'X-PriceDrop-Signature': signWebhookPayload(target.secret, timestamp, body),
+        });
+    },
+};
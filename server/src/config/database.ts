@@ -48,9 +48,3 @@ mongoose.connection.on('error', (err) => {
 mongoose.connection.on('disconnected', () => {
     console.log('Mongoose disconnected');
 });
-
-// Handle application termination to close DB connection cleanly
-process.on('SIGINT', async () => {
-    await disconnectDatabase();
-    process.exit(0);
-});
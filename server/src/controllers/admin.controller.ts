@@ -1,12 +1,212 @@
 import { Request, Response } from 'express';
-import { checkPriceDrops } from '../services/notifier.service';
+import { validationResult } from 'express-validator';
+import { enqueueDueChecks } from '../services/notifier.service';
+import { getQueueStats } from '../services/jobQueue.service';
+import { getFailingProducts } from '../services/product.service';
+import { getProxyPoolStats } from '../services/proxyPool';
+import { getNotifications, resendNotification, resendFailedNotifications, NotificationFilter } from '../services/dispatcher.service';
+import { NotificationStatus } from '../models/Notification.model';
+import { ChannelType, NotificationEvent } from '../channels';
+import { authenticateApiKey, createAdminSession, getAuditLog } from '../services/adminAuth.service';
+import { renderEmailPreview, resolveLocale } from '../views/emails';
 
+/**
+ * Exchange an admin API key for a short-lived session token, so clients
+ * don't have to keep sending the long-lived key.
+ */
+export async function login(req: Request, res: Response) {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+        return res.status(400).json({ ok: false, errors: errors.array() });
+    }
+
+    try {
+        const key = await authenticateApiKey(req.body.apiKey);
+        if (!key) {
+            return res.status(401).json({ ok: false, error: 'unauthorized' });
+        }
+
+        res.locals.adminKey = key;
+        const session = createAdminSession(key);
+        return res.json({ ok: true, token: session.token, expiresAt: session.expiresAt, role: key.role });
+    } catch (error) {
+        console.error('Admin login error:', error);
+        return res.status(500).json({ ok: false, error: 'server_error' });
+    }
+}
+
+/**
+ * Queue a price check for every due product and return immediately;
+ * workers run the checks and send notifications.
+ */
 export async function triggerNotification(req: Request, res: Response) {
     try {
-        const result = await checkPriceDrops();
-        return res.json({ ok: true, result });
+        const result = await enqueueDueChecks();
+        const queue = await getQueueStats();
+        return res.status(202).json({ ok: true, result, queue });
     } catch (error) {
         console.error('Trigger notification error:', error);
         return res.status(500).json({ ok: false, error: 'server_error' });
     }
 }
+
+/**
+ * Return the most recent admin audit log entries (`?limit=`, default 100).
+ */
+export async function getAuditLogEntries(req: Request, res: Response) {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+        return res.status(400).json({ ok: false, errors: errors.array() });
+    }
+
+    try {
+        const limit = req.query.limit ? Number(req.query.limit) : undefined;
+        const entries = await getAuditLog(limit);
+        return res.json({ ok: true, entries });
+    } catch (error) {
+        console.error('Get audit log error:', error);
+        return res.status(500).json({ ok: false, error: 'server_error' });
+    }
+}
+
+/**
+ * Return products whose checks keep failing (`?minFailures=`, default
+ * FAILING_PRODUCT_MIN_FAILURES consecutive failures; `?limit=`, default 100),
+ * with the classified reason of the last failure and a count per reason.
+ */
+export async function getFailingProductList(req: Request, res: Response) {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+        return res.status(400).json({ ok: false, errors: errors.array() });
+    }
+
+    try {
+        const minFailures = req.query.minFailures ? Number(req.query.minFailures) : undefined;
+        const limit = req.query.limit ? Number(req.query.limit) : undefined;
+        const products = await getFailingProducts(minFailures, limit);
+
+        const byReason: Record<string, number> = {};
+        for (const product of products) {
+            const reason = product.lastFailureReason ?? 'unknown';
+            byReason[reason] = (byReason[reason] ?? 0) + 1;
+        }
+
+        return res.json({ ok: true, count: products.length, byReason, products });
+    } catch (error) {
+        console.error('Get failing products error:', error);
+        return res.status(500).json({ ok: false, error: 'server_error' });
+    }
+}
+
+/**
+ * Health of the scraping proxies: score, bench state and the domains each
+ * one currently serves. Empty when PROXIES is not set.
+ */
+export function getProxyList(req: Request, res: Response) {
+    const proxies = getProxyPoolStats();
+    return res.json({ ok: true, count: proxies.length, benched: proxies.filter((p) => p.benchedUntil).length, proxies });
+}
+
+/**
+ * Notification filter from query or body fields (already validated).
+ */
+function notificationFilter(fields: Record<string, unknown>): NotificationFilter {
+    return {
+        subscriptionId: fields.subscriptionId as string | undefined,
+        productId: fields.productId as string | undefined,
+        channel: fields.channel as ChannelType | undefined,
+        event: fields.event as NotificationEvent | undefined,
+        status: fields.status as NotificationStatus | undefined,
+        since: fields.since ? new Date(fields.since as string) : undefined,
+    };
+}
+
+/**
+ * Recent notifications and their delivery attempts, last error and email
+ * preview URL.
+ * Query params: `subscriptionId`, `productId`, `channel`, `event`, `status`
+ * (pending, delivered or failed), `since` (ISO date) and `limit`.
+ */
+export async function getNotificationList(req: Request, res: Response) {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+        return res.status(400).json({ ok: false, errors: errors.array() });
+    }
+
+    try {
+        const notifications = await getNotifications(
+            notificationFilter(req.query),
+            req.query.limit ? Number(req.query.limit) : undefined
+        );
+        return res.json({ ok: true, count: notifications.length, notifications });
+    } catch (error) {
+        console.error('Get notifications error:', error);
+        return res.status(500).json({ ok: false, error: 'server_error' });
+    }
+}
+
+/**
+ * Resend one failed or delivered notification with a new round of
+ * delivery attempts. 409 while it is still pending.
+ */
+export async function resendNotificationById(req: Request, res: Response) {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+        return res.status(400).json({ ok: false, errors: errors.array() });
+    }
+
+    try {
+        const result = await resendNotification(req.params.id);
+        if (!result.ok) {
+            return res.status(result.error === 'not_found' ? 404 : 409).json(result);
+        }
+        return res.status(202).json({ ok: true, notification: result.notification });
+    } catch (error) {
+        console.error('Resend notification error:', error);
+        return res.status(500).json({ ok: false, error: 'server_error' });
+    }
+}
+
+/**
+ * Resend the failed notifications matching the body's `subscriptionId`,
+ * `productId`, `channel`, `event` and `since` (all optional).
+ */
+export async function resendFailedNotificationList(req: Request, res: Response) {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+        return res.status(400).json({ ok: false, errors: errors.array() });
+    }
+
+    try {
+        const resent = await resendFailedNotifications(notificationFilter(req.body ?? {}));
+        return res.status(202).json({ ok: true, resent });
+    } catch (error) {
+        console.error('Resend failed notifications error:', error);
+        return res.status(500).json({ ok: false, error: 'server_error' });
+    }
+}
+
+/**
+ * Render an email template with sample data.
+ * Query params: `locale` and `format` (html, the default, text or json).
+ */
+export function previewEmail(req: Request, res: Response) {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+        return res.status(400).json({ ok: false, errors: errors.array() });
+    }
+
+    const email = renderEmailPreview(req.params.template, resolveLocale(req.query.locale as string | undefined));
+    if (!email) {
+        return res.status(404).json({ ok: false, error: 'Template not found' });
+    }
+
+    switch (req.query.format) {
+        case 'text':
+            return res.type('text/plain').send(`Subject: ${email.subject}\n\n${email.text}`);
+        case 'json':
+            return res.json({ ok: true, ...email });
+        default:
+            return res.type('html').send(email.html);
+    }
+}
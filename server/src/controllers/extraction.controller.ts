@@ -37,10 +37,27 @@ export async function extractProduct(req: Request, res: Response) {
 
     try {
         timings.scrapeStart = Date.now();
-        const product = await scrapeProduct(url);
+        const result = await scrapeProduct(url);
         timings.scrapeEnd = Date.now();
         timings.end = Date.now();
 
+        if (!result.ok) {
+            // Bot wall, missing page, timeout... (see ScrapeFailureReason)
+            const latency = timings.end - timings.start;
+            const errorResponse = {
+                ok: false,
+                error: 'fetch_failed',
+                reason: result.reason,
+                message: result.message,
+            };
+            console.log('📤 Response: 502 Bad Gateway | Latency:', latency + 'ms');
+            console.log('Response Body:', JSON.stringify(errorResponse));
+            printWaterfall(timings);
+            return res.status(502).json(errorResponse);
+        }
+
+        const { product } = result;
+
         const latency = timings.end - timings.start;
         console.log('📤 Response: 200 OK | Latency:', latency + 'ms');
         console.log('Response Body:', JSON.stringify({ ok: true, product }));
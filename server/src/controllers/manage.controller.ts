@@ -0,0 +1,206 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { Subscription } from '../models/Subscription.model';
+import { Subscriber } from '../models/Subscriber.model';
+import { Product } from '../models/Product.model';
+import { findOrCreateSubscriber, markSubscriberVerified, updateSubscriber } from '../services/subscriber.service';
+import { sendManageLinkEmail } from '../services/email.service';
+import { verifyToken } from '../tokens';
+import { manageUrl } from '../links';
+import { renderManageLoginPage, renderManagePage, renderMessagePage } from '../views/pages';
+import { CONFIRMATION_RESEND_INTERVAL_MS } from '../config/constants';
+
+/**
+ * Middleware for /manage/:token routes: verifies the magic-link token and
+ * exposes the subscriber email as `res.locals.email`.
+ */
+export function requireManageToken(req: Request, res: Response, next: NextFunction) {
+    const email = verifyToken(req.params.token, 'manage');
+    if (!email) {
+        return res.status(401).send(renderMessagePage(
+            'Link expired',
+            'This link is invalid or has expired. <a href="/manage">Request a new one</a>.'
+        ));
+    }
+    res.locals.email = email;
+    next();
+}
+
+export function showManageLogin(req: Request, res: Response) {
+    return res.send(renderManageLoginPage());
+}
+
+/**
+ * Email a magic link to the self-service page. Always answers with the same
+ * page so the form cannot be used to find out who is subscribed, or to flood
+ * an inbox: an address gets at most one link per resend interval.
+ */
+export async function requestManageLink(req: Request, res: Response) {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+        return res.status(400).send(renderMessagePage('Invalid email', 'Please enter a valid email address. <a href="/manage">Try again</a>.'));
+    }
+
+    try {
+        const { email } = req.body as { email: string };
+        const subscriber = await claimManageLinkEmail(email);
+        if (subscriber) {
+            await sendManageLinkEmail({ to: email, manageUrl: manageUrl(email), locale: subscriber.locale });
+        }
+        return res.send(renderManageLoginPage(true));
+    } catch (error) {
+        console.error('Request manage link error:', error);
+        return res.status(500).send(renderMessagePage('Something went wrong', 'Please try again later.'));
+    }
+}
+
+/**
+ * Atomically claim the manage link email of an address, so concurrent
+ * requests send it once. Returns the subscriber, or null when there is none
+ * or a link was sent less than `CONFIRMATION_RESEND_INTERVAL_MS` ago.
+ */
+async function claimManageLinkEmail(email: string) {
+    const now = new Date();
+    const cutoff = new Date(now.getTime() - CONFIRMATION_RESEND_INTERVAL_MS);
+    return Subscriber.findOneAndUpdate(
+        {
+            email,
+            $or: [
+                { manageLinkSentAt: { $lt: cutoff } },
+                { manageLinkSentAt: { $exists: false } },
+            ],
+        },
+        { $set: { manageLinkSentAt: now } },
+    ).select('locale');
+}
+
+export async function showManagePage(req: Request, res: Response) {
+    try {
+        const email = res.locals.email as string;
+        // Opening the magic link proves the address
+        const subscriber = await findOrCreateSubscriber(email);
+        await markSubscriberVerified(subscriber);
+
+        const subscriptions = await Subscription.find({ email }).sort({ createdAt: -1 });
+        const products = await Product.find({ _id: { $in: subscriptions.map((sub) => sub.productId) } });
+        const productsById = new Map(products.map((product) => [String(product._id), product]));
+        return res.send(renderManagePage(`/manage/${req.params.token}`, subscriber, subscriptions, productsById));
+    } catch (error) {
+        console.error('Show manage page error:', error);
+        return res.status(500).send(renderMessagePage('Something went wrong', 'Please try again later.'));
+    }
+}
+
+/**
+ * Pause, resume or delete one of the subscriber's subscriptions, then go
+ * back to the list. `req.params.action` is restricted by the route.
+ */
+export async function updateManagedSubscription(req: Request, res: Response) {
+    const { token, id, action } = req.params;
+    if (!validationResult(req).isEmpty()) {
+        return res.status(400).send(renderMessagePage('Invalid request', `Unknown price alert. <a href="/manage/${token}">Back to your alerts</a>.`));
+    }
+
+    try {
+        const email = res.locals.email as string;
+        const subscription = await Subscription.findOne({ _id: id, email });
+
+        if (!subscription) {
+            return res.status(404).send(renderMessagePage('Not found', `This price alert no longer exists. <a href="/manage/${token}">Back to your alerts</a>.`));
+        }
+
+        if (action === 'delete') {
+            await subscription.deleteOne();
+        } else if (subscription.status !== 'pending' && subscription.status !== 'expired') {
+            subscription.status = action === 'pause' ? 'paused' : 'active';
+            await subscription.save();
+        }
+
+        console.log(`✓ Subscriber ${email} ${action}d subscription ${id}`);
+        return res.redirect(303, `/manage/${token}`);
+    } catch (error) {
+        console.error('Update managed subscription error:', error);
+        return res.status(500).send(renderMessagePage('Something went wrong', 'Please try again later.'));
+    }
+}
+
+/**
+ * Replace the alert rules of one subscription. Empty fields clear a rule,
+ * an unchecked box turns that option off and an empty cooldown means the
+ * default one.
+ */
+export async function updateManagedAlert(req: Request, res: Response) {
+    const { token, id } = req.params;
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+        return res.status(400).send(renderMessagePage('Invalid alert settings', `${errors.array()[0].msg}. <a href="/manage/${token}">Back to your alerts</a>.`));
+    }
+
+    try {
+        const email = res.locals.email as string;
+        const subscription = await Subscription.findOne({ _id: id, email });
+
+        if (!subscription) {
+            return res.status(404).send(renderMessagePage('Not found', `This price alert no longer exists. <a href="/manage/${token}">Back to your alerts</a>.`));
+        }
+
+        const { targetPrice, minDropPercent, minDropAmount, backInStock, allTimeLow, cooldownHours, digest } = req.body;
+        subscription.alert = {
+            targetPrice: targetPrice || undefined,
+            minDropPercent: minDropPercent || undefined,
+            minDropAmount: minDropAmount || undefined,
+            backInStock: backInStock || undefined,
+            allTimeLow: allTimeLow || undefined,
+            cooldownHours: typeof cooldownHours === 'number' ? cooldownHours : undefined,
+            digest: digest || undefined,
+        };
+        await subscription.save();
+
+        console.log(`✓ Subscriber ${email} updated alert rules of subscription ${id}`);
+        return res.redirect(303, `/manage/${token}`);
+    } catch (error) {
+        console.error('Update managed alert error:', error);
+        return res.status(500).send(renderMessagePage('Something went wrong', 'Please try again later.'));
+    }
+}
+
+/**
+ * Save the subscriber's language, time zone and quiet hours (form on the
+ * self-service page). Quiet hours are off unless both hours are chosen.
+ */
+export async function updateManagedPreferences(req: Request, res: Response) {
+    const { token } = req.params;
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+        return res.status(400).send(renderMessagePage('Invalid preferences', `${errors.array()[0].msg}. <a href="/manage/${token}">Back to your alerts</a>.`));
+    }
+
+    try {
+        const email = res.locals.email as string;
+        const { locale, timezone, quietStart, quietEnd } = req.body;
+        const subscriber = await findOrCreateSubscriber(email);
+        await updateSubscriber(subscriber, {
+            locale,
+            timezone: timezone || 'UTC',
+            quietHours: typeof quietStart === 'number' && typeof quietEnd === 'number' ? { start: quietStart, end: quietEnd } : null,
+        });
+
+        console.log(`✓ Subscriber ${email} updated their preferences`);
+        return res.redirect(303, `/manage/${token}`);
+    } catch (error) {
+        console.error('Update managed preferences error:', error);
+        return res.status(500).send(renderMessagePage('Something went wrong', 'Please try again later.'));
+    }
+}
+
+export async function deleteAllManagedSubscriptions(req: Request, res: Response) {
+    try {
+        const email = res.locals.email as string;
+        const result = await Subscription.deleteMany({ email });
+        console.log(`✓ Subscriber ${email} deleted all ${result.deletedCount} subscriptions`);
+        return res.send(renderMessagePage('All alerts deleted', 'You will not receive any more price alerts from us.'));
+    } catch (error) {
+        console.error('Delete all managed subscriptions error:', error);
+        return res.status(500).send(renderMessagePage('Something went wrong', 'Please try again later.'));
+    }
+}
@@ -0,0 +1,50 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import { Subscription } from '../models/Subscription.model';
+import { Product } from '../models/Product.model';
+import { getPriceHistory } from '../services/priceHistory.service';
+import { PriceHistoryInterval } from '../types';
+
+/**
+ * Return the observed price history of a product. `:id` is a product id,
+ * or a subscription id for the product it watches.
+ * Query params: `from`/`to` (ISO 8601 dates) and `interval` (raw|hour|day|week).
+ */
+export async function getProductHistory(req: Request, res: Response) {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+        return res.status(400).json({ ok: false, errors: errors.array() });
+    }
+
+    try {
+        const { id } = req.params;
+        let product = await Product.findById(id);
+        if (!product) {
+            const subscription = await Subscription.findById(id).select('productId');
+            product = subscription ? await Product.findById(subscription.productId) : null;
+        }
+
+        if (!product) {
+            return res.status(404).json({ ok: false, error: 'Product not found' });
+        }
+
+        const interval = (req.query.interval as PriceHistoryInterval | undefined) ?? 'raw';
+        const points = await getPriceHistory(product.url, {
+            from: req.query.from ? new Date(req.query.from as string) : undefined,
+            to: req.query.to ? new Date(req.query.to as string) : undefined,
+            interval,
+            currency: product.currency,
+        });
+
+        return res.json({
+            ok: true,
+            productUrl: product.url,
+            currency: product.currency ?? null,
+            interval,
+            points,
+        });
+    } catch (error) {
+        console.error('Get product history error:', error);
+        return res.status(500).json({ ok: false, error: 'server_error' });
+    }
+}
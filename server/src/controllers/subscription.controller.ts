@@ -1,7 +1,18 @@
 import { Request, Response } from 'express';
 import { validationResult } from 'express-validator';
-import { Subscription } from '../models/Subscription.model';
-import { randomDelay, parsePriceString } from '../utils';
+import { Subscription, ISubscription, isConfirmationExpired } from '../models/Subscription.model';
+import { sendConfirmationEmail } from '../services/email.service';
+import { findOrCreateProduct } from '../services/product.service';
+import { findOrCreateSubscriber, markSubscriberVerified, countWatchlist } from '../services/subscriber.service';
+import { Subscriber } from '../models/Subscriber.model';
+import { generateWebhookSecret, ChannelTarget, ChannelType } from '../channels';
+import { randomDelay } from '../utils';
+import { CONFIRMATION_RESEND_INTERVAL_MS } from '../config/constants';
+import { parseMoney } from '../money';
+import { verifyToken } from '../tokens';
+import { confirmUrl, widgetIdentityUrl } from '../links';
+import { renderMessagePage, renderUnsubscribePage, escapeHtml } from '../views/pages';
+import { AlertRules } from '../types';
 
 interface SubscribeRequestBody {
     email: string;
@@ -9,7 +20,14 @@ interface SubscribeRequestBody {
         name: string;
         price: string;
         url: string;
+        image?: string;
     };
+    alert?: AlertRules;
+    /** Where notifications go; the subscriber email when omitted */
+    channels?: { type: ChannelType; address: string }[];
+    /** Shorthand for a single webhook channel */
+    webhook?: { url: string };
+    locale?: string;
 }
 
 export async function subscribe(req: Request, res: Response) {
@@ -44,7 +62,7 @@ export async function subscribe(req: Request, res: Response) {
     }
 
     const body = req.body as SubscribeRequestBody;
-    const { email, product } = body;
+    const { email, product, alert, channels, webhook, locale } = body;
 
     // Random delay to simulate processing
     timings.processingStart = Date.now();
@@ -52,15 +70,44 @@ export async function subscribe(req: Request, res: Response) {
     timings.processingEnd = Date.now();
 
     try {
-        // Check if subscription already exists
+        // Parse initial price for price drop tracking
+        const initialPrice = parseMoney(product.price);
+        console.log(`💰 Parsed price: "${product.price}" → ${initialPrice ? `${initialPrice.amount} ${initialPrice.currency ?? '(no currency)'}` : 'null'}`);
+
+        // Check if subscription already exists (any URL variant of the same product)
         timings.dbQueryStart = Date.now();
+        const watched = await findOrCreateProduct({
+            url: product.url,
+            name: product.name,
+            image: product.image,
+            currency: initialPrice?.currency,
+        });
         const exists = await Subscription.findOne({
             email,
-            'product.url': product.url,
+            productId: watched._id,
         });
         timings.dbQueryEnd = Date.now();
 
-        if (exists) {
+        if (exists && exists.status === 'pending' && !isConfirmationExpired(exists)) {
+            // Not confirmed yet - send the confirmation link again, at most
+            // once per CONFIRMATION_RESEND_INTERVAL_MS so the endpoint can't
+            // be used to flood an address
+            const resent = await claimConfirmationResend(exists);
+            if (resent) {
+                await sendSubscriptionConfirmation(exists);
+            }
+            const latency = Date.now() - timings.start;
+            console.log(`📤 Response: 200 OK (confirmation ${resent ? 'resent' : 'sent recently, not resent'}) | Latency:`, latency + 'ms');
+            console.log('Response Body:', JSON.stringify({ ok: true, status: 'pending' }));
+            printWaterfall(timings);
+            return res.json({ ok: true, status: 'pending' });
+        }
+
+        if (exists && (exists.status === 'pending' || exists.status === 'expired')) {
+            // Confirmation window passed, or the product was delisted and is back -
+            // start over with a fresh subscription
+            await exists.deleteOne();
+        } else if (exists) {
             const latency = Date.now() - timings.start;
             console.log('📤 Response: 409 Conflict | Latency:', latency + 'ms');
             console.log('Response Body:', JSON.stringify({ ok: false, error: 'already_subscribed' }));
@@ -80,28 +127,59 @@ export async function subscribe(req: Request, res: Response) {
         // Create new subscription
         timings.dbSaveStart = Date.now();
 
-        // Parse initial price for price drop tracking
-        const initialPrice = parsePriceString(product.price);
-        console.log(`💰 Parsed price: "${product.price}" → ${initialPrice ?? 'null'}`);
+        // Webhook payloads are signed with a per-channel secret, shown only in this response
+        const targets: ChannelTarget[] = [
+            ...(channels ?? []),
+            ...(webhook?.url ? [{ type: 'webhook' as const, address: webhook.url }] : []),
+        ].map(({ type, address }) => (type === 'webhook' ? { type, address, secret: generateWebhookSecret() } : { type, address }));
+        const webhookTarget = targets.find((target) => target.type === 'webhook');
+
+        // The first subscription of an address creates its subscriber (and watchlist)
+        const subscriber = await findOrCreateSubscriber(email, locale);
 
         const subscription = new Subscription({
             email,
+            subscriberId: subscriber._id,
+            productId: watched._id,
             product: {
                 ...product,
-                lastSeenPrice: initialPrice ?? undefined,
+                currency: initialPrice?.currency ?? undefined,
             },
+            alert,
+            channels: targets,
+            locale,
+            status: 'pending',
+            confirmationSentAt: new Date(),
         });
 
         await subscription.save();
         timings.dbSaveEnd = Date.now();
+
+        // Double opt-in: nothing is sent until the subscriber confirms
+        timings.emailStart = Date.now();
+        await sendSubscriptionConfirmation(subscription);
+        timings.emailEnd = Date.now();
         timings.end = Date.now();
 
         const latency = timings.end - timings.start;
         console.log('📤 Response: 200 OK | Latency:', latency + 'ms');
-        console.log('Response Body:', JSON.stringify({ ok: true }));
+        const response = {
+            ok: true,
+            status: 'pending',
+            channels: targets,
+            webhook: webhookTarget && { url: webhookTarget.address, secret: webhookTarget.secret },
+        };
+        // Secrets stay out of the log
+        console.log('Response Body:', JSON.stringify({ ok: true, status: 'pending', channels: targets.map(({ type, address }) => ({ type, address })) }));
         printWaterfall(timings);
-        return res.json({ ok: true });
-    } catch (error) {
+        return res.json(response);
+    } catch (error: any) {
+        // Concurrent request for the same email and product won the unique index race
+        if (error?.code === 11000) {
+            console.log('📤 Response: 409 Conflict (duplicate key)');
+            return res.status(409).json({ ok: false, error: 'already_subscribed' });
+        }
+
         console.error('❌ Subscribe error:', error);
         timings.end = Date.now();
         const latency = timings.end - timings.start;
@@ -149,6 +227,14 @@ function printWaterfall(timings: Record<string, number>) {
         });
     }
 
+    if (timings.emailStart && timings.emailEnd) {
+        phases.push({
+            name: 'Confirmation Email',
+            duration: timings.emailEnd - timings.emailStart,
+            start: timings.emailStart - timings.start
+        });
+    }
+
     const totalTime = (timings.end || Date.now()) - timings.start;
 
     phases.forEach(phase => {
@@ -162,6 +248,140 @@ function printWaterfall(timings: Record<string, number>) {
     console.log('==========================================\n');
 }
 
+/**
+ * Record a confirmation resend unless the last confirmation email is more
+ * recent than CONFIRMATION_RESEND_INTERVAL_MS. Atomic, so concurrent
+ * requests send one email between them.
+ * @returns Whether the caller should send the email
+ */
+async function claimConfirmationResend(subscription: ISubscription): Promise<boolean> {
+    const now = new Date();
+    const cutoff = new Date(now.getTime() - CONFIRMATION_RESEND_INTERVAL_MS);
+    const result = await Subscription.updateOne(
+        {
+            _id: subscription._id,
+            $or: [
+                { confirmationSentAt: { $lt: cutoff } },
+                // Subscriptions from before resends were throttled
+                { confirmationSentAt: { $exists: false }, createdAt: { $lt: cutoff } },
+            ],
+        },
+        { $set: { confirmationSentAt: now } },
+    );
+    return result.modifiedCount === 1;
+}
+
+/**
+ * Email a signed confirmation link for a pending subscription.
+ */
+async function sendSubscriptionConfirmation(subscription: ISubscription) {
+    await sendConfirmationEmail({
+        to: subscription.email,
+        productName: subscription.product.name,
+        productUrl: subscription.product.url,
+        confirmUrl: confirmUrl(String(subscription._id)),
+        locale: subscription.locale,
+    });
+}
+
+/**
+ * Activate a pending subscription from the emailed confirmation link.
+ * Responds with a small HTML page since it is opened from an email client.
+ */
+export async function confirmSubscription(req: Request, res: Response) {
+    try {
+        const id = verifyToken(req.params.token, 'confirm');
+        if (!id) {
+            return res.status(400).send(renderMessagePage('Invalid link', 'This confirmation link is invalid or has expired.'));
+        }
+
+        const subscription = await Subscription.findById(id);
+        if (!subscription) {
+            return res.status(404).send(renderMessagePage('Subscription not found', 'This subscription no longer exists. Please subscribe again.'));
+        }
+
+        if (subscription.status === 'active') {
+            return res.send(renderMessagePage('Already confirmed', 'Your price alert is already active.'));
+        }
+
+        if (isConfirmationExpired(subscription)) {
+            return res.status(410).send(renderMessagePage('Link expired', 'This confirmation link has expired. Please subscribe again.'));
+        }
+
+        subscription.status = 'active';
+        subscription.confirmedAt = new Date();
+        await subscription.save();
+
+        console.log(`✓ Subscription ${subscription._id} confirmed by ${subscription.email}`);
+
+        // The link back to the product identifies the subscriber to the widget
+        const subscriber = subscription.subscriberId && await Subscriber.findById(subscription.subscriberId);
+        let watchlist = '';
+        if (subscriber) {
+            await markSubscriberVerified(subscriber);
+            const watching = await countWatchlist(String(subscriber._id));
+            const productLink = widgetIdentityUrl(subscription.product.url, String(subscriber._id));
+            watchlist = ` You are watching ${watching} ${watching === 1 ? 'product' : 'products'}.`
+                + (productLink ? ` <a href="${escapeHtml(productLink)}">Back to the product</a>` : '');
+        }
+
+        return res.send(renderMessagePage(
+            'Subscription confirmed',
+            `We'll email you when the price of <strong>${escapeHtml(subscription.product.name)}</strong> drops.${watchlist}`
+        ));
+    } catch (error) {
+        console.error('Confirm subscription error:', error);
+        return res.status(500).send(renderMessagePage('Something went wrong', 'Please try again later.'));
+    }
+}
+
+/**
+ * Show the unsubscribe confirmation page for an emailed unsubscribe link.
+ * GET never deletes anything so link scanners cannot unsubscribe people.
+ */
+export async function showUnsubscribe(req: Request, res: Response) {
+    try {
+        const id = verifyToken(req.params.token, 'unsubscribe');
+        if (!id) {
+            return res.status(400).send(renderMessagePage('Invalid link', 'This unsubscribe link is invalid or has expired.'));
+        }
+
+        const subscription = await Subscription.findById(id);
+        if (!subscription) {
+            return res.send(renderMessagePage('Unsubscribed', 'You are not subscribed to this product anymore.'));
+        }
+
+        return res.send(renderUnsubscribePage(req.originalUrl, subscription.product.name));
+    } catch (error) {
+        console.error('Show unsubscribe error:', error);
+        return res.status(500).send(renderMessagePage('Something went wrong', 'Please try again later.'));
+    }
+}
+
+/**
+ * Delete the subscription an unsubscribe link points to. Handles both the
+ * form on the unsubscribe page and RFC 8058 one-click POSTs from mail
+ * clients (body `List-Unsubscribe=One-Click`). Idempotent.
+ */
+export async function unsubscribe(req: Request, res: Response) {
+    try {
+        const id = verifyToken(req.params.token, 'unsubscribe');
+        if (!id) {
+            return res.status(400).send(renderMessagePage('Invalid link', 'This unsubscribe link is invalid or has expired.'));
+        }
+
+        const deleted = await Subscription.findByIdAndDelete(id);
+        if (deleted) {
+            console.log(`✓ Subscription ${id} unsubscribed by ${deleted.email}`);
+        }
+
+        return res.send(renderMessagePage('Unsubscribed', 'You will not receive price alerts for this product anymore.'));
+    } catch (error) {
+        console.error('Unsubscribe error:', error);
+        return res.status(500).send(renderMessagePage('Something went wrong', 'Please try again later.'));
+    }
+}
+
 export async function getAllSubscriptions(req: Request, res: Response) {
     try {
         const subscriptions = await Subscription.find({}).sort({ createdAt: -1 });
@@ -0,0 +1,171 @@
+import { Request, Response, NextFunction } from 'express';
+import { validationResult } from 'express-validator';
+import { ISubscriber } from '../models/Subscriber.model';
+import {
+    findOrCreateSubscriber,
+    markSubscriberVerified,
+    getWatchlist,
+    countWatchlist,
+    addToWatchlist,
+    removeFromWatchlist,
+    updateSubscriber,
+    watchlistToCsv,
+    WatchlistProductInput,
+} from '../services/subscriber.service';
+import { verifyToken } from '../tokens';
+
+/** What the watchlist API returns about a subscriber */
+function subscriberJson(subscriber: ISubscriber) {
+    return {
+        email: subscriber.email,
+        verified: subscriber.verified,
+        locale: subscriber.locale,
+        timezone: subscriber.timezone,
+        quietHours: subscriber.quietHours ?? null,
+        preferences: { defaultAlert: subscriber.preferences?.defaultAlert ?? null },
+    };
+}
+
+/**
+ * Middleware for /manage/:token/watchlist routes: verifies the magic-link
+ * token (which proves the address) and exposes the subscriber as
+ * `res.locals.subscriber`. Answers JSON, unlike requireManageToken.
+ */
+export async function requireWatchlistOwner(req: Request, res: Response, next: NextFunction) {
+    const email = verifyToken(req.params.token, 'manage');
+    if (!email) {
+        return res.status(401).json({ ok: false, error: 'invalid_or_expired_token' });
+    }
+
+    try {
+        const subscriber = await findOrCreateSubscriber(email);
+        await markSubscriberVerified(subscriber);
+        res.locals.subscriber = subscriber;
+        next();
+    } catch (error) {
+        console.error('Watchlist auth error:', error);
+        return res.status(500).json({ ok: false, error: 'server_error' });
+    }
+}
+
+/**
+ * The subscriber's preferences and every product on their watchlist, newest
+ * first, with the latest price and stock state.
+ */
+export async function listWatchlist(req: Request, res: Response) {
+    try {
+        const subscriber = res.locals.subscriber as ISubscriber;
+        const items = await getWatchlist(String(subscriber._id));
+        return res.json({ ok: true, subscriber: subscriberJson(subscriber), count: items.length, items });
+    } catch (error) {
+        console.error('List watchlist error:', error);
+        return res.status(500).json({ ok: false, error: 'server_error' });
+    }
+}
+
+/**
+ * Add up to MAX_WATCHLIST_BULK products (`products: [{ name, price, url, image? }]`)
+ * with the subscriber's default alert rules. Active right away: the magic
+ * link already proved the address.
+ */
+export async function addWatchlistItems(req: Request, res: Response) {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+        return res.status(400).json({ ok: false, errors: errors.array() });
+    }
+
+    try {
+        const subscriber = res.locals.subscriber as ISubscriber;
+        const results = await addToWatchlist(subscriber, req.body.products as WatchlistProductInput[]);
+        const added = results.filter((result) => result.status === 'added').length;
+        return res.status(added > 0 ? 201 : 200).json({ ok: true, added, results });
+    } catch (error) {
+        console.error('Add to watchlist error:', error);
+        return res.status(500).json({ ok: false, error: 'server_error' });
+    }
+}
+
+/**
+ * Remove products from the watchlist by subscription id (`ids: [...]`).
+ */
+export async function removeWatchlistItems(req: Request, res: Response) {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+        return res.status(400).json({ ok: false, errors: errors.array() });
+    }
+
+    try {
+        const subscriber = res.locals.subscriber as ISubscriber;
+        const removed = await removeFromWatchlist(subscriber, req.body.ids as string[]);
+        return res.json({ ok: true, removed });
+    } catch (error) {
+        console.error('Remove from watchlist error:', error);
+        return res.status(500).json({ ok: false, error: 'server_error' });
+    }
+}
+
+/**
+ * Download the watchlist (`?format=csv`, the default, or `json`).
+ */
+export async function exportWatchlist(req: Request, res: Response) {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+        return res.status(400).json({ ok: false, errors: errors.array() });
+    }
+
+    try {
+        const subscriber = res.locals.subscriber as ISubscriber;
+        const items = await getWatchlist(String(subscriber._id));
+        const date = new Date().toISOString().slice(0, 10);
+
+        if (req.query.format === 'json') {
+            res.attachment(`watchlist-${date}.json`);
+            return res.type('json').send(JSON.stringify({ subscriber: subscriberJson(subscriber), exportedAt: new Date(), items }, null, 2));
+        }
+        res.attachment(`watchlist-${date}.csv`);
+        return res.type('text/csv').send(watchlistToCsv(items));
+    } catch (error) {
+        console.error('Export watchlist error:', error);
+        return res.status(500).json({ ok: false, error: 'server_error' });
+    }
+}
+
+/**
+ * Update the subscriber's `locale`, `timezone`, `quietHours` (`{ start, end }`
+ * or null) and `defaultAlert` (alert rules or null). Omitted fields are kept.
+ */
+export async function updateWatchlistPreferences(req: Request, res: Response) {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+        return res.status(400).json({ ok: false, errors: errors.array() });
+    }
+
+    try {
+        const { locale, timezone, quietHours, defaultAlert } = req.body;
+        const subscriber = await updateSubscriber(res.locals.subscriber as ISubscriber, { locale, timezone, quietHours, defaultAlert });
+        return res.json({ ok: true, subscriber: subscriberJson(subscriber) });
+    } catch (error) {
+        console.error('Update watchlist preferences error:', error);
+        return res.status(500).json({ ok: false, error: 'server_error' });
+    }
+}
+
+/**
+ * Number of products watched, for the widget. Authenticated with the
+ * `Authorization: Bearer <watchlist token>` the widget picked up from the
+ * confirmation page's link; the token reveals nothing else.
+ */
+export async function getWatchlistSummary(req: Request, res: Response) {
+    const header = req.get('authorization') ?? '';
+    const subscriberId = /^bearer\s+/i.test(header) ? verifyToken(header.replace(/^bearer\s+/i, '').trim(), 'watchlist') : null;
+    if (!subscriberId) {
+        return res.status(401).json({ ok: false, error: 'unauthorized' });
+    }
+
+    try {
+        return res.json({ ok: true, watching: await countWatchlist(subscriberId) });
+    } catch (error) {
+        console.error('Watchlist summary error:', error);
+        return res.status(500).json({ ok: false, error: 'server_error' });
+    }
+}
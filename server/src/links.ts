@@ -0,0 +1,42 @@
+/**
+ * Builders for the signed links we put in emails.
+ * Keeping them in one place ensures routes and emails agree on URL shapes.
+ */
+import { PUBLIC_URL, CONFIRMATION_TTL_MS, UNSUBSCRIBE_LINK_TTL_MS, MANAGE_LINK_TTL_MS, WATCHLIST_TOKEN_TTL_MS } from './config/constants';
+import { signToken } from './tokens';
+
+/** Link activating a pending subscription (GET /subscriptions/confirm/:token) */
+export function confirmUrl(subscriptionId: string): string {
+    return `${PUBLIC_URL}/subscriptions/confirm/${signToken('confirm', subscriptionId, CONFIRMATION_TTL_MS)}`;
+}
+
+/** One-click unsubscribe link for a single subscription (GET/POST /unsubscribe/:token) */
+export function unsubscribeUrl(subscriptionId: string): string {
+    return `${PUBLIC_URL}/unsubscribe/${signToken('unsubscribe', subscriptionId, UNSUBSCRIBE_LINK_TTL_MS)}`;
+}
+
+/** Magic link to the self-service page listing all subscriptions of an email */
+export function manageUrl(email: string): string {
+    return `${PUBLIC_URL}/manage/${signToken('manage', email, MANAGE_LINK_TTL_MS)}`;
+}
+
+/**
+ * Product page link carrying a watchlist token in the fragment, which the
+ * widget stores to show how many products the subscriber watches. The
+ * fragment never reaches the shop's server. Null when the product URL
+ * can't be parsed.
+ */
+export function widgetIdentityUrl(productUrl: string, subscriberId: string): string | null {
+    try {
+        const url = new URL(productUrl);
+        url.hash = `pdn-watchlist=${signToken('watchlist', subscriberId, WATCHLIST_TOKEN_TTL_MS)}`;
+        return url.href;
+    } catch {
+        return null;
+    }
+}
+
+/** Page where subscribers request a magic link (no token required) */
+export function manageLoginUrl(): string {
+    return `${PUBLIC_URL}/manage`;
+}
@@ -0,0 +1,66 @@
+/**
+ * Express middleware protecting admin endpoints.
+ *
+ * Credentials are read from `Authorization: Bearer <key or session token>` or
+ * `X-API-Key: <key>`. The authenticated key is stored on `res.locals.adminKey`.
+ */
+import { Request, Response, NextFunction } from 'express';
+import { AdminRole } from '../models/AdminKey.model';
+import { authenticateCredential, hasRole, recordAudit } from '../services/adminAuth.service';
+
+function readCredential(req: Request): string | null {
+    const header = req.get('authorization');
+    if (header && /^bearer\s+/i.test(header)) {
+        return header.replace(/^bearer\s+/i, '').trim() || null;
+    }
+    return req.get('x-api-key')?.trim() || null;
+}
+
+/**
+ * Require an active admin key (or session) with at least the given role.
+ * Responds 401 without valid credentials and 403 when the role is too low.
+ */
+export function requireAdmin(role: AdminRole = 'admin') {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        const credential = readCredential(req);
+        if (!credential) {
+            return res.status(401).json({ ok: false, error: 'unauthorized' });
+        }
+
+        try {
+            const key = await authenticateCredential(credential);
+            if (!key) {
+                return res.status(401).json({ ok: false, error: 'unauthorized' });
+            }
+            if (!hasRole(key.role, role)) {
+                return res.status(403).json({ ok: false, error: 'forbidden' });
+            }
+
+            res.locals.adminKey = key;
+            next();
+        } catch (error) {
+            console.error('Admin auth error:', error);
+            return res.status(500).json({ ok: false, error: 'server_error' });
+        }
+    };
+}
+
+/**
+ * Record the request in the audit log once the response has been sent.
+ * Place after requireAdmin so the acting key is known.
+ */
+export function auditAdminAction(action: string) {
+    return (req: Request, res: Response, next: NextFunction) => {
+        res.on('finish', () => {
+            void recordAudit({
+                action,
+                key: res.locals.adminKey,
+                method: req.method,
+                path: req.originalUrl,
+                ip: req.ip,
+                statusCode: res.statusCode,
+            });
+        });
+        next();
+    };
+}
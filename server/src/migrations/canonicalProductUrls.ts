@@ -0,0 +1,90 @@
+/**
+ * Migration: re-key products by canonical URL and merge duplicates.
+ *
+ * Products created before Amazon ASINs, eBay item ids and affiliate
+ * parameters were canonicalized may be several documents for one item.
+ * Each product is moved to its canonical URL (with its price history); when
+ * a product already exists there, the two are merged. Afterwards an email
+ * keeps a single subscription per product, so the unique
+ * `{ email, productId }` index can be built.
+ * Idempotent: canonical products and unique subscriptions are left alone.
+ */
+import { Subscription, ISubscription } from '../models/Subscription.model';
+import { Product, IProduct } from '../models/Product.model';
+import { PricePoint } from '../models/PriceHistory.model';
+import { normalizeProductUrl } from '../utils';
+
+/**
+ * Merge `source` into `target`: move subscriptions and price history, keep
+ * the most recent observation, then delete `source`.
+ */
+async function mergeProducts(source: IProduct, target: IProduct) {
+    await Subscription.updateMany({ productId: source._id }, { $set: { productId: target._id } });
+    await PricePoint.updateMany({ productUrl: source.url }, { $set: { productUrl: target.url } });
+
+    if (source.lastCheckedAt && (!target.lastCheckedAt || source.lastCheckedAt > target.lastCheckedAt)) {
+        target.lastPrice = source.lastPrice;
+        target.lastPriceChangeAt = source.lastPriceChangeAt;
+        target.lastCheckedAt = source.lastCheckedAt;
+        target.scrapeStatus = source.scrapeStatus;
+        target.availability = source.availability;
+        target.availabilityChangedAt = source.availabilityChangedAt;
+    }
+    target.currency ??= source.currency;
+    target.image ??= source.image;
+    await target.save();
+    await source.deleteOne();
+}
+
+/**
+ * Which of an email's subscriptions to one product to keep: the first
+ * confirmed one, else the oldest.
+ */
+function pickSubscriptionToKeep(subscriptions: ISubscription[]): ISubscription {
+    return subscriptions.find((sub) => sub.status !== 'pending') ?? subscriptions[0];
+}
+
+/**
+ * Run the migration.
+ * @returns Number of products re-keyed or merged
+ */
+export async function migrateCanonicalProductUrls(): Promise<number> {
+    let changed = 0;
+
+    for await (const product of Product.find().cursor()) {
+        const url = normalizeProductUrl(product.url);
+        if (url === product.url) continue;
+
+        const target = await Product.findOne({ url });
+        if (target) {
+            await mergeProducts(product, target);
+        } else {
+            await PricePoint.updateMany({ productUrl: product.url }, { $set: { productUrl: url } });
+            product.url = url;
+            await product.save();
+        }
+        changed++;
+    }
+
+    // Several subscriptions of one email may now point at the same product
+    const duplicates = await Subscription.aggregate<{ ids: ISubscription['_id'][] }>([
+        { $sort: { createdAt: 1 } },
+        { $group: { _id: { email: '$email', productId: '$productId' }, ids: { $push: '$_id' }, count: { $sum: 1 } } },
+        { $match: { count: { $gt: 1 } } },
+    ]);
+    let removed = 0;
+    for (const group of duplicates) {
+        const subscriptions = await Subscription.find({ _id: { $in: group.ids } }).sort({ createdAt: 1 });
+        const keep = pickSubscriptionToKeep(subscriptions);
+        const result = await Subscription.deleteMany({ _id: { $in: group.ids.filter((id) => String(id) !== String(keep._id)) } });
+        removed += result.deletedCount;
+    }
+
+    // Replace the non-unique index from older versions with the unique one
+    await Subscription.syncIndexes();
+
+    if (changed > 0 || removed > 0) {
+        console.log(`✓ Canonicalized ${changed} product URLs, removed ${removed} duplicate subscriptions`);
+    }
+    return changed;
+}
@@ -0,0 +1,31 @@
+/**
+ * Data migrations, in the order they must run. Each one is idempotent, so
+ * they run on every startup (and with `npm run migrate`).
+ */
+import { migrateSubscriptionStatus } from './subscriptionStatus';
+import { migrateProductCollection } from './productCollection';
+import { migrateCanonicalProductUrls } from './canonicalProductUrls';
+import { migrateJobIndexes } from './jobIndexes';
+import { migrateNotificationChannels } from './notificationChannels';
+import { migrateSubscribers } from './subscribers';
+
+const migrations: [string, () => Promise<number>][] = [
+    ['Subscription status', migrateSubscriptionStatus],
+    ['Product collection', migrateProductCollection],
+    ['Canonical product URLs', migrateCanonicalProductUrls],
+    ['Job indexes', migrateJobIndexes],
+    ['Notification channels', migrateNotificationChannels],
+    ['Subscribers', migrateSubscribers],
+];
+
+/**
+ * Run every migration in order.
+ * @returns Number of records changed by each migration, by name
+ */
+export async function runMigrations(): Promise<Record<string, number>> {
+    const results: Record<string, number> = {};
+    for (const [name, migrate] of migrations) {
+        results[name] = await migrate();
+    }
+    return results;
+}
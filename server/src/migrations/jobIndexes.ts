@@ -0,0 +1,23 @@
+/**
+ * Migration: rebuild the Job indexes.
+ *
+ * The unique "one queued job per product" index of older versions covered
+ * every job type; notification delivery jobs carry no product, so it now only
+ * covers `check-product` jobs. MongoDB can't change the filter of an
+ * existing index, so the old one is dropped and rebuilt.
+ * Idempotent: nothing is dropped once the indexes match the schema.
+ */
+import { Job } from '../models/Job.model';
+
+/**
+ * Run the migration.
+ * @returns Number of outdated indexes dropped
+ */
+export async function migrateJobIndexes(): Promise<number> {
+    const dropped = await Job.syncIndexes();
+
+    if (dropped.length > 0) {
+        console.log(`✓ Rebuilt job indexes (${dropped.join(', ')})`);
+    }
+    return dropped.length;
+}
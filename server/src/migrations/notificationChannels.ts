@@ -0,0 +1,88 @@
+/**
+ * Migration: move webhook subscriptions and deliveries to notification
+ * channels.
+ *
+ * Before the channel dispatcher, a subscription could carry a single
+ * `webhook: { url, secret }` replacing its emails, and webhook deliveries
+ * were stored in `webhookdeliveries` and sent by `deliver-webhook` jobs.
+ * This turns each webhook into a `webhook` channel, copies the deliveries
+ * into the Notification collection (same ids, so queued jobs still find
+ * them) and retypes their jobs.
+ * Idempotent: migrated documents no longer match the legacy shapes.
+ */
+import mongoose from 'mongoose';
+import { Subscription } from '../models/Subscription.model';
+import { Notification } from '../models/Notification.model';
+import { Job } from '../models/Job.model';
+
+/** Raw shape of a webhook delivery before the migration */
+interface LegacyWebhookDelivery {
+    _id: mongoose.Types.ObjectId;
+    subscriptionId: mongoose.Types.ObjectId;
+    productId: mongoose.Types.ObjectId;
+    event: string;
+    url: string;
+    /** Version 1 webhook payload */
+    payload: Record<string, unknown>;
+    status: string;
+    attempts: unknown[];
+    deliveredAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+/**
+ * Run the migration.
+ * @returns Number of subscriptions, deliveries and jobs migrated
+ */
+export async function migrateNotificationChannels(): Promise<number> {
+    // Raw collection access: `webhook` is no longer in the schema
+    const subscriptions = await Subscription.collection.updateMany(
+        { webhook: { $exists: true } },
+        [
+            { $set: { channels: [{ type: 'webhook', address: '$webhook.url', secret: '$webhook.secret' }] } },
+            { $unset: 'webhook' },
+        ],
+    );
+
+    let deliveries = 0;
+    const legacy = mongoose.connection.db?.collection<LegacyWebhookDelivery>('webhookdeliveries');
+    if (legacy) {
+        for await (const delivery of legacy.find()) {
+            const { version: _version, ...content } = delivery.payload;
+            const locale = await Subscription.findById(delivery.subscriptionId).select('locale');
+            await Notification.collection.updateOne(
+                { _id: delivery._id },
+                {
+                    $setOnInsert: {
+                        subscriptionId: delivery.subscriptionId,
+                        productId: delivery.productId,
+                        channel: 'webhook',
+                        address: delivery.url,
+                        event: delivery.event,
+                        content: { ...content, locale: locale?.locale ?? 'en' },
+                        status: delivery.status,
+                        attempts: delivery.attempts,
+                        deliveredAt: delivery.deliveredAt,
+                        createdAt: delivery.createdAt,
+                        updatedAt: delivery.updatedAt,
+                    },
+                },
+                { upsert: true },
+            );
+            await legacy.deleteOne({ _id: delivery._id });
+            deliveries++;
+        }
+    }
+
+    const jobs = await Job.collection.updateMany(
+        { type: 'deliver-webhook' },
+        { $set: { type: 'deliver-notification' }, $rename: { deliveryId: 'notificationId' } },
+    );
+
+    const migrated = subscriptions.modifiedCount + deliveries + jobs.modifiedCount;
+    if (migrated > 0) {
+        console.log(`✓ Moved ${subscriptions.modifiedCount} webhook subscriptions, ${deliveries} deliveries and ${jobs.modifiedCount} jobs to notification channels`);
+    }
+    return migrated;
+}
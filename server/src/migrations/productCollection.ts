@@ -0,0 +1,71 @@
+/**
+ * Migration: move embedded product data into the shared Product collection.
+ *
+ * Subscriptions created before the Product collection existed carry the
+ * latest price in `product.lastSeenPrice` and the last check time in
+ * `lastCheckedAt`. For each of them this creates (or reuses) the Product
+ * for the canonical URL, keeps the most recent observation on it, links the
+ * subscription through `productId` and removes the obsolete fields.
+ * Idempotent: migrated subscriptions are skipped.
+ */
+import mongoose from 'mongoose';
+import { Subscription } from '../models/Subscription.model';
+import { Product } from '../models/Product.model';
+import { normalizeProductUrl } from '../utils';
+
+/** Raw shape of a subscription before the migration */
+interface LegacySubscription {
+    _id: mongoose.Types.ObjectId;
+    product: {
+        name: string;
+        url: string;
+        image?: string;
+        currency?: string;
+        lastSeenPrice?: number;
+    };
+    lastCheckedAt?: Date;
+}
+
+/**
+ * Run the migration.
+ * @returns Number of subscriptions migrated
+ */
+export async function migrateProductCollection(): Promise<number> {
+    // Raw collection access: the fields being migrated are no longer in the schema
+    const legacy = Subscription.collection.find<LegacySubscription>({ productId: { $exists: false } });
+
+    let migrated = 0;
+    for await (const sub of legacy) {
+        const url = normalizeProductUrl(sub.product.url);
+        const product = await Product.findOneAndUpdate(
+            { url },
+            { $setOnInsert: { url, name: sub.product.name } },
+            { upsert: true, new: true },
+        );
+
+        // Keep the most recent observation among all subscriptions of the product
+        const isNewer = sub.lastCheckedAt && (!product.lastCheckedAt || sub.lastCheckedAt > product.lastCheckedAt);
+        if (sub.product.lastSeenPrice != null && (product.lastPrice == null || isNewer)) {
+            product.lastPrice = sub.product.lastSeenPrice;
+            product.lastCheckedAt = sub.lastCheckedAt ?? product.lastCheckedAt;
+            if (sub.lastCheckedAt) product.scrapeStatus = 'ok';
+        }
+        product.currency ??= sub.product.currency;
+        product.image ??= sub.product.image;
+        await product.save();
+
+        await Subscription.collection.updateOne(
+            { _id: sub._id },
+            {
+                $set: { productId: product._id },
+                $unset: { 'product.lastSeenPrice': '', lastCheckedAt: '' },
+            },
+        );
+        migrated++;
+    }
+
+    if (migrated > 0) {
+        console.log(`✓ Migrated ${migrated} subscriptions to the Product collection`);
+    }
+    return migrated;
+}
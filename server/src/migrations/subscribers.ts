@@ -0,0 +1,53 @@
+/**
+ * Migration: give every email address a Subscriber owning its subscriptions.
+ *
+ * Subscriptions made before subscribers existed are isolated (email,
+ * product) rows. For each address with such subscriptions, this creates
+ * its Subscriber (in the language of its latest subscription, verified
+ * when one of them was confirmed) and sets `subscriberId` on them.
+ * Idempotent: only subscriptions without `subscriberId` are looked at.
+ */
+import { Subscription } from '../models/Subscription.model';
+import { Subscriber } from '../models/Subscriber.model';
+
+/**
+ * Run the migration.
+ * @returns Number of subscriptions attached to a subscriber
+ */
+export async function migrateSubscribers(): Promise<number> {
+    const emails = await Subscription.aggregate<{ _id: string; locale?: string; confirmed: boolean; confirmedAt?: Date }>([
+        { $match: { subscriberId: { $exists: false } } },
+        { $sort: { createdAt: 1 } },
+        {
+            $group: {
+                _id: '$email',
+                locale: { $last: '$locale' },
+                // Documents from before double opt-in have no status and count as confirmed
+                confirmed: { $max: { $ne: ['$status', 'pending'] } },
+                confirmedAt: { $min: '$confirmedAt' },
+            },
+        },
+    ]);
+
+    let attached = 0;
+    for (const { _id: email, locale, confirmed, confirmedAt } of emails) {
+        const subscriber = await Subscriber.findOneAndUpdate(
+            { email },
+            { $setOnInsert: { email, ...(locale ? { locale } : {}) } },
+            { upsert: true, new: true },
+        );
+        if (confirmed && !subscriber.verified) {
+            subscriber.verified = true;
+            subscriber.verifiedAt = confirmedAt ?? new Date();
+            await subscriber.save();
+        }
+
+        const result = await Subscription.updateMany(
+            { email, subscriberId: { $exists: false } },
+            { $set: { subscriberId: subscriber._id } },
+        );
+        attached += result.modifiedCount;
+    }
+
+    return attached;
+}
@@ -0,0 +1,22 @@
+/**
+ * Migration: give subscriptions from before double opt-in a status.
+ *
+ * Subscriptions created before email confirmation existed have no `status`
+ * and were always treated as active. Storing `active` keeps them from being
+ * mistaken for unconfirmed ones, which the TTL index on `pending`
+ * subscriptions would delete at once.
+ * Idempotent: only subscriptions without a status are changed.
+ */
+import { Subscription } from '../models/Subscription.model';
+
+/**
+ * Run the migration.
+ * @returns Number of subscriptions marked active
+ */
+export async function migrateSubscriptionStatus(): Promise<number> {
+    const result = await Subscription.updateMany(
+        { status: { $exists: false } },
+        { $set: { status: 'active' } },
+    );
+    return result.modifiedCount;
+}
@@ -0,0 +1,58 @@
+/**
+ * Mongoose model for admin API keys.
+ * Only a SHA-256 hash of each key is stored; the plaintext key is shown
+ * once when it is created. The short `prefix` identifies a key in listings
+ * and audit logs without revealing it.
+ */
+import mongoose, { Schema, Document } from 'mongoose';
+
+/** `viewer` can read admin data, `admin` can also change it */
+export type AdminRole = 'viewer' | 'admin';
+
+export interface IAdminKey extends Document {
+    name: string;
+    prefix: string;
+    keyHash: string;
+    role: AdminRole;
+    lastUsedAt?: Date;
+    revokedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const AdminKeySchema = new Schema<IAdminKey>({
+    name: {
+        type: String,
+        required: true,
+        trim: true,
+    },
+    prefix: {
+        type: String,
+        required: true,
+    },
+    keyHash: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    role: {
+        type: String,
+        enum: ['viewer', 'admin'],
+        default: 'admin',
+    },
+    lastUsedAt: {
+        type: Date,
+        required: false,
+    },
+    revokedAt: {
+        type: Date,
+        required: false,
+    },
+}, {
+    timestamps: true,
+});
+
+/**
+ * Export the model for use in controllers and services.
+ */
+export const AdminKey = mongoose.model<IAdminKey>('AdminKey', AdminKeySchema);
@@ -0,0 +1,58 @@
+/**
+ * Mongoose model for the admin audit log.
+ * One entry per admin request, written after the response is sent so the
+ * outcome (status code) is recorded along with who did what.
+ */
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IAuditLog extends Document {
+    action: string;
+    actorKeyId?: mongoose.Types.ObjectId;
+    actorName?: string;
+    method: string;
+    path: string;
+    ip?: string;
+    statusCode: number;
+    createdAt: Date;
+}
+
+const AuditLogSchema = new Schema<IAuditLog>({
+    action: {
+        type: String,
+        required: true,
+    },
+    actorKeyId: {
+        type: Schema.Types.ObjectId,
+        ref: 'AdminKey',
+        required: false,
+    },
+    actorName: {
+        type: String,
+        required: false,
+    },
+    method: {
+        type: String,
+        required: true,
+    },
+    path: {
+        type: String,
+        required: true,
+    },
+    ip: {
+        type: String,
+        required: false,
+    },
+    statusCode: {
+        type: Number,
+        required: true,
+    },
+}, {
+    timestamps: { createdAt: true, updatedAt: false },
+});
+
+AuditLogSchema.index({ createdAt: -1 });
+
+/**
+ * Export the model for use in controllers and services.
+ */
+export const AuditLog = mongoose.model<IAuditLog>('AuditLog', AuditLogSchema);
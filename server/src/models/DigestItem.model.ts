@@ -0,0 +1,97 @@
+/**
+ * Mongoose model for price drops waiting for a digest email.
+ * Subscriptions with `alert.digest` don't notify each drop: the notifier
+ * keeps one item per subscription (later drops update its new price, the
+ * old price stays the one the first drop started from) and a `send-digest`
+ * job claims every item of the subscriber's address for one digest
+ * notification, dispatches it, then deletes them (see
+ * services/digest.service.ts).
+ */
+import mongoose, { Schema, Document } from 'mongoose';
+import type { DigestFrequency } from '../types';
+
+export interface IDigestItem extends Document {
+    /** Subscriber address the digest goes to */
+    email: string;
+    frequency: DigestFrequency;
+    subscriptionId: mongoose.Types.ObjectId;
+    productId: mongoose.Types.ObjectId;
+    product: {
+        name: string;
+        url: string;
+        image?: string;
+    };
+    /** Language of the subscription, used for the digest email */
+    locale: string;
+    oldPrice: number;
+    newPrice: number;
+    currency: string | null;
+    /** Digest notification the item was claimed for; unset by a newer drop */
+    notificationId?: mongoose.Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const DigestItemSchema = new Schema<IDigestItem>({
+    email: {
+        type: String,
+        required: true,
+    },
+    frequency: {
+        type: String,
+        enum: ['daily', 'weekly'],
+        required: true,
+    },
+    subscriptionId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Subscription',
+        required: true,
+    },
+    productId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Product',
+        required: true,
+    },
+    product: {
+        name: { type: String, required: true },
+        url: { type: String, required: true },
+        image: { type: String, required: false },
+    },
+    locale: {
+        type: String,
+        required: true,
+    },
+    oldPrice: {
+        type: Number,
+        required: true,
+    },
+    newPrice: {
+        type: Number,
+        required: true,
+    },
+    currency: {
+        type: String,
+        default: null,
+    },
+    notificationId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Notification',
+        required: false,
+    },
+}, {
+    timestamps: true,
+});
+
+// One pending drop per subscription
+DigestItemSchema.index({ subscriptionId: 1 }, { unique: true });
+
+// Digest jobs load the items of one address and frequency
+DigestItemSchema.index({ email: 1, frequency: 1, createdAt: 1 });
+
+// Items claimed by a digest are deleted once it is dispatched
+DigestItemSchema.index({ notificationId: 1 }, { sparse: true });
+
+/**
+ * Export the model for use in controllers and services.
+ */
+export const DigestItem = mongoose.model<IDigestItem>('DigestItem', DigestItemSchema);
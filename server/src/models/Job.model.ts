@@ -0,0 +1,143 @@
+/**
+ * Mongoose model for background jobs.
+ * The notifier enqueues one `check-product` job per product that is due for
+ * a price check, one `deliver-notification` job per notification and
+ * channel, and one `send-digest` job per subscriber address and digest
+ * frequency with price drops waiting; workers (see services/worker.service.ts) claim jobs with a lock,
+ * run them, and reschedule failed ones with exponential backoff.
+ */
+import mongoose, { Schema, Document } from 'mongoose';
+import { JOB_RETENTION_MS } from '../config/constants';
+import type { DigestFrequency } from '../types';
+
+export type JobType = 'check-product' | 'deliver-notification' | 'send-digest';
+
+/**
+ * `queued` until a worker claims it (also while waiting for a retry),
+ * `running` while locked by a worker, then `completed`, or `failed` once
+ * every attempt failed.
+ */
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface IJob extends Document {
+    type: JobType;
+    /** Product to check (`check-product` jobs) */
+    productId?: mongoose.Types.ObjectId;
+    /** Notification to deliver (`deliver-notification` jobs) */
+    notificationId?: mongoose.Types.ObjectId;
+    /** Subscriber address and frequency of the digest to send (`send-digest` jobs) */
+    email?: string;
+    digest?: DigestFrequency;
+    /** Hostname of the product, for per-domain check budgets */
+    domain?: string;
+    status: JobStatus;
+    /** Attempts started so far, including the running one */
+    attempts: number;
+    maxAttempts: number;
+    /** Earliest time a worker may (re)run the job */
+    runAt: Date;
+    /** Worker holding the lock, and when the lock expires */
+    lockedBy?: string;
+    lockedUntil?: Date;
+    lastError?: string;
+    result?: Record<string, unknown>;
+    finishedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const JobSchema = new Schema<IJob>({
+    type: {
+        type: String,
+        enum: ['check-product', 'deliver-notification', 'send-digest'],
+        required: true,
+    },
+    productId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Product',
+        required: function (this: IJob) { return this.type === 'check-product'; },
+    },
+    notificationId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Notification',
+        required: function (this: IJob) { return this.type === 'deliver-notification'; },
+    },
+    email: {
+        type: String,
+        required: function (this: IJob) { return this.type === 'send-digest'; },
+    },
+    digest: {
+        type: String,
+        enum: ['daily', 'weekly'],
+        required: function (this: IJob) { return this.type === 'send-digest'; },
+    },
+    domain: {
+        type: String,
+        required: false,
+    },
+    status: {
+        type: String,
+        enum: ['queued', 'running', 'completed', 'failed'],
+        default: 'queued',
+    },
+    attempts: {
+        type: Number,
+        default: 0,
+    },
+    maxAttempts: {
+        type: Number,
+        required: true,
+    },
+    runAt: {
+        type: Date,
+        default: Date.now,
+    },
+    lockedBy: {
+        type: String,
+        required: false,
+    },
+    lockedUntil: {
+        type: Date,
+        required: false,
+    },
+    lastError: {
+        type: String,
+        required: false,
+    },
+    result: {
+        type: Schema.Types.Mixed,
+        required: false,
+    },
+    finishedAt: {
+        type: Date,
+        required: false,
+    },
+}, {
+    timestamps: true,
+});
+
+// Workers claim the oldest due job
+JobSchema.index({ status: 1, runAt: 1 });
+
+// Checks queued per domain during the last hour (domain budgets)
+JobSchema.index({ domain: 1, createdAt: 1 });
+
+// At most one queued check per product, even when several schedulers enqueue at once
+JobSchema.index(
+    { type: 1, productId: 1 },
+    { unique: true, partialFilterExpression: { status: 'queued', type: 'check-product' } }
+);
+
+// At most one queued digest per address and frequency
+JobSchema.index(
+    { type: 1, email: 1, digest: 1 },
+    { unique: true, partialFilterExpression: { status: 'queued', type: 'send-digest' } }
+);
+
+// Finished jobs are kept for a while for inspection, then removed by MongoDB
+JobSchema.index({ finishedAt: 1 }, { expireAfterSeconds: JOB_RETENTION_MS / 1000 });
+
+/**
+ * Export the model for use in controllers and services.
+ */
+export const Job = mongoose.model<IJob>('Job', JobSchema);
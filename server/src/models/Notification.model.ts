@@ -0,0 +1,156 @@
+/**
+ * Mongoose model for notifications.
+ * One document per notification and channel: when a price drop reaches a
+ * subscription with an email address and a Slack channel, two
+ * notifications are stored, each with the channel-neutral content and
+ * every attempt to deliver it (status code or error, duration). A
+ * `deliver-notification` job (see services/dispatcher.service.ts) makes the
+ * attempts and retries with backoff until the channel accepts it or
+ * NOTIFICATION_MAX_ATTEMPTS is reached. Digest emails are notifications
+ * too (`digest` event, email channel), without a subscription or product of
+ * their own since they list several. Admins can resend failed or
+ * delivered notifications, which queues a new round of attempts.
+ * Notifications are removed after NOTIFICATION_RETENTION_MS.
+ */
+import mongoose, { Schema, Document } from 'mongoose';
+import { NOTIFICATION_RETENTION_MS } from '../config/constants';
+import type { ChannelType, DigestContent, NotificationContent, NotificationEvent } from '../channels';
+
+/**
+ * `pending` until the channel accepts the notification (`delivered`), or
+ * `failed` once every attempt failed.
+ */
+export type NotificationStatus = 'pending' | 'delivered' | 'failed';
+
+export interface IDeliveryAttempt {
+    at: Date;
+    /** HTTP status of the endpoint's answer, when there was one */
+    statusCode?: number;
+    /** Why the attempt failed */
+    error?: string;
+    /** Where a sent email ended up (preview URL, .eml path or message id) */
+    reference?: string;
+    durationMs: number;
+}
+
+export interface INotification extends Document {
+    /** Missing for digests */
+    subscriptionId?: mongoose.Types.ObjectId;
+    /** Missing for digests */
+    productId?: mongoose.Types.ObjectId;
+    channel: ChannelType;
+    /** Email address, URL or chat id the notification goes to */
+    address: string;
+    event: NotificationEvent;
+    /** What to send, formatted by the channel on every attempt */
+    content: NotificationContent | DigestContent;
+    status: NotificationStatus;
+    attempts: IDeliveryAttempt[];
+    /** Error of the last failed attempt */
+    lastError?: string;
+    /** Ethereal preview URL or outbox .eml path of the delivered email */
+    previewUrl?: string;
+    deliveredAt?: Date;
+    /** Times an admin resent the notification */
+    resendCount: number;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const DeliveryAttemptSchema = new Schema<IDeliveryAttempt>({
+    at: {
+        type: Date,
+        required: true,
+    },
+    statusCode: {
+        type: Number,
+        required: false,
+    },
+    error: {
+        type: String,
+        required: false,
+    },
+    reference: {
+        type: String,
+        required: false,
+    },
+    durationMs: {
+        type: Number,
+        required: true,
+    },
+}, { _id: false });
+
+const NotificationSchema = new Schema<INotification>({
+    subscriptionId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Subscription',
+        required: false,
+    },
+    productId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Product',
+        required: false,
+    },
+    channel: {
+        type: String,
+        enum: ['email', 'webhook', 'slack', 'discord', 'telegram'],
+        required: true,
+    },
+    address: {
+        type: String,
+        required: true,
+    },
+    event: {
+        type: String,
+        enum: ['price_drop', 'back_in_stock', 'delisted', 'digest'],
+        required: true,
+    },
+    content: {
+        type: Schema.Types.Mixed,
+        required: true,
+    },
+    status: {
+        type: String,
+        enum: ['pending', 'delivered', 'failed'],
+        default: 'pending',
+    },
+    attempts: {
+        type: [DeliveryAttemptSchema],
+        default: [],
+    },
+    lastError: {
+        type: String,
+        required: false,
+    },
+    previewUrl: {
+        type: String,
+        required: false,
+    },
+    deliveredAt: {
+        type: Date,
+        required: false,
+    },
+    resendCount: {
+        type: Number,
+        default: 0,
+    },
+}, {
+    timestamps: true,
+});
+
+// Notifications of a subscription, newest first
+NotificationSchema.index({ subscriptionId: 1, createdAt: -1 });
+
+// Admin listing by status and channel
+NotificationSchema.index({ status: 1, channel: 1, createdAt: -1 });
+
+// Admin listing of a product's notifications
+NotificationSchema.index({ productId: 1, createdAt: -1 });
+
+// Old notifications are removed by MongoDB
+NotificationSchema.index({ createdAt: 1 }, { expireAfterSeconds: NOTIFICATION_RETENTION_MS / 1000 });
+
+/**
+ * Export the model for use in controllers and services.
+ */
+export const Notification = mongoose.model<INotification>('Notification', NotificationSchema);
@@ -0,0 +1,43 @@
+/**
+ * Mongoose model for observed prices.
+ * Each document is a single price observation for a product, keyed by the
+ * normalized product URL so the time series is shared by every subscriber
+ * watching the same item.
+ */
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IPricePoint extends Document {
+    productUrl: string;
+    price: number;
+    currency?: string;
+    observedAt: Date;
+}
+
+const PricePointSchema = new Schema<IPricePoint>({
+    productUrl: {
+        type: String,
+        required: true,
+        trim: true,
+    },
+    price: {
+        type: Number,
+        required: true,
+    },
+    currency: {
+        type: String,
+        required: false,
+    },
+    observedAt: {
+        type: Date,
+        required: true,
+        default: Date.now,
+    },
+});
+
+// Range queries always filter by product and sort by time
+PricePointSchema.index({ productUrl: 1, observedAt: -1 });
+
+/**
+ * Export the model for use in controllers and services.
+ */
+export const PricePoint = mongoose.model<IPricePoint>('PricePoint', PricePointSchema);
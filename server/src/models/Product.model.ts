@@ -0,0 +1,144 @@
+/**
+ * Mongoose model for watched products.
+ * One document per canonical product URL, shared by every subscription
+ * watching it, so the notifier scrapes each product once per cycle and
+ * fans notifications out to its subscribers. Holds the latest observed
+ * price and stock state, and the outcome of the last scrape.
+ */
+import mongoose, { Schema, Document } from 'mongoose';
+import { ProductAvailability, ScrapeFailureReason } from '../types';
+
+/**
+ * Outcome of the last scrape: `pending` until the first check, `failed`
+ * when the page could not be read (see `lastFailureReason`), `delisted`
+ * once the shop kept answering "not found" and the subscriptions expired.
+ */
+export type ScrapeStatus = 'pending' | 'ok' | 'failed' | 'delisted';
+
+export interface IProduct extends Document {
+    /** Canonical URL (see normalizeProductUrl) */
+    url: string;
+    name: string;
+    image?: string;
+    currency?: string;
+    lastPrice?: number;
+    lastPriceChangeAt?: Date;
+    /** Stock state seen by the last check that could read one */
+    availability: ProductAvailability;
+    availabilityChangedAt?: Date;
+    lastCheckedAt?: Date;
+    /** When the scheduler should check the product next (missing: as soon as possible) */
+    nextCheckAt?: Date;
+    /** Successful checks so far */
+    checkCount: number;
+    /** Smoothed fraction of checks that saw a new price (0-1) */
+    changeRate: number;
+    scrapeStatus: ScrapeStatus;
+    /** Classified cause and details of the last failed check */
+    lastFailureReason?: ScrapeFailureReason;
+    lastError?: string;
+    consecutiveFailures: number;
+    /** Consecutive failures with `lastFailureReason` as cause */
+    failureStreak: number;
+    /** First failure of the current run of failed checks */
+    failingSince?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const ProductSchema = new Schema<IProduct>({
+    url: {
+        type: String,
+        required: true,
+        unique: true,
+        trim: true,
+    },
+    name: {
+        type: String,
+        required: true,
+        trim: true,
+    },
+    image: {
+        type: String,
+        required: false,
+        trim: true,
+    },
+    currency: {
+        type: String,
+        required: false,
+        uppercase: true,
+        trim: true,
+    },
+    lastPrice: {
+        type: Number,
+        required: false,
+    },
+    lastPriceChangeAt: {
+        type: Date,
+        required: false,
+    },
+    availability: {
+        type: String,
+        enum: ['in_stock', 'out_of_stock', 'preorder', 'limited', 'unknown'],
+        default: 'unknown',
+    },
+    availabilityChangedAt: {
+        type: Date,
+        required: false,
+    },
+    lastCheckedAt: {
+        type: Date,
+        required: false,
+    },
+    nextCheckAt: {
+        type: Date,
+        required: false,
+    },
+    checkCount: {
+        type: Number,
+        default: 0,
+    },
+    changeRate: {
+        type: Number,
+        default: 0,
+    },
+    scrapeStatus: {
+        type: String,
+        enum: ['pending', 'ok', 'failed', 'delisted'],
+        default: 'pending',
+    },
+    lastFailureReason: {
+        type: String,
+        enum: ['blocked', 'not_found', 'selector_miss', 'timeout', 'network_error', 'disallowed'],
+        required: false,
+    },
+    lastError: {
+        type: String,
+        required: false,
+    },
+    consecutiveFailures: {
+        type: Number,
+        default: 0,
+    },
+    failureStreak: {
+        type: Number,
+        default: 0,
+    },
+    failingSince: {
+        type: Date,
+        required: false,
+    },
+}, {
+    timestamps: true,
+});
+
+// The scheduler selects products that are due for a check
+ProductSchema.index({ nextCheckAt: 1 });
+
+// Admins list the products failing the longest
+ProductSchema.index({ consecutiveFailures: -1 });
+
+/**
+ * Export the model for use in controllers and services.
+ */
+export const Product = mongoose.model<IProduct>('Product', ProductSchema);
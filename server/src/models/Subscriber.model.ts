@@ -0,0 +1,139 @@
+/**
+ * Mongoose model for subscribers.
+ * One document per email address, owning every subscription of that address
+ * (its watchlist, see Subscription.subscriberId). Holds what applies to all
+ * of them: whether the address was verified (a confirmation or magic link
+ * was opened), the language of new subscriptions, the time zone and quiet
+ * hours during which price drops are held back, and the default alert rules
+ * of products added to the watchlist. Created on the first subscription;
+ * subscriptions made before subscribers existed are attached by
+ * `migrations/subscribers.ts`.
+ */
+import mongoose, { Schema, Document } from 'mongoose';
+import { AlertRulesSchema, IAlertRules } from './Subscription.model';
+import { DEFAULT_LOCALE } from '../views/emails/locales';
+
+/**
+ * Hours of the day (0-23, in the subscriber's time zone) during which price
+ * drops are not sent. `start` is included and `end` excluded; a `start`
+ * after `end` spans midnight (e.g. 22 to 7).
+ */
+export interface IQuietHours {
+    start: number;
+    end: number;
+}
+
+export interface ISubscriberPreferences {
+    /** Alert rules of products added through the watchlist API */
+    defaultAlert?: IAlertRules;
+}
+
+export interface ISubscriber extends Document {
+    email: string;
+    /** Whether the subscriber proved they own the address */
+    verified: boolean;
+    verifiedAt?: Date;
+    /** Language of new subscriptions and of the manage link email */
+    locale: string;
+    /** IANA time zone the quiet hours are in */
+    timezone: string;
+    quietHours?: IQuietHours;
+    preferences: ISubscriberPreferences;
+    /** When the last manage link email was sent, to throttle requests */
+    manageLinkSentAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+const QuietHoursSchema = new Schema<IQuietHours>({
+    start: {
+        type: Number,
+        required: true,
+        min: 0,
+        max: 23,
+    },
+    end: {
+        type: Number,
+        required: true,
+        min: 0,
+        max: 23,
+    },
+}, { _id: false });
+
+const PreferencesSchema = new Schema<ISubscriberPreferences>({
+    defaultAlert: {
+        type: AlertRulesSchema,
+        required: false,
+    },
+}, { _id: false });
+
+const SubscriberSchema = new Schema<ISubscriber>({
+    email: {
+        type: String,
+        required: true,
+        unique: true,
+        trim: true,
+        lowercase: true,
+        validate: {
+            validator: (v: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v),
+            message: 'Invalid email format',
+        },
+    },
+    verified: {
+        type: Boolean,
+        default: false,
+    },
+    verifiedAt: {
+        type: Date,
+        required: false,
+    },
+    locale: {
+        type: String,
+        default: DEFAULT_LOCALE,
+    },
+    timezone: {
+        type: String,
+        default: 'UTC',
+    },
+    quietHours: {
+        type: QuietHoursSchema,
+        required: false,
+    },
+    preferences: {
+        type: PreferencesSchema,
+        default: () => ({}),
+    },
+    manageLinkSentAt: {
+        type: Date,
+        required: false,
+    },
+}, {
+    timestamps: true,
+});
+
+/**
+ * Hour of the day (0-23) of a date in a time zone.
+ */
+function hourIn(date: Date, timeZone: string): number {
+    const hour = new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', hourCycle: 'h23' }).format(date);
+    return Number(hour);
+}
+
+/**
+ * Whether a date falls in the subscriber's quiet hours.
+ */
+export function isInQuietHours(subscriber: Pick<ISubscriber, 'quietHours' | 'timezone'>, at: Date = new Date()): boolean {
+    const quiet = subscriber.quietHours;
+    if (!quiet || quiet.start === quiet.end) {
+        return false;
+    }
+    const hour = hourIn(at, subscriber.timezone || 'UTC');
+    return quiet.start < quiet.end
+        ? hour >= quiet.start && hour < quiet.end
+        : hour >= quiet.start || hour < quiet.end;
+}
+
+/**
+ * Export the model for use in controllers and services.
+ */
+export const Subscriber = mongoose.model<ISubscriber>('Subscriber', SubscriberSchema);
@@ -1,31 +1,106 @@
 /**
  * Mongoose model for subscriptions.
- * Each subscription stores the subscriber email and a small product object
- * (name, price, url, and optional lastSeenPrice). Timestamps are enabled
- * so `createdAt` and `updatedAt` are available automatically.
+ * Each subscription stores the subscriber email, a reference to the shared
+ * Product being watched, and a snapshot of the product as the subscriber
+ * saw it (name, price, url, and optional image and ISO currency). Optional
+ * alert rules narrow down which price drops trigger an email and how often
+ * (cooldown, daily or weekly digest).
+ *
+ * New subscriptions start `pending` until the subscriber confirms by email
+ * (double opt-in); unconfirmed ones are removed after CONFIRMATION_TTL_MS.
+ * Subscriptions of delisted products expire and are removed after
+ * EXPIRED_SUBSCRIPTION_TTL_MS. Subscribers can pause alerts from the
+ * self-service page.
+ *
+ * Emails are sent in the subscription's `locale`. Notifications go to the
+ * subscription's `channels` (email, webhook, Slack, Discord, Telegram; see
+ * channels/), or to the subscriber email when it has none. Subscriptions
+ * belong to the Subscriber of their email address (`subscriberId`), whose
+ * watchlist they make up. Timestamps are enabled so `createdAt` and
+ * `updatedAt` are available automatically.
  */
 import mongoose, { Schema, Document } from 'mongoose';
+import { CONFIRMATION_TTL_MS, EXPIRED_SUBSCRIPTION_TTL_MS, MAX_COOLDOWN_HOURS } from '../config/constants';
+import { DEFAULT_LOCALE } from '../views/emails/locales';
+import type { ChannelTarget } from '../channels';
+import type { DigestFrequency } from '../types';
 
-export interface IProduct {
+/**
+ * The product as submitted when subscribing. `price` is the price the
+ * subscriber saw, used as the baseline for their alert rules; the latest
+ * observed price lives on the referenced Product.
+ */
+export interface IProductSnapshot {
     name: string;
     price: string;
     url: string;
-    lastSeenPrice?: number;
+    /** Absolute URL of the product image, shown in emails */
+    image?: string;
+    currency?: string;
+}
+
+/**
+ * Optional alert rules. When several are set, all of them must be met.
+ * Drops are measured against the price at subscription time or at the
+ * last notification, so small successive drops can add up.
+ */
+export interface IAlertRules {
+    targetPrice?: number;
+    minDropPercent?: number;
+    minDropAmount?: number;
+    /** Also alert when the product comes back in stock */
+    backInStock?: boolean;
+    /** Only announce prices below every price recorded for the product */
+    allTimeLow?: boolean;
+    /** Minimum hours between price-drop notifications (NOTIFICATION_COOLDOWN_MS when unset) */
+    cooldownHours?: number;
+    /** Collect price drops into one email per day or week instead of notifying each one */
+    digest?: DigestFrequency;
 }
 
+/**
+ * Lifecycle state: `pending` until the email address is confirmed,
+ * `paused` when the subscriber temporarily stopped alerts, `expired` once
+ * the product was delisted.
+ */
+export type SubscriptionStatus = 'pending' | 'active' | 'paused' | 'expired';
+
 export interface ISubscription extends Document {
     email: string;
-    product: IProduct;
+    /** Owner of the subscription (missing until the subscribers migration ran) */
+    subscriberId?: mongoose.Types.ObjectId;
+    productId: mongoose.Types.ObjectId;
+    product: IProductSnapshot;
+    status: SubscriptionStatus;
+    /** Language of the emails, chosen in the widget */
+    locale: string;
+    confirmedAt?: Date;
+    /** When the last confirmation email was sent, to throttle resends */
+    confirmationSentAt?: Date;
+    alert?: IAlertRules;
+    /**
+     * Where notifications are delivered; the subscriber email when empty.
+     * Webhook secrets are returned once, when subscribing, and not loaded
+     * unless selected with `+channels.secret`.
+     */
+    channels: ChannelTarget[];
+    lastNotifiedPrice?: number;
     lastNotifiedAt?: Date;
-    lastCheckedAt?: Date;
+    /**
+     * Price a drop held back by the cooldown started from; the drop is
+     * announced once the cooldown ends if the price is still below it.
+     */
+    deferredDropFrom?: number;
+    /** When the subscription expired; it is deleted EXPIRED_SUBSCRIPTION_TTL_MS later */
+    expiredAt?: Date;
     createdAt: Date;
     updatedAt: Date;
 }
 
 /**
- * Embedded product schema - stored inline within the subscription document.
+ * Embedded product snapshot schema - stored inline within the subscription document.
  */
-const ProductSchema = new Schema<IProduct>({
+const ProductSnapshotSchema = new Schema<IProductSnapshot>({
     name: {
         type: String,
         required: true,
@@ -41,9 +116,79 @@ const ProductSchema = new Schema<IProduct>({
         required: true,
         trim: true,
     },
-    lastSeenPrice: {
+    image: {
+        type: String,
+        required: false,
+        trim: true,
+    },
+    currency: {
+        type: String,
+        required: false,
+        uppercase: true,
+        trim: true,
+    },
+}, { _id: false });
+
+/**
+ * Embedded alert rules schema - all fields optional. Also used for the
+ * default rules of a Subscriber.
+ */
+export const AlertRulesSchema = new Schema<IAlertRules>({
+    targetPrice: {
         type: Number,
         required: false,
+        min: 0,
+    },
+    minDropPercent: {
+        type: Number,
+        required: false,
+        min: 0,
+        max: 100,
+    },
+    minDropAmount: {
+        type: Number,
+        required: false,
+        min: 0,
+    },
+    backInStock: {
+        type: Boolean,
+        required: false,
+    },
+    allTimeLow: {
+        type: Boolean,
+        required: false,
+    },
+    cooldownHours: {
+        type: Number,
+        required: false,
+        min: 0,
+        max: MAX_COOLDOWN_HOURS,
+    },
+    digest: {
+        type: String,
+        enum: ['daily', 'weekly'],
+        required: false,
+    },
+}, { _id: false });
+
+/**
+ * Embedded notification channel schema.
+ */
+const ChannelTargetSchema = new Schema<ChannelTarget>({
+    type: {
+        type: String,
+        enum: ['email', 'webhook', 'slack', 'discord', 'telegram'],
+        required: true,
+    },
+    address: {
+        type: String,
+        required: true,
+        trim: true,
+    },
+    secret: {
+        type: String,
+        required: false,
+        select: false,
     },
 }, { _id: false });
 
@@ -58,15 +203,60 @@ const SubscriptionSchema = new Schema<ISubscription>({
             message: 'Invalid email format',
         },
     },
+    subscriberId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Subscriber',
+        required: false,
+    },
+    productId: {
+        type: Schema.Types.ObjectId,
+        ref: 'Product',
+        required: true,
+    },
     product: {
-        type: ProductSchema,
+        type: ProductSnapshotSchema,
         required: true,
     },
+    status: {
+        type: String,
+        // No default: a default would be written as `pending` into documents
+        // from before double opt-in on their next save, and the TTL index
+        // would delete them. New subscriptions set their status explicitly.
+        enum: ['pending', 'active', 'paused', 'expired'],
+    },
+    locale: {
+        type: String,
+        default: DEFAULT_LOCALE,
+    },
+    confirmedAt: {
+        type: Date,
+        required: false,
+    },
+    confirmationSentAt: {
+        type: Date,
+        required: false,
+    },
+    alert: {
+        type: AlertRulesSchema,
+        required: false,
+    },
+    channels: {
+        type: [ChannelTargetSchema],
+        default: [],
+    },
+    lastNotifiedPrice: {
+        type: Number,
+        required: false,
+    },
     lastNotifiedAt: {
         type: Date,
         required: false,
     },
-    lastCheckedAt: {
+    deferredDropFrom: {
+        type: Number,
+        required: false,
+    },
+    expiredAt: {
         type: Date,
         required: false,
     },
@@ -74,15 +264,57 @@ const SubscriptionSchema = new Schema<ISubscription>({
     timestamps: true,
 });
 
-// Compound index for efficient duplicate checking (email + product URL)
-SubscriptionSchema.index({ email: 1, 'product.url': 1 });
+// One subscription per email and product; products are keyed by canonical URL,
+// so URL variants of the same item count as duplicates
+SubscriptionSchema.index({ email: 1, productId: 1 }, { unique: true });
+
+// The notifier loads the active subscribers of each product it checks
+SubscriptionSchema.index({ productId: 1, status: 1 });
+
+// Watchlist of a subscriber, newest first
+SubscriptionSchema.index({ subscriberId: 1, createdAt: -1 });
+
+// Unconfirmed subscriptions expire automatically (MongoDB TTL monitor)
+SubscriptionSchema.index(
+    { createdAt: 1 },
+    {
+        expireAfterSeconds: CONFIRMATION_TTL_MS / 1000,
+        partialFilterExpression: { status: 'pending' },
+    }
+);
+
+// Subscriptions of delisted products are kept for a while, then removed
+SubscriptionSchema.index({ expiredAt: 1 }, { expireAfterSeconds: EXPIRED_SUBSCRIPTION_TTL_MS / 1000 });
+
+/**
+ * Filter matching subscriptions that receive notifications (documents
+ * created before double opt-in have no status until
+ * migrations/subscriptionStatus.ts runs, and count as active).
+ */
+export const ACTIVE_SUBSCRIPTION = { status: { $nin: ['pending', 'paused', 'expired'] } };
+
+/**
+ * Whether a pending subscription is past its confirmation window. The TTL
+ * monitor only runs every minute, so expired rows may still be returned.
+ */
+export function isConfirmationExpired(sub: Pick<ISubscription, 'status' | 'createdAt'>): boolean {
+    return sub.status === 'pending' && sub.createdAt.getTime() + CONFIRMATION_TTL_MS < Date.now();
+}
+
+/**
+ * Where a subscription's notifications go: its channels, or its email
+ * address when it has none (subscriptions created before channels existed).
+ */
+export function getSubscriptionChannels(sub: Pick<ISubscription, 'email' | 'channels'>): ChannelTarget[] {
+    return sub.channels?.length ? sub.channels : [{ type: 'email', address: sub.email }];
+}
 
 /**
  * Static helper to quickly check for duplicates.
- * Usage: await Subscription.exists(email, url)
+ * Usage: await Subscription.exists(email, productId)
  */
-SubscriptionSchema.statics.exists = async function (email: string, url: string): Promise<boolean> {
-    const count = await this.countDocuments({ email, 'product.url': url });
+SubscriptionSchema.statics.exists = async function (email: string, productId: mongoose.Types.ObjectId): Promise<boolean> {
+    const count = await this.countDocuments({ email, productId });
     return count > 0;
 };
 
@@ -0,0 +1,223 @@
+/**
+ * Money parsing and formatting.
+ * The single place where human-formatted prices from any shop ("$1,299.00",
+ * "1.299,00 €", "EGP 12,500", "¥1,500", "CHF 1'299.-") are turned into
+ * `{ amount, currency }` values. Amounts are rounded with currency.js to the
+ * currency's minor unit so comparisons are not thrown off by float noise.
+ */
+import currency from 'currency.js';
+import { Money } from './types';
+
+/** ISO 4217 codes recognized in price strings */
+const ISO_CODES = [
+    'USD', 'EUR', 'GBP', 'EGP', 'JPY', 'INR', 'CAD', 'AUD', 'NZD', 'CHF',
+    'CNY', 'HKD', 'SGD', 'SAR', 'AED', 'KWD', 'BHD', 'OMR', 'QAR', 'MXN',
+    'BRL', 'PLN', 'SEK', 'NOK', 'DKK', 'CZK', 'HUF', 'TRY', 'KRW', 'ZAR',
+    'RUB', 'ILS', 'THB', 'PHP', 'MYR', 'IDR',
+];
+
+/** Currency symbols, most specific first so "US$" wins over "$" */
+const SYMBOLS: Array<[string, string]> = [
+    ['US$', 'USD'], ['CA$', 'CAD'], ['C$', 'CAD'], ['AU$', 'AUD'], ['A$', 'AUD'],
+    ['NZ$', 'NZD'], ['HK$', 'HKD'], ['S$', 'SGD'], ['R$', 'BRL'], ['MX$', 'MXN'],
+    ['E£', 'EGP'], ['ج.م', 'EGP'], ['€', 'EUR'], ['£', 'GBP'], ['¥', 'JPY'],
+    ['￥', 'JPY'], ['₹', 'INR'], ['₩', 'KRW'], ['₺', 'TRY'], ['₽', 'RUB'],
+    ['₪', 'ILS'], ['₱', 'PHP'], ['฿', 'THB'], ['zł', 'PLN'], ['Kč', 'CZK'],
+    ['$', 'USD'],
+];
+
+/**
+ * Symbols shared by several currencies ("$" is also CAD, AUD, MXN...; "¥"
+ * also CNY). Their mapping above is only a guess, used when nothing better
+ * is known.
+ */
+const AMBIGUOUS_SYMBOLS = new Set(['$', '¥', '￥']);
+
+// Case-sensitive, so a word like "Try" next to a price is not a currency
+const ISO_PATTERN = new RegExp(`(?<![A-Za-z])(${ISO_CODES.join('|')})(?![A-Za-z])`);
+
+export interface ParseMoneyOptions {
+    /**
+     * Currency of the page (ISO code or symbol), e.g. from structured data.
+     * Used when the string has no currency, and preferred over an ambiguous
+     * symbol such as "$" or "¥" in the string.
+     */
+    currency?: string | null;
+    /**
+     * BCP 47 locale of the page (e.g. "de-DE"). Only used to settle the
+     * ambiguous case of a single separator followed by three digits
+     * ("1.299" is 1299 in de-DE); without it that case is read as grouping.
+     */
+    locale?: string;
+}
+
+/**
+ * Detect the currency mentioned in a price string, as an ISO 4217 code.
+ * Examples: "EGP6,555.00" -> "EGP", "1.299,00 €" -> "EUR", "$5" -> "USD"
+ */
+export function detectCurrency(text: string | null | undefined): string | null {
+    return findCurrency(text)?.code ?? null;
+}
+
+/** Currency of a string, and whether it was only guessed from an ambiguous symbol */
+function findCurrency(text: string | null | undefined): { code: string; ambiguous: boolean } | null {
+    if (!text) return null;
+    const iso = text.match(ISO_PATTERN);
+    if (iso) return { code: iso[1], ambiguous: false };
+    for (const [symbol, code] of SYMBOLS) {
+        if (text.includes(symbol)) return { code, ambiguous: AMBIGUOUS_SYMBOLS.has(symbol) };
+    }
+    return null;
+}
+
+/**
+ * Number of minor-unit digits of a currency (JPY 0, USD 2, KWD 3).
+ */
+export function currencyDigits(code: string | null | undefined): number {
+    if (!code) return 2;
+    try {
+        return new Intl.NumberFormat('en', { style: 'currency', currency: code })
+            .resolvedOptions().maximumFractionDigits ?? 2;
+    } catch {
+        return 2;
+    }
+}
+
+/**
+ * Parse a human-formatted price into a Money value.
+ * Examples: "$1,299.00" -> 1299 USD, "1.299,00 €" -> 1299 EUR,
+ * "EGP 12,500" -> 12500 EGP, "₹1,23,456" -> 123456 INR, "19,99" -> 19.99 (no currency),
+ * "$ 25" with `{ currency: 'CAD' }` -> 25 CAD
+ * @param input - The string containing a price
+ * @param options - Fallback currency and page locale
+ * @returns the parsed money value or null if no amount could be read
+ */
+export function parseMoney(input: string | null | undefined, options: ParseMoneyOptions = {}): Money | null {
+    if (!input) return null;
+    const text = String(input);
+
+    // An ISO code or unambiguous symbol in the text wins; "$" or "¥" only
+    // when the page gives no currency of its own
+    const found = findCurrency(text);
+    const hint = detectCurrency(options.currency);
+    const code = (found && !found.ambiguous ? found.code : hint ?? found?.code) ?? null;
+
+    // First numeric token: digit groups joined by separators; a space only
+    // joins when a 3-digit group follows ("1 299,00" but not "19.99 24.99")
+    const m = text.match(/\d+(?:(?:[.,'’]|[ \u00a0\u202f](?=\d{3}(?:\D|$)))\d+)*/);
+    if (!m) return null;
+
+    const digits = currencyDigits(code);
+    const normalized = normalizeNumber(m[0], digits, options.locale);
+    if (normalized == null) return null;
+
+    const amount = currency(normalized, { precision: digits }).value;
+    if (!Number.isFinite(amount)) return null;
+
+    return { amount, currency: code };
+}
+
+/**
+ * Convert a localized numeric token to a plain "1234.56" string.
+ * Rules: spaces and apostrophes always group; with both "." and "," the
+ * last one is the decimal separator; a separator repeated more than once
+ * groups; a single separator followed by exactly three digits groups unless
+ * the currency has three decimals or the locale says otherwise.
+ */
+function normalizeNumber(token: string, digits: number, locale?: string): string | null {
+    const s = token.replace(/['’\s\u00a0\u202f]/g, '');
+    const lastDot = s.lastIndexOf('.');
+    const lastComma = s.lastIndexOf(',');
+
+    let decimalSep: string | null = null;
+    if (lastDot >= 0 && lastComma >= 0) {
+        decimalSep = lastDot > lastComma ? '.' : ',';
+    } else if (lastDot >= 0 || lastComma >= 0) {
+        const sep = lastDot >= 0 ? '.' : ',';
+        const occurrences = s.split(sep).length - 1;
+        const fractionLength = s.length - s.lastIndexOf(sep) - 1;
+
+        if (occurrences > 1) {
+            decimalSep = null;
+        } else if (fractionLength !== 3) {
+            decimalSep = sep;
+        } else if (digits === 3) {
+            decimalSep = sep;
+        } else if (locale) {
+            decimalSep = localeDecimalSeparator(locale) === sep ? sep : null;
+        }
+    }
+
+    const [intPart, fracPart] = decimalSep
+        ? [s.slice(0, s.lastIndexOf(decimalSep)), s.slice(s.lastIndexOf(decimalSep) + 1)]
+        : [s, ''];
+    const integer = intPart.replace(/[.,]/g, '');
+    if (!/^\d*$/.test(integer) || !/^\d*$/.test(fracPart)) return null;
+    if (!integer && !fracPart) return null;
+
+    return fracPart ? `${integer || '0'}.${fracPart}` : integer;
+}
+
+function localeDecimalSeparator(locale: string): string {
+    try {
+        const part = new Intl.NumberFormat(locale).formatToParts(1.5).find((p) => p.type === 'decimal');
+        return part?.value ?? '.';
+    } catch {
+        return '.';
+    }
+}
+
+/**
+ * Difference `from - to` rounded to the currency's minor unit.
+ */
+export function subtractAmounts(from: number, to: number, code?: string | null): number {
+    return currency(from, { precision: currencyDigits(code) }).subtract(to).value;
+}
+
+/**
+ * Format an amount for display, e.g. (1299, "EUR", "de-DE") -> "1.299,00 €".
+ * Without a currency only the number is formatted.
+ */
+export function formatMoney(amount: number, code?: string | null, locale = 'en-US'): string {
+    if (code) {
+        try {
+            return new Intl.NumberFormat(locale, { style: 'currency', currency: code }).format(amount);
+        } catch {
+            // Unknown currency code - fall through to a plain number
+        }
+    }
+    return currency(amount, { symbol: '', precision: currencyDigits(code) }).format();
+}
+
+/**
+ * express-validator check for a price as shown on a product page: rejects
+ * "unknown" (extraction failed), prices without digits or only zeros, and
+ * text made only of symbols.
+ * @throws Error with the validation message
+ */
+export function checkPriceText(value: string): true {
+    // Reject "unknown" or invalid prices
+    if (value.toLowerCase() === 'unknown' || value.trim() === '') {
+        throw new Error('Unable to extract product price');
+    }
+
+    // Extract only digits from price
+    const digits = value.replace(/[^0-9]/g, '');
+
+    // Must have at least one digit
+    if (digits.length === 0) {
+        throw new Error('Price must contain at least one number');
+    }
+
+    // Digits cannot be only zeros
+    if (parseInt(digits, 10) === 0) {
+        throw new Error('Invalid price value');
+    }
+
+    // Price cannot be just punctuation
+    if (/^[^a-zA-Z0-9]+$/.test(value)) {
+        throw new Error('Price contains only symbols');
+    }
+
+    return true;
+}
@@ -0,0 +1,65 @@
+/**
+ * Amazon adapter
+ *
+ * Covers every Amazon storefront (amazon.com, amazon.eg, amazon.co.uk...).
+ * Amazon has strong bot detection, so pages are always rendered with the
+ * headless browser.
+ */
+import { RetailerAdapter } from './types';
+import { firstMatch, parseAvailability } from './helpers';
+
+const PRICE_SELECTORS = [
+    // 2024+ layouts
+    '#corePriceDisplay_desktop_feature_div .a-price .a-offscreen',
+    '#corePrice_desktop .a-price .a-offscreen',
+    '.priceToPay .a-offscreen',
+    '.a-price[data-a-size="xl"] .a-offscreen',
+    '.a-price[data-a-size="large"] .a-offscreen',
+    'span.a-price.aok-align-center span.a-offscreen',
+    '.a-section.a-spacing-none.aok-align-center .a-price .a-offscreen',
+    // Legacy layouts
+    '#priceblock_ourprice',
+    '#priceblock_dealprice',
+    '#priceblock_saleprice',
+    '#price_inside_buybox',
+    '.a-price .a-offscreen',
+    '.a-price-whole',
+];
+
+export const amazonAdapter: RetailerAdapter = {
+    name: 'amazon',
+    requiresBrowser: true,
+    waitForSelectors: [
+        '.a-price .a-offscreen',
+        '#corePriceDisplay_desktop_feature_div',
+    ],
+
+    matchesHost: (hostname) => /(^|\.)amazon\.[a-z.]+$/.test(hostname),
+
+    extractTitle: ($) => firstMatch($, ['#productTitle']),
+
+    extractPrice: ($) => firstMatch($, PRICE_SELECTORS),
+
+    extractCurrency: ($) => firstMatch($, [
+        '#corePriceDisplay_desktop_feature_div .a-price-symbol',
+        '#corePrice_desktop .a-price-symbol',
+        '.a-price .a-price-symbol',
+    ]),
+
+    extractAvailability: ($) => parseAvailability(firstMatch($, [
+        '#availability',
+        '#outOfStock',
+    ])),
+
+    detectPageProblem: ($) => {
+        // "Robot Check" page asking to type the characters of an image
+        if ($('form[action*="validateCaptcha"]').length || /robot check/i.test($('title').text())) {
+            return 'blocked';
+        }
+        // The "Dogs of Amazon" page served for removed products
+        if ($('img[alt*="Dogs of Amazon" i]').length) {
+            return 'not_found';
+        }
+        return null;
+    },
+};
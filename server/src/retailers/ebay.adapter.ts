@@ -0,0 +1,55 @@
+/**
+ * eBay adapter
+ *
+ * Covers eBay's global sites (ebay.com, ebay.co.uk, ebay.de...). Listings
+ * are rendered client-side, so the headless browser is always used.
+ */
+import { RetailerAdapter } from './types';
+import { firstMatch, parseAvailability } from './helpers';
+
+export const ebayAdapter: RetailerAdapter = {
+    name: 'ebay',
+    requiresBrowser: true,
+    waitForSelectors: ['.x-price-primary'],
+
+    matchesHost: (hostname) => /(^|\.)ebay\.[a-z.]+$/.test(hostname),
+
+    extractTitle: ($) => firstMatch($, [
+        '.x-item-title__mainTitle',
+        '#itemTitle',
+        '.it-ttl',
+    ]),
+
+    extractPrice: ($) => firstMatch($, [
+        '.x-price-primary .ux-textspans',
+        '.x-price-primary',
+        '#prcIsum',
+        '#mm-saleDscPrc',
+        '.display-price',
+        '.ui-display-price',
+    ]),
+
+    extractCurrency: ($) => {
+        const el = $('[itemprop=priceCurrency]').first();
+        return el.attr('content') || null;
+    },
+
+    extractAvailability: ($) => parseAvailability(firstMatch($, [
+        '.d-quantity__availability',
+        '.x-quantity__availability',
+        '#qtySubTxt',
+    ])),
+
+    detectPageProblem: ($) => {
+        // Bot wall shown to suspected automated traffic
+        if (/pardon our interruption/i.test($('title').text())) {
+            return 'blocked';
+        }
+        // Ended listings stay online with a status banner instead of the buy box
+        const status = firstMatch($, ['.d-statusmessage', '.ux-layout-section--statusMessage', '.msgPad']);
+        if (status && /(listing|item) (has|was) ended|no longer available/i.test(status)) {
+            return 'not_found';
+        }
+        return null;
+    },
+};
@@ -0,0 +1,58 @@
+/**
+ * Generic adapter
+ *
+ * Handles any shop without a dedicated adapter using Open Graph / product
+ * meta tags, schema.org itemprops and common class names. Also serves as the
+ * fallback for fields a retailer-specific adapter cannot find.
+ */
+import { RetailerAdapter } from './types';
+import { firstMatch, parseAvailability } from './helpers';
+
+const TITLE_SELECTORS = [
+    'meta[property="og:title"]',
+    'meta[name="og:title"]',
+    'title',
+    'h1',
+    'h2',
+];
+
+const PRICE_SELECTORS = [
+    // Meta tags (check first as they're most reliable)
+    'meta[property="product:price:amount"]',
+    'meta[property="og:price:amount"]',
+    '[itemprop=price]',
+    '[data-price]',
+    '.price',
+];
+
+const CURRENCY_SELECTORS = [
+    'meta[property="product:price:currency"]',
+    'meta[property="og:price:currency"]',
+    '[itemprop=priceCurrency]',
+];
+
+const AVAILABILITY_SELECTORS = [
+    'meta[property="product:availability"]',
+    'meta[property="og:availability"]',
+];
+
+export const genericAdapter: RetailerAdapter = {
+    name: 'generic',
+    requiresBrowser: false,
+    waitForSelectors: ['[itemprop=price]', '.price'],
+
+    matchesHost: () => true,
+
+    extractTitle: ($) => firstMatch($, TITLE_SELECTORS),
+
+    extractPrice: ($) => firstMatch($, PRICE_SELECTORS),
+
+    extractCurrency: ($) => firstMatch($, CURRENCY_SELECTORS),
+
+    extractAvailability: ($) => {
+        // schema.org availability is usually a <link href="https://schema.org/InStock">
+        const itemprop = $('[itemprop=availability]').first();
+        const schemaValue = itemprop.attr('href') || itemprop.attr('content');
+        return parseAvailability(schemaValue || firstMatch($, AVAILABILITY_SELECTORS));
+    },
+};
@@ -0,0 +1,59 @@
+/**
+ * Small extraction helpers shared by retailer adapters.
+ */
+import type { CheerioAPI } from 'cheerio';
+import { ProductAvailability } from '../types';
+
+/**
+ * Return the first non-empty value found for a prioritized list of selectors.
+ * Meta tags yield their `content` attribute, other elements their text.
+ * @param $ - Loaded Cheerio document
+ * @param selectors - Selectors in priority order
+ */
+export function firstMatch($: CheerioAPI, selectors: string[]): string | null {
+    for (const sel of selectors) {
+        const el = $(sel).first();
+        if (el && el.length) {
+            const v = el.attr('content') || el.text();
+            if (v && v.trim()) {
+                return v.replace(/\s+/g, ' ').trim();
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * Map free-form availability text or schema.org URLs to an availability state.
+ * Understands English, German, French and Spanish shop wording; negations
+ * are tested first, so "nicht verfügbar" is not read as "verfügbar".
+ * Examples: "In Stock." -> in_stock, "https://schema.org/OutOfStock" -> out_of_stock,
+ * "Only 3 left in stock" -> limited, "Nur noch 1 verfügbar" -> limited
+ */
+export function parseAvailability(text: string | null | undefined): ProductAvailability {
+    if (!text) return 'unknown';
+    const t = text.toLowerCase();
+
+    if (/out\s?of\s?stock|outofstock|unavailable|sold\s?out|soldout|discontinued|no longer available/.test(t)
+        || /nicht (?:mehr )?(?:auf lager|verfügbar|lieferbar|vorrätig)|ausverkauft/.test(t)
+        || /rupture de stock|épuisé|indisponible|plus disponible/.test(t)
+        || /agotado|sin stock|no disponible/.test(t)) {
+        return 'out_of_stock';
+    }
+    if (/pre-?order|presale|backorder/.test(t)
+        || /vorbestell|précommande|preventa/.test(t)) {
+        return 'preorder';
+    }
+    if (/only \d+ left|limited|few left|limitedavailability|almost gone/.test(t)
+        || /nur noch \d+|wenige (?:auf lager|verfügbar|vorrätig)/.test(t)
+        || /plus que \d+|dernières pièces/.test(t)
+        || /(?:solo|sólo) quedan? \d+|últimas unidades/.test(t)) {
+        return 'limited';
+    }
+    if (/in\s?stock|instock|available|more than \d+ available/.test(t)
+        || /auf lager|verfügbar|lieferbar|vorrätig/.test(t)
+        || /en stock|disponible/.test(t)) {
+        return 'in_stock';
+    }
+    return 'unknown';
+}
@@ -0,0 +1,32 @@
+/**
+ * Retailer adapter registry.
+ * To support a new shop, add an adapter file next to this one and register
+ * it in `adapters` below. Lookup order matters: the first adapter whose
+ * host matcher accepts the URL wins; the generic adapter handles the rest.
+ */
+import { RetailerAdapter } from './types';
+import { amazonAdapter } from './amazon.adapter';
+import { ebayAdapter } from './ebay.adapter';
+import { genericAdapter } from './generic.adapter';
+
+export type { RetailerAdapter, PageProblem } from './types';
+export { genericAdapter } from './generic.adapter';
+
+const adapters: RetailerAdapter[] = [
+    amazonAdapter,
+    ebayAdapter,
+];
+
+/**
+ * Find the adapter responsible for a URL, falling back to the generic adapter.
+ * @param url - Product page URL
+ */
+export function getAdapterForUrl(url: string): RetailerAdapter {
+    let hostname: string;
+    try {
+        hostname = new URL(url).hostname.toLowerCase();
+    } catch {
+        return genericAdapter;
+    }
+    return adapters.find((adapter) => adapter.matchesHost(hostname)) ?? genericAdapter;
+}
@@ -0,0 +1,42 @@
+/**
+ * Detection of pages that are not the product page that was asked for:
+ * CAPTCHAs and bot walls, and "page not found" pages served with a 200
+ * status. The retailer adapter's own checks run first, then markers of the
+ * common bot protection services.
+ */
+import type { CheerioAPI } from 'cheerio';
+import { PageProblem, RetailerAdapter } from './types';
+
+/** Challenge pages of Cloudflare, PerimeterX, DataDome and Akamai */
+const BOT_WALL_SELECTORS = [
+    '#challenge-form',
+    '#cf-challenge-running',
+    '.cf-turnstile',
+    '#px-captcha',
+    'iframe[src*="captcha-delivery.com"]',
+    '#sec-if-cpt-container',
+];
+
+const BOT_WALL_TITLE = /^(just a moment|attention required|access denied|are you a (robot|human))/i;
+
+const NOT_FOUND_TITLE = /^(404\b|page not found|not found\b)/i;
+
+/**
+ * What the page shows instead of a product, or null when it looks like a
+ * regular page.
+ * @param $ - Loaded Cheerio document
+ * @param adapter - Retailer adapter matching the page URL
+ */
+export function detectPageProblem($: CheerioAPI, adapter: RetailerAdapter): PageProblem | null {
+    const problem = adapter.detectPageProblem?.($);
+    if (problem) return problem;
+
+    const title = $('title').first().text().trim();
+    if (BOT_WALL_TITLE.test(title) || $(BOT_WALL_SELECTORS.join(', ')).length > 0) {
+        return 'blocked';
+    }
+    if (NOT_FOUND_TITLE.test(title)) {
+        return 'not_found';
+    }
+    return null;
+}
@@ -0,0 +1,201 @@
+/**
+ * Structured data extraction.
+ * Reads schema.org Product / Offer / AggregateOffer data embedded as JSON-LD
+ * (`<script type="application/ld+json">`, including `@graph` arrays) or as
+ * microdata (`itemscope itemtype=".../Product"`). Most shops publish one of
+ * the two, which makes them far more reliable than CSS selectors.
+ */
+import type { CheerioAPI, Cheerio } from 'cheerio';
+import { ProductAvailability } from '../types';
+import { parseAvailability } from './helpers';
+
+export interface StructuredProduct {
+    name?: string;
+    price?: string;
+    currency?: string;
+    availability?: ProductAvailability;
+    sku?: string;
+    gtin?: string;
+    image?: string;
+}
+
+const GTIN_KEYS = ['gtin13', 'gtin12', 'gtin14', 'gtin8', 'gtin'];
+
+/**
+ * Extract product data from JSON-LD, then microdata. Fields missing from the
+ * JSON-LD product are filled from microdata when both are present.
+ * @returns the product data, or null when the page has no Product schema
+ */
+export function extractStructuredData($: CheerioAPI): StructuredProduct | null {
+    const jsonLd = extractJsonLd($);
+    const microdata = extractMicrodata($);
+
+    if (!jsonLd && !microdata) return null;
+
+    const merged: StructuredProduct = { ...microdata };
+    for (const [key, value] of Object.entries(jsonLd ?? {})) {
+        if (value != null && value !== '') {
+            (merged as Record<string, unknown>)[key] = value;
+        }
+    }
+    return merged;
+}
+
+// ---------------------------------------------------------------------------
+// JSON-LD
+// ---------------------------------------------------------------------------
+
+function extractJsonLd($: CheerioAPI): StructuredProduct | null {
+    const nodes: any[] = [];
+
+    $('script[type="application/ld+json"]').each((_, el) => {
+        const raw = $(el).contents().text()
+            .replace(/^\s*<!--/, '')
+            .replace(/-->\s*$/, '')
+            .trim();
+        if (!raw) return;
+        try {
+            collectNodes(JSON.parse(raw), nodes);
+        } catch {
+            // Some shops emit invalid JSON (trailing commas, raw newlines) - skip those blocks
+        }
+    });
+
+    // Prefer a product that carries offers (ProductGroup variants usually do, the group itself may not)
+    const products = nodes.filter((node) => hasType(node, 'Product') || hasType(node, 'ProductGroup'));
+    const product = products.find((node) => node.offers) ?? products[0];
+    if (!product) return null;
+
+    const offer = pickOffer(product.offers);
+    const price = firstDefined(
+        offer?.price,
+        offer?.lowPrice,
+        offer?.priceSpecification?.price,
+        Array.isArray(offer?.priceSpecification) ? offer.priceSpecification[0]?.price : undefined,
+    );
+    const currency = firstDefined(
+        offer?.priceCurrency,
+        offer?.priceSpecification?.priceCurrency,
+        Array.isArray(offer?.priceSpecification) ? offer.priceSpecification[0]?.priceCurrency : undefined,
+    );
+    const availability = firstDefined(offer?.availability, product.availability);
+
+    return {
+        name: asText(product.name),
+        price: price != null ? String(price).trim() : undefined,
+        currency: asText(currency),
+        availability: availability ? parseAvailability(String(availability)) : undefined,
+        sku: asText(firstDefined(product.sku, offer?.sku)),
+        gtin: asText(firstDefined(...GTIN_KEYS.map((k) => product[k]), ...GTIN_KEYS.map((k) => offer?.[k]))),
+        image: asImageUrl(product.image),
+    };
+}
+
+/**
+ * Flatten a parsed JSON-LD value (object, array or @graph container) into
+ * a list of candidate nodes.
+ */
+function collectNodes(value: any, out: any[]) {
+    if (Array.isArray(value)) {
+        value.forEach((v) => collectNodes(v, out));
+        return;
+    }
+    if (!value || typeof value !== 'object') return;
+
+    out.push(value);
+    if (value['@graph']) collectNodes(value['@graph'], out);
+    // ProductGroup lists its variants under hasVariant
+    if (value.hasVariant) collectNodes(value.hasVariant, out);
+}
+
+function hasType(node: any, type: string): boolean {
+    const t = node?.['@type'];
+    const matches = (v: unknown) => typeof v === 'string' && v.replace(/^https?:\/\/schema\.org\//, '') === type;
+    return Array.isArray(t) ? t.some(matches) : matches(t);
+}
+
+/**
+ * Pick the most relevant offer: a single Offer/AggregateOffer, or the first
+ * offer of a list that actually carries a price.
+ */
+function pickOffer(offers: any): any {
+    if (!offers) return undefined;
+    if (Array.isArray(offers)) {
+        return offers.find((o) => o?.price != null || o?.lowPrice != null) ?? offers[0];
+    }
+    // AggregateOffer may nest individual offers
+    if (offers.price == null && offers.lowPrice == null && offers.offers) {
+        return pickOffer(offers.offers);
+    }
+    return offers;
+}
+
+function firstDefined(...values: any[]): any {
+    return values.find((v) => v != null && v !== '');
+}
+
+function asText(value: unknown): string | undefined {
+    if (value == null) return undefined;
+    if (typeof value === 'string' || typeof value === 'number') {
+        const s = String(value).replace(/\s+/g, ' ').trim();
+        return s || undefined;
+    }
+    return undefined;
+}
+
+function asImageUrl(image: any): string | undefined {
+    if (!image) return undefined;
+    if (typeof image === 'string') return image;
+    if (Array.isArray(image)) return asImageUrl(image[0]);
+    return asText(image.url ?? image.contentUrl);
+}
+
+// ---------------------------------------------------------------------------
+// Microdata
+// ---------------------------------------------------------------------------
+
+function extractMicrodata($: CheerioAPI): StructuredProduct | null {
+    const scope = $('[itemscope][itemtype*="schema.org/Product"]').first();
+    if (!scope.length) return null;
+
+    // Only read properties that belong to this scope or its offers, not to
+    // nested items such as brand, review or seller (which also have a `name`)
+    const prop = (name: string): string | undefined => {
+        let value: string | undefined;
+        scope.find(`[itemprop="${name}"]`).each((_, el) => {
+            if (value !== undefined) return;
+            const owner = $(el).parent().closest('[itemscope]');
+            const ownerType = owner.attr('itemtype') || '';
+            if (owner.is(scope) || /schema\.org\/(Offer|AggregateOffer|PriceSpecification)/.test(ownerType)) {
+                value = itempropValue($(el));
+            }
+        });
+        return value;
+    };
+
+    const price = prop('price') ?? prop('lowPrice');
+    const availability = prop('availability');
+
+    return {
+        name: prop('name'),
+        price,
+        currency: prop('priceCurrency'),
+        availability: availability ? parseAvailability(availability) : undefined,
+        sku: prop('sku'),
+        gtin: GTIN_KEYS.map(prop).find(Boolean),
+        image: prop('image'),
+    };
+}
+
+/**
+ * Read a microdata property value following the HTML spec rules
+ * (content attribute, then href/src for links and media, then text).
+ */
+function itempropValue(el: Cheerio<any>): string | undefined {
+    const value = el.attr('content')
+        ?? (el.is('a, link') ? el.attr('href') : undefined)
+        ?? (el.is('img, source') ? el.attr('src') : undefined)
+        ?? el.text();
+    const trimmed = value?.replace(/\s+/g, ' ').trim();
+    return trimmed || undefined;
+}
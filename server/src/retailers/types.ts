@@ -0,0 +1,32 @@
+/**
+ * Retailer adapter contract.
+ * Each supported shop provides one adapter describing how to recognize its
+ * hostnames and how to read title, price, currency and availability from a
+ * loaded page. The generic adapter handles every other site and is also
+ * used as a fallback for fields a specific adapter cannot find.
+ */
+import type { CheerioAPI } from 'cheerio';
+import { ProductAvailability } from '../types';
+
+/**
+ * What a page shows instead of the product: a CAPTCHA or bot wall
+ * (`blocked`), or a removed or ended listing (`not_found`).
+ */
+export type PageProblem = 'blocked' | 'not_found';
+
+export interface RetailerAdapter {
+    /** Short identifier used in logs */
+    name: string;
+    /** Skip the lightweight fetch and render pages with a headless browser */
+    requiresBrowser: boolean;
+    /** Selectors the headless browser waits for (first visible one wins) */
+    waitForSelectors: string[];
+    /** Whether this adapter handles the given lower-cased hostname */
+    matchesHost(hostname: string): boolean;
+    extractTitle($: CheerioAPI): string | null;
+    extractPrice($: CheerioAPI): string | null;
+    extractCurrency($: CheerioAPI): string | null;
+    extractAvailability($: CheerioAPI): ProductAvailability;
+    /** Recognize the shop's own bot walls and "listing gone" pages */
+    detectPageProblem?($: CheerioAPI): PageProblem | null;
+}
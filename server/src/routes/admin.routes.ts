@@ -1,9 +1,108 @@
 import { Router } from 'express';
-import { triggerNotification } from '../controllers/admin.controller';
+import { body, param, query } from 'express-validator';
+import {
+    login,
+    triggerNotification,
+    getAuditLogEntries,
+    getFailingProductList,
+    getProxyList,
+    getNotificationList,
+    resendNotificationById,
+    resendFailedNotificationList,
+    previewEmail,
+} from '../controllers/admin.controller';
+import { requireAdmin, auditAdminAction } from '../middleware/adminAuth';
+import { EMAIL_TEMPLATE_NAMES, SUPPORTED_LOCALES } from '../views/emails';
+import { CHANNEL_TYPES } from '../channels';
+
+const NOTIFICATION_EVENTS = ['price_drop', 'back_in_stock', 'delisted', 'digest'];
+
+/** Filters shared by the notification list (query) and bulk resend (body) */
+function notificationFilterValidators(location: typeof query | typeof body) {
+    return [
+        location('subscriptionId').optional().isMongoId().withMessage('Invalid subscription id'),
+        location('productId').optional().isMongoId().withMessage('Invalid product id'),
+        location('channel').optional().isIn(CHANNEL_TYPES).withMessage(`Channel must be one of: ${CHANNEL_TYPES.join(', ')}`),
+        location('event').optional().isIn(NOTIFICATION_EVENTS).withMessage(`Event must be one of: ${NOTIFICATION_EVENTS.join(', ')}`),
+        location('since').optional().isISO8601().withMessage('since must be an ISO 8601 date'),
+    ];
+}
 
 const router = Router();
 
+// Exchange an API key for a session token
+router.post(
+    '/admin/login',
+    [body('apiKey').isString().notEmpty().withMessage('API key is required')],
+    auditAdminAction('login'),
+    login,
+);
+
 // Manually trigger price check and notifications
-router.post('/admin/trigger-notify', triggerNotification);
+router.post('/admin/trigger-notify', requireAdmin('admin'), auditAdminAction('trigger_notify'), triggerNotification);
+
+// Recent admin actions
+router.get(
+    '/admin/audit-log',
+    requireAdmin('admin'),
+    [query('limit').optional().isInt({ min: 1, max: 1000 }).withMessage('Limit must be between 1 and 1000')],
+    getAuditLogEntries,
+);
+
+// Products whose checks keep failing (CAPTCHAs, missing pages, broken selectors...)
+router.get(
+    '/admin/products/failing',
+    requireAdmin('viewer'),
+    [
+        query('minFailures').optional().isInt({ min: 1 }).withMessage('minFailures must be a positive integer'),
+        query('limit').optional().isInt({ min: 1, max: 1000 }).withMessage('Limit must be between 1 and 1000'),
+    ],
+    getFailingProductList,
+);
+
+// Scraping proxies and their health
+router.get('/admin/proxies', requireAdmin('viewer'), getProxyList);
+
+// Notifications per channel and their delivery attempts
+router.get(
+    '/admin/notifications',
+    requireAdmin('viewer'),
+    [
+        ...notificationFilterValidators(query),
+        query('status').optional().isIn(['pending', 'delivered', 'failed']).withMessage('Status must be pending, delivered or failed'),
+        query('limit').optional().isInt({ min: 1, max: 1000 }).withMessage('Limit must be between 1 and 1000'),
+    ],
+    getNotificationList,
+);
+
+// Resend the failed notifications matching the filters (e.g. after a transport outage)
+router.post(
+    '/admin/notifications/resend-failed',
+    requireAdmin('admin'),
+    notificationFilterValidators(body),
+    auditAdminAction('resend_failed_notifications'),
+    resendFailedNotificationList,
+);
+
+// Resend one failed or delivered notification
+router.post(
+    '/admin/notifications/:id/resend',
+    requireAdmin('admin'),
+    [param('id').isMongoId().withMessage('Invalid notification id')],
+    auditAdminAction('resend_notification'),
+    resendNotificationById,
+);
+
+// Render an email template with sample data
+router.get(
+    '/admin/email-preview/:template',
+    requireAdmin('viewer'),
+    [
+        param('template').isIn(EMAIL_TEMPLATE_NAMES).withMessage(`Template must be one of: ${EMAIL_TEMPLATE_NAMES.join(', ')}`),
+        query('locale').optional().isIn(SUPPORTED_LOCALES).withMessage(`Locale must be one of: ${SUPPORTED_LOCALES.join(', ')}`),
+        query('format').optional().isIn(['html', 'text', 'json']).withMessage('Format must be html, text or json'),
+    ],
+    previewEmail,
+);
 
 export default router;
@@ -0,0 +1,97 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import {
+    requireManageToken,
+    showManageLogin,
+    requestManageLink,
+    showManagePage,
+    updateManagedSubscription,
+    updateManagedAlert,
+    updateManagedPreferences,
+    deleteAllManagedSubscriptions,
+} from '../controllers/manage.controller';
+import { MAX_COOLDOWN_HOURS } from '../config/constants';
+import { SUPPORTED_LOCALES } from '../views/emails';
+import { isValidTimeZone } from '../utils';
+
+const router = Router();
+
+const loginValidators = [
+    // Same normalization as /subscribe-price-drop so the stored address matches
+    body('email').isEmail().normalizeEmail().withMessage('Invalid email'),
+];
+
+const idValidators = [
+    param('id').isMongoId().withMessage('Invalid subscription id'),
+];
+
+const alertValidators = [
+    ...idValidators,
+    body('targetPrice')
+        .optional({ values: 'falsy' })
+        .isFloat({ gt: 0 }).withMessage('Target price must be a positive number')
+        .toFloat(),
+    body('minDropPercent')
+        .optional({ values: 'falsy' })
+        .isFloat({ gt: 0, lt: 100 }).withMessage('Minimum drop percentage must be between 0 and 100')
+        .toFloat(),
+    body('minDropAmount')
+        .optional({ values: 'falsy' })
+        .isFloat({ gt: 0 }).withMessage('Minimum drop amount must be a positive number')
+        .toFloat(),
+    // Checkboxes: only sent when checked
+    body('backInStock')
+        .optional({ values: 'falsy' })
+        .isBoolean().withMessage('Back in stock must be true or false')
+        .toBoolean(),
+    body('allTimeLow')
+        .optional({ values: 'falsy' })
+        .isBoolean().withMessage('All-time low must be true or false')
+        .toBoolean(),
+    // Empty means the default cooldown, 0 none
+    body('cooldownHours')
+        .optional({ values: 'falsy' })
+        .isInt({ min: 0, max: MAX_COOLDOWN_HOURS }).withMessage(`Cooldown must be between 0 and ${MAX_COOLDOWN_HOURS} hours`)
+        .toInt(),
+    body('digest')
+        .optional({ values: 'falsy' })
+        .isIn(['daily', 'weekly']).withMessage('Digest must be daily or weekly'),
+];
+
+const preferencesValidators = [
+    body('locale')
+        .optional()
+        .isIn(SUPPORTED_LOCALES).withMessage(`Language must be one of: ${SUPPORTED_LOCALES.join(', ')}`),
+    body('timezone')
+        .optional({ values: 'falsy' })
+        .isString().trim()
+        .custom((value: string) => isValidTimeZone(value)).withMessage('Unknown time zone (use a name such as Europe/Paris)'),
+    // "Off" is an empty value
+    body('quietStart')
+        .optional({ values: 'falsy' })
+        .isInt({ min: 0, max: 23 }).withMessage('Quiet hours must be between 0 and 23')
+        .toInt(),
+    body('quietEnd')
+        .optional({ values: 'falsy' })
+        .isInt({ min: 0, max: 23 }).withMessage('Quiet hours must be between 0 and 23')
+        .toInt()
+        .custom((value: number, { req }) => {
+            if (String(req.body.quietStart ?? '') === '' || Number(req.body.quietStart) === value) {
+                throw new Error('Quiet hours need a different start and end hour');
+            }
+            return true;
+        }),
+];
+
+// Request a magic link to the self-service page
+router.get('/manage', showManageLogin);
+router.post('/manage', loginValidators, requestManageLink);
+
+// Self-service page (authenticated by the magic-link token)
+router.get('/manage/:token', requireManageToken, showManagePage);
+router.post('/manage/:token/subscriptions/:id/alert', requireManageToken, alertValidators, updateManagedAlert);
+router.post('/manage/:token/subscriptions/:id/:action(pause|resume|delete)', requireManageToken, idValidators, updateManagedSubscription);
+router.post('/manage/:token/preferences', requireManageToken, preferencesValidators, updateManagedPreferences);
+router.post('/manage/:token/delete-all', requireManageToken, deleteAllManagedSubscriptions);
+
+export default router;
@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { param, query } from 'express-validator';
+import { getProductHistory } from '../controllers/product.controller';
+
+const router = Router();
+
+const historyValidators = [
+    param('id').isMongoId().withMessage('Invalid product or subscription id'),
+    query('from').optional().isISO8601().withMessage('from must be an ISO 8601 date'),
+    query('to').optional().isISO8601().withMessage('to must be an ISO 8601 date'),
+    query('interval')
+        .optional()
+        .isIn(['raw', 'hour', 'day', 'week'])
+        .withMessage('interval must be one of raw, hour, day, week'),
+];
+
+// Price history of the product watched by a subscription
+router.get('/products/:id/history', historyValidators, getProductHistory);
+
+export default router;
@@ -1,51 +1,115 @@
 import { Router } from 'express';
 import { body } from 'express-validator';
-import { subscribe, getAllSubscriptions, deleteSubscription } from '../controllers/subscription.controller';
+import {
+    subscribe,
+    confirmSubscription,
+    showUnsubscribe,
+    unsubscribe,
+    getAllSubscriptions,
+    deleteSubscription,
+} from '../controllers/subscription.controller';
+import { parseMoney, checkPriceText } from '../money';
+import { normalizeProductUrl } from '../utils';
+import { resolveLocale } from '../views/emails';
+import { requireAdmin, auditAdminAction } from '../middleware/adminAuth';
+import { validateChannelTarget } from '../channels';
+import { MAX_CHANNELS_PER_SUBSCRIPTION, MAX_COOLDOWN_HOURS } from '../config/constants';
 
 const router = Router();
 
 const subscribeValidators = [
     body('email').isEmail().normalizeEmail().withMessage('Invalid email'),
-    body('product.url').isURL().withMessage('Invalid product URL'),
-    body('product.name').notEmpty().isString().trim().escape().withMessage('Product name is required'),
+    body('product.url').isURL().withMessage('Invalid product URL')
+        // One canonical URL per product, so URL variants are detected as duplicates
+        .customSanitizer((value) => normalizeProductUrl(value)),
+    // Not escaped here: names are escaped when rendered into pages and emails
+    body('product.name').notEmpty().isString().trim().withMessage('Product name is required'),
+    body('product.image').optional({ values: 'falsy' }).isURL().withMessage('Invalid product image URL'),
+    // Sanitized before the price, which it makes optional
+    body('alert.backInStock')
+        .optional()
+        .isBoolean().withMessage('Back in stock must be true or false')
+        .toBoolean(),
     body('product.price')
+        // Sold-out products often show no price; a back-in-stock alert doesn't need one
+        .customSanitizer((value, { req }) =>
+            req.body?.alert?.backInStock === true && !String(value ?? '').trim() ? 'unknown' : value)
+        .if((value: string, { req }) => !(req.body?.alert?.backInStock === true && String(value).trim().toLowerCase() === 'unknown'))
         .notEmpty().withMessage('Product price is required')
         .isString().trim()
-        .custom((value) => {
-            // Reject "unknown" or invalid prices
-            if (value.toLowerCase() === 'unknown' || value.trim() === '') {
-                throw new Error('Unable to extract product price');
+        .custom(checkPriceText),
+    body('locale').optional().isString().customSanitizer((value) => resolveLocale(value)),
+    body('alert.targetPrice')
+        .optional()
+        .isFloat({ gt: 0 }).withMessage('Target price must be a positive number')
+        .toFloat()
+        .custom((value, { req }) => {
+            // A target at or above the current price would fire immediately
+            const current = parseMoney(req.body?.product?.price)?.amount;
+            if (current != null && value >= current) {
+                throw new Error('Target price must be below the current price');
             }
-
-            // Extract only digits from price
-            const digits = value.replace(/[^0-9]/g, '');
-
-            // Must have at least one digit
-            if (digits.length === 0) {
-                throw new Error('Price must contain at least one number');
-            }
-
-            // Digits cannot be only zeros
-            if (parseInt(digits, 10) === 0) {
-                throw new Error('Invalid price value');
-            }
-
-            // Price cannot be just punctuation
-            if (/^[^a-zA-Z0-9]+$/.test(value)) {
-                throw new Error('Price contains only symbols');
-            }
-
             return true;
         }),
+    body('alert.minDropPercent')
+        .optional()
+        .isFloat({ gt: 0, lt: 100 }).withMessage('Minimum drop percentage must be between 0 and 100')
+        .toFloat(),
+    body('alert.minDropAmount')
+        .optional()
+        .isFloat({ gt: 0 }).withMessage('Minimum drop amount must be a positive number')
+        .toFloat(),
+    body('alert.allTimeLow')
+        .optional()
+        .isBoolean().withMessage('All-time low must be true or false')
+        .toBoolean(),
+    body('alert.cooldownHours')
+        .optional()
+        .isInt({ min: 0, max: MAX_COOLDOWN_HOURS }).withMessage(`Cooldown must be between 0 and ${MAX_COOLDOWN_HOURS} hours`)
+        .toInt(),
+    body('alert.digest')
+        .optional()
+        .isIn(['daily', 'weekly']).withMessage('Digest must be daily or weekly'),
+    body('channels')
+        .optional()
+        .isArray({ min: 1, max: MAX_CHANNELS_PER_SUBSCRIPTION })
+        .withMessage(`Channels must be a list of 1 to ${MAX_CHANNELS_PER_SUBSCRIPTION} entries`)
+        .custom((channels: { type?: unknown; address?: unknown }[]) => {
+            for (const channel of channels) {
+                const problem = validateChannelTarget(channel?.type, channel?.address);
+                if (problem) throw new Error(problem);
+            }
+            return true;
+        })
+        .customSanitizer((channels: unknown) => Array.isArray(channels)
+            ? channels.map((channel) => ({ type: channel?.type, address: String(channel?.address ?? '').trim() }))
+            : channels),
+    // Shorthand for one webhook channel, so the same rules apply
+    body('webhook.url')
+        .optional()
+        .custom((url: unknown) => {
+            const problem = validateChannelTarget('webhook', url);
+            if (problem) throw new Error(problem);
+            return true;
+        })
+        .customSanitizer((url: unknown) => String(url).trim()),
 ];
 
 // Subscribe to price drop notifications
 router.post('/subscribe-price-drop', subscribeValidators, subscribe);
 
+// Confirm a pending subscription (link from the confirmation email)
+router.get('/subscriptions/confirm/:token', confirmSubscription);
+
+// Unsubscribe link from notification emails (GET shows a confirmation, POST unsubscribes,
+// including RFC 8058 one-click requests from mail clients)
+router.get('/unsubscribe/:token', showUnsubscribe);
+router.post('/unsubscribe/:token', unsubscribe);
+
 // Get all subscriptions (admin)
-router.get('/subscriptions', getAllSubscriptions);
+router.get('/subscriptions', requireAdmin('viewer'), auditAdminAction('list_subscriptions'), getAllSubscriptions);
 
 // Delete subscription (admin)
-router.delete('/subscriptions/:id', deleteSubscription);
+router.delete('/subscriptions/:id', requireAdmin('admin'), auditAdminAction('delete_subscription'), deleteSubscription);
 
 export default router;
@@ -0,0 +1,113 @@
+import { Router } from 'express';
+import { body, query } from 'express-validator';
+import {
+    requireWatchlistOwner,
+    listWatchlist,
+    addWatchlistItems,
+    removeWatchlistItems,
+    exportWatchlist,
+    updateWatchlistPreferences,
+    getWatchlistSummary,
+} from '../controllers/watchlist.controller';
+import { checkPriceText } from '../money';
+import { normalizeProductUrl, isValidTimeZone } from '../utils';
+import { SUPPORTED_LOCALES } from '../views/emails';
+import { MAX_WATCHLIST_BULK, MAX_COOLDOWN_HOURS } from '../config/constants';
+
+const router = Router();
+
+const addValidators = [
+    body('products')
+        .isArray({ min: 1, max: MAX_WATCHLIST_BULK })
+        .withMessage(`Products must be a list of 1 to ${MAX_WATCHLIST_BULK} products`),
+    // Same rules as /subscribe-price-drop
+    body('products.*.url').isURL().withMessage('Invalid product URL')
+        .customSanitizer((value) => normalizeProductUrl(value)),
+    body('products.*.name').notEmpty().isString().trim().withMessage('Product name is required'),
+    body('products.*.image').optional({ values: 'falsy' }).isURL().withMessage('Invalid product image URL'),
+    body('products.*.price')
+        .notEmpty().withMessage('Product price is required')
+        .isString().trim()
+        .custom(checkPriceText),
+];
+
+const removeValidators = [
+    body('ids')
+        .isArray({ min: 1, max: MAX_WATCHLIST_BULK })
+        .withMessage(`Ids must be a list of 1 to ${MAX_WATCHLIST_BULK} subscription ids`),
+    body('ids.*').isMongoId().withMessage('Invalid subscription id'),
+];
+
+const preferencesValidators = [
+    body('locale')
+        .optional()
+        .isIn(SUPPORTED_LOCALES).withMessage(`Locale must be one of: ${SUPPORTED_LOCALES.join(', ')}`),
+    body('timezone')
+        .optional()
+        .isString()
+        .custom((value: string) => isValidTimeZone(value)).withMessage('Unknown time zone (use a name such as Europe/Paris)'),
+    // null turns quiet hours off
+    body('quietHours')
+        .optional({ values: 'null' })
+        .isObject().withMessage('Quiet hours must be { start, end } or null')
+        .custom((value: { start?: unknown; end?: unknown }) => {
+            const { start, end } = value;
+            if (!Number.isInteger(start) || !Number.isInteger(end)
+                || (start as number) < 0 || (start as number) > 23 || (end as number) < 0 || (end as number) > 23) {
+                throw new Error('Quiet hours start and end must be whole hours between 0 and 23');
+            }
+            if (start === end) {
+                throw new Error('Quiet hours need a different start and end hour');
+            }
+            return true;
+        })
+        .customSanitizer((value) => value && { start: value.start, end: value.end }),
+    // null clears the default rules
+    body('defaultAlert')
+        .optional({ values: 'null' })
+        .isObject().withMessage('Default alert must be an object or null'),
+    body('defaultAlert.targetPrice')
+        .optional()
+        .isFloat({ gt: 0 }).withMessage('Target price must be a positive number')
+        .toFloat(),
+    body('defaultAlert.minDropPercent')
+        .optional()
+        .isFloat({ gt: 0, lt: 100 }).withMessage('Minimum drop percentage must be between 0 and 100')
+        .toFloat(),
+    body('defaultAlert.minDropAmount')
+        .optional()
+        .isFloat({ gt: 0 }).withMessage('Minimum drop amount must be a positive number')
+        .toFloat(),
+    body('defaultAlert.backInStock')
+        .optional()
+        .isBoolean().withMessage('Back in stock must be true or false')
+        .toBoolean(),
+    body('defaultAlert.allTimeLow')
+        .optional()
+        .isBoolean().withMessage('All-time low must be true or false')
+        .toBoolean(),
+    body('defaultAlert.cooldownHours')
+        .optional()
+        .isInt({ min: 0, max: MAX_COOLDOWN_HOURS }).withMessage(`Cooldown must be between 0 and ${MAX_COOLDOWN_HOURS} hours`)
+        .toInt(),
+    body('defaultAlert.digest')
+        .optional()
+        .isIn(['daily', 'weekly']).withMessage('Digest must be daily or weekly'),
+];
+
+// Watchlist of the subscriber a manage magic link belongs to (JSON)
+router.get('/manage/:token/watchlist', requireWatchlistOwner, listWatchlist);
+router.post('/manage/:token/watchlist', requireWatchlistOwner, addValidators, addWatchlistItems);
+router.post('/manage/:token/watchlist/remove', requireWatchlistOwner, removeValidators, removeWatchlistItems);
+router.get(
+    '/manage/:token/watchlist/export',
+    requireWatchlistOwner,
+    [query('format').optional().isIn(['csv', 'json']).withMessage('Format must be csv or json')],
+    exportWatchlist,
+);
+router.put('/manage/:token/watchlist/preferences', requireWatchlistOwner, preferencesValidators, updateWatchlistPreferences);
+
+// Number of watched products, for the widget (watchlist token)
+router.get('/watchlist/summary', getWatchlistSummary);
+
+export default router;
@@ -0,0 +1,70 @@
+/**
+ * Command-line management of admin API keys.
+ *
+ * Usage:
+ *   npm run admin:keys -- create <name> [--role viewer|admin]
+ *   npm run admin:keys -- list
+ *   npm run admin:keys -- revoke <id|prefix>
+ */
+import 'dotenv/config';
+import { connectDatabase, disconnectDatabase } from '../config/database';
+import { AdminRole } from '../models/AdminKey.model';
+import { createAdminKey, listAdminKeys, revokeAdminKey } from '../services/adminAuth.service';
+
+const USAGE = 'Usage: admin-keys create <name> [--role viewer|admin] | list | revoke <id|prefix>';
+
+async function run(args: string[]): Promise<number> {
+    const [command, ...rest] = args;
+
+    switch (command) {
+        case 'create': {
+            const roleIndex = rest.indexOf('--role');
+            const role = (roleIndex >= 0 ? rest[roleIndex + 1] : 'admin') as AdminRole;
+            const name = rest.filter((_, i) => roleIndex < 0 || (i !== roleIndex && i !== roleIndex + 1)).join(' ');
+
+            if (!name || (role !== 'admin' && role !== 'viewer')) {
+                console.error(USAGE);
+                return 1;
+            }
+
+            const { key, doc } = await createAdminKey(name, role);
+            console.log(`✓ Created ${role} key "${doc.name}" (id ${doc._id})`);
+            console.log(`  ${key}`);
+            console.log('  Store it now: the key cannot be shown again.');
+            return 0;
+        }
+        case 'list': {
+            const keys = await listAdminKeys();
+            if (keys.length === 0) {
+                console.log('No admin keys.');
+            }
+            for (const key of keys) {
+                const status = key.revokedAt ? `revoked ${key.revokedAt.toISOString()}` : 'active';
+                const lastUsed = key.lastUsedAt ? key.lastUsedAt.toISOString() : 'never';
+                console.log(`${key._id}  ${key.prefix}…  ${key.role.padEnd(6)}  ${status}  last used ${lastUsed}  ${key.name}`);
+            }
+            return 0;
+        }
+        case 'revoke': {
+            if (!rest[0]) {
+                console.error(USAGE);
+                return 1;
+            }
+            const key = await revokeAdminKey(rest[0]);
+            if (!key) {
+                console.error(`✗ No active key matches "${rest[0]}"`);
+                return 1;
+            }
+            console.log(`✓ Revoked key "${key.name}" (${key.prefix}…)`);
+            return 0;
+        }
+        default:
+            console.error(USAGE);
+            return 1;
+    }
+}
+
+await connectDatabase();
+const exitCode = await run(process.argv.slice(2));
+await disconnectDatabase();
+process.exit(exitCode);
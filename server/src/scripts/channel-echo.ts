@@ -0,0 +1,111 @@
+/**
+ * Local stand-in for the HTTP notification channels: a webhook receiver,
+ * a Slack or Discord incoming webhook, and the Telegram Bot API
+ * (`POST /bot<token>/sendMessage`). Prints every request, checks webhook
+ * signatures when given the channel's secret (the same check a real
+ * receiver should make), and can fail the first requests to exercise the
+ * retries.
+ *
+ * Usage:
+ *   npm run channel:echo -- [--port 8898] [--secret whsec_...] [--fail <n>]
+ * then start the server with WEBHOOK_ALLOWED_HOSTS=127.0.0.1 (channels only
+ * reach private addresses on that list), subscribe with channels such as
+ *   { "type": "webhook", "address": "http://127.0.0.1:8898/hook" }
+ *   { "type": "slack", "address": "http://127.0.0.1:8898/slack" }
+ * and set TELEGRAM_API_URL=http://127.0.0.1:8898 for `telegram` channels.
+ */
+import http from 'http';
+import { createHmac, timingSafeEqual } from 'crypto';
+
+const USAGE = 'Usage: channel-echo [--port <port>] [--secret <secret>] [--fail <n>]';
+
+/** Reject signatures older than this, like a receiver guarding against replays */
+const MAX_SIGNATURE_AGE_S = 5 * 60;
+
+function option(args: string[], name: string): string | undefined {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+}
+
+const args = process.argv.slice(2);
+const port = Number(option(args, '--port') ?? 8898);
+const secret = option(args, '--secret');
+let failuresLeft = Number(option(args, '--fail') ?? 0);
+
+if (!Number.isInteger(port) || port <= 0 || !Number.isInteger(failuresLeft) || failuresLeft < 0
+    || (args.includes('--secret') && !secret)) {
+    console.error(USAGE);
+    process.exit(1);
+}
+
+/**
+ * Check an `X-PriceDrop-Signature: t=<unix>,v1=<hex>` header against the
+ * raw body.
+ * @returns Why the signature is rejected, or null when it is valid
+ */
+function checkSignature(header: string | undefined, body: string, key: string): string | null {
+    const parts = Object.fromEntries((header ?? '').split(',').map((part) => part.split('=', 2)));
+    const timestamp = Number(parts.t);
+    if (!parts.t || !parts.v1 || !Number.isInteger(timestamp)) {
+        return 'missing or malformed signature header';
+    }
+    if (Math.abs(Date.now() / 1000 - timestamp) > MAX_SIGNATURE_AGE_S) {
+        return 'signature timestamp too old';
+    }
+    const expected = createHmac('sha256', key).update(`${timestamp}.${body}`).digest();
+    const actual = Buffer.from(parts.v1, 'hex');
+    return actual.length === expected.length && timingSafeEqual(actual, expected) ? null : 'signature mismatch';
+}
+
+let requests = 0;
+
+const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+        const body = Buffer.concat(chunks).toString('utf8');
+        const telegram = /^\/bot[^/]+\/sendMessage$/.test(req.url ?? '');
+        const event = req.headers['x-pricedrop-event'];
+        const kind = telegram ? 'telegram' : event ? `webhook event=${event}` : 'chat webhook';
+        console.log(`📨 #${++requests} ${req.method} ${telegram ? '/bot<token>/sendMessage' : req.url} (${kind})`);
+
+        // Only webhook requests are signed
+        if (secret && event) {
+            const problem = checkSignature(req.headers['x-pricedrop-signature'] as string | undefined, body, secret);
+            if (problem) {
+                console.log(`🔒 401: ${problem}`);
+                res.writeHead(401).end(problem);
+                return;
+            }
+            console.log('✓ Signature valid');
+        }
+
+        try {
+            console.log(JSON.stringify(JSON.parse(body), null, 2));
+        } catch {
+            console.log(body);
+        }
+
+        if (failuresLeft > 0) {
+            failuresLeft--;
+            console.log(`❌ Answering 500 (${failuresLeft} more failures)`);
+            res.writeHead(500).end('simulated failure');
+            return;
+        }
+        if (telegram) {
+            // Shape of a Bot API success
+            res.writeHead(200, { 'Content-Type': 'application/json' })
+                .end(JSON.stringify({ ok: true, result: { message_id: requests } }));
+            return;
+        }
+        res.writeHead(200, { 'Content-Type': 'text/plain' }).end('ok');
+    });
+});
+
+server.listen(port, '127.0.0.1', () => {
+    console.log(`📨 Channel echo server listening on http://127.0.0.1:${port}/${secret ? ' (checking webhook signatures)' : ''}`);
+});
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.on(signal, () => process.exit(0));
+}
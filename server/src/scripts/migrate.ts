@@ -0,0 +1,24 @@
+/**
+ * Run data migrations. They also run on server startup; use this to
+ * migrate ahead of a deploy.
+ *
+ * Usage:
+ *   npm run migrate
+ */
+import 'dotenv/config';
+import { connectDatabase, disconnectDatabase } from '../config/database';
+import { runMigrations } from '../migrations';
+
+await connectDatabase();
+let exitCode = 0;
+try {
+    const results = await runMigrations();
+    for (const [name, changed] of Object.entries(results)) {
+        console.log(`${name}: ${changed} records migrated`);
+    }
+} catch (error) {
+    console.error('✗ Migration failed:', error);
+    exitCode = 1;
+}
+await disconnectDatabase();
+process.exit(exitCode);
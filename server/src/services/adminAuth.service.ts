@@ -0,0 +1,144 @@
+/**
+ * Admin authentication service
+ *
+ * Admin API keys are random `pdn_` strings; only their SHA-256 hash is stored
+ * (keys are high-entropy, so a slow password hash is not needed). A key can
+ * be used directly as a bearer token or exchanged for a short-lived signed
+ * session token. Revoking a key also invalidates its sessions because every
+ * session lookup re-reads the key.
+ */
+import { createHash, randomBytes } from 'crypto';
+import { AdminKey, AdminRole, IAdminKey } from '../models/AdminKey.model';
+import { AuditLog } from '../models/AuditLog.model';
+import { signToken, verifyToken } from '../tokens';
+import { ADMIN_SESSION_TTL_MS } from '../config/constants';
+
+const KEY_PREFIX = 'pdn_';
+
+/** Roles ordered from least to most privileged */
+const ROLE_RANK: Record<AdminRole, number> = {
+    viewer: 0,
+    admin: 1,
+};
+
+function hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Whether a role grants at least the privileges of another.
+ */
+export function hasRole(role: AdminRole, required: AdminRole): boolean {
+    return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Create a new admin API key.
+ * @returns The stored key document and the plaintext key, which cannot be
+ * recovered later
+ */
+export async function createAdminKey(name: string, role: AdminRole = 'admin') {
+    const key = KEY_PREFIX + randomBytes(24).toString('base64url');
+    const doc = await AdminKey.create({
+        name,
+        role,
+        prefix: key.slice(0, KEY_PREFIX.length + 6),
+        keyHash: hashKey(key),
+    });
+    return { key, doc };
+}
+
+/**
+ * Revoke an admin key by id or prefix.
+ * @returns The revoked key, or null when no active key matches
+ */
+export async function revokeAdminKey(idOrPrefix: string): Promise<IAdminKey | null> {
+    const filter = /^[a-f0-9]{24}$/i.test(idOrPrefix)
+        ? { _id: idOrPrefix }
+        : { prefix: idOrPrefix };
+    return AdminKey.findOneAndUpdate(
+        { ...filter, revokedAt: { $exists: false } },
+        { $set: { revokedAt: new Date() } },
+        { new: true },
+    );
+}
+
+/**
+ * List all admin keys, newest first (hashes excluded).
+ */
+export async function listAdminKeys() {
+    return AdminKey.find().select('-keyHash').sort({ createdAt: -1 }).lean();
+}
+
+/**
+ * Resolve a plaintext API key to its active key document.
+ */
+export async function authenticateApiKey(key: string): Promise<IAdminKey | null> {
+    if (!key.startsWith(KEY_PREFIX)) return null;
+
+    const doc = await AdminKey.findOne({ keyHash: hashKey(key), revokedAt: { $exists: false } });
+    if (doc) {
+        doc.lastUsedAt = new Date();
+        await doc.save();
+    }
+    return doc;
+}
+
+/**
+ * Resolve a bearer credential (API key or session token) to its active key.
+ */
+export async function authenticateCredential(credential: string): Promise<IAdminKey | null> {
+    if (credential.startsWith(KEY_PREFIX)) {
+        return authenticateApiKey(credential);
+    }
+
+    const keyId = verifyToken(credential, 'admin');
+    if (!keyId) return null;
+    return AdminKey.findOne({ _id: keyId, revokedAt: { $exists: false } });
+}
+
+/**
+ * Issue a session token for an authenticated key.
+ */
+export function createAdminSession(key: IAdminKey) {
+    return {
+        token: signToken('admin', String(key._id), ADMIN_SESSION_TTL_MS),
+        expiresAt: new Date(Date.now() + ADMIN_SESSION_TTL_MS),
+    };
+}
+
+export interface AuditEntry {
+    action: string;
+    key?: IAdminKey;
+    method: string;
+    path: string;
+    ip?: string;
+    statusCode: number;
+}
+
+/**
+ * Append an entry to the admin audit log. Failures are logged, never thrown,
+ * so auditing cannot break the request it describes.
+ */
+export async function recordAudit(entry: AuditEntry) {
+    try {
+        await AuditLog.create({
+            action: entry.action,
+            actorKeyId: entry.key?._id,
+            actorName: entry.key?.name,
+            method: entry.method,
+            path: entry.path,
+            ip: entry.ip,
+            statusCode: entry.statusCode,
+        });
+    } catch (error) {
+        console.error('✗ Failed to write audit log:', error);
+    }
+}
+
+/**
+ * Most recent audit log entries, newest first.
+ */
+export async function getAuditLog(limit = 100) {
+    return AuditLog.find().sort({ createdAt: -1 }).limit(limit).lean();
+}
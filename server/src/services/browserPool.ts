@@ -0,0 +1,329 @@
+/**
+ * Headless browser pool
+ *
+ * Keeps up to BROWSER_POOL_SIZE stealth Chrome instances alive between
+ * scrapes instead of launching one per page. Each browser serves up to
+ * BROWSER_PAGES_PER_BROWSER pages at once; extra requests wait in a queue.
+ * Pages are reused and recycled after BROWSER_PAGE_MAX_USES navigations,
+ * browsers that crash or disconnect are dropped and relaunched on demand,
+ * and the whole pool shuts down after BROWSER_IDLE_TIMEOUT_MS without work.
+ * Chrome takes one proxy per instance, so each browser is launched for one
+ * proxy (or none) and only serves pages for it; when the pool is full of
+ * browsers for other proxies, an idle one is closed to make room.
+ */
+import puppeteer from 'puppeteer-extra';
+import StealthPlugin from 'puppeteer-extra-plugin-stealth';
+import type { Browser, Page } from 'puppeteer';
+import { existsSync, readdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import {
+    BROWSER_POOL_SIZE,
+    BROWSER_PAGES_PER_BROWSER,
+    BROWSER_PAGE_MAX_USES,
+    BROWSER_IDLE_TIMEOUT_MS,
+} from '../config/constants';
+import type { ProxyServer } from './proxyPool';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Enable stealth plugin
+puppeteer.use(StealthPlugin());
+
+// Find Chrome executable in project directory
+function findChromeExecutable(): string | undefined {
+    // Check environment variable first
+    if (process.env.PUPPETEER_EXECUTABLE_PATH && existsSync(process.env.PUPPETEER_EXECUTABLE_PATH)) {
+        return process.env.PUPPETEER_EXECUTABLE_PATH;
+    }
+
+    // Check project chrome directory (Windows layout: chrome/win64-*/chrome-win64/chrome.exe)
+    const projectRoot = join(__dirname, '..', '..', '..');
+    const chromeDir = join(projectRoot, 'chrome');
+    if (existsSync(chromeDir)) {
+        const versions = readdirSync(chromeDir).filter((f) => f.startsWith('win64-'));
+        if (versions.length > 0) {
+            const chromePath = join(chromeDir, versions[0], 'chrome-win64', 'chrome.exe');
+            if (existsSync(chromePath)) {
+                console.log('✅ Found Chrome at:', chromePath);
+                return chromePath;
+            }
+        }
+    }
+
+    // Fallback to system Chrome
+    console.log('⚠️ Chrome not found in project directory, will use system Chrome');
+    return undefined;
+}
+
+interface PooledPage {
+    page: Page;
+    /** Navigations served so far */
+    uses: number;
+}
+
+interface PooledBrowser {
+    id: number;
+    browser: Browser;
+    /** Proxy every page of this browser goes through, null for direct */
+    proxy: ProxyServer | null;
+    launchedAt: Date;
+    /** Pages currently lent out */
+    activePages: number;
+    /** Open pages waiting to be reused */
+    idlePages: PooledPage[];
+}
+
+/** Snapshot of the pool reported by /health */
+export interface BrowserPoolStats {
+    browsers: number;
+    maxBrowsers: number;
+    pagesPerBrowser: number;
+    activePages: number;
+    idlePages: number;
+    queued: number;
+    launches: number;
+    crashes: number;
+    pagesServed: number;
+    lastUsedAt: string | null;
+}
+
+const browsers: PooledBrowser[] = [];
+const waiters: (() => void)[] = [];
+let launching = 0;
+let nextBrowserId = 1;
+let idleTimer: NodeJS.Timeout | null = null;
+let closed = false;
+
+const counters = { launches: 0, crashes: 0, pagesServed: 0 };
+let lastUsedAt: Date | null = null;
+
+async function launchBrowser(proxy: ProxyServer | null): Promise<PooledBrowser> {
+    const chromePath = findChromeExecutable();
+    console.log('🤖 Launching pooled browser:', chromePath || 'system default', proxy ? `via ${proxy.id}` : '');
+
+    const args = [
+        '--no-sandbox',
+        '--disable-setuid-sandbox',
+        '--disable-dev-shm-usage',
+        '--disable-accelerated-2d-canvas',
+        '--disable-gpu',
+        '--window-size=1920,1080',
+    ];
+    if (proxy) {
+        // Chrome bypasses proxies for localhost unless told otherwise (local test proxies)
+        args.push(`--proxy-server=${proxy.id}`, '--proxy-bypass-list=<-loopback>');
+    }
+
+    const browser = await puppeteer.launch({
+        headless: true,
+        executablePath: chromePath,
+        args,
+    });
+
+    const pooled: PooledBrowser = {
+        id: nextBrowserId++,
+        browser,
+        proxy,
+        launchedAt: new Date(),
+        activePages: 0,
+        idlePages: [],
+    };
+    counters.launches++;
+
+    // Crash detection: drop the browser so the next request launches a fresh one
+    browser.on('disconnected', () => {
+        const index = browsers.indexOf(pooled);
+        if (index === -1) return; // closed by the pool
+        browsers.splice(index, 1);
+        counters.crashes++;
+        console.warn(`💥 Browser #${pooled.id} disconnected unexpectedly, it will be relaunched on demand`);
+        wakeWaiter();
+    });
+
+    return pooled;
+}
+
+/** Close a browser the pool no longer wants, ignoring errors from dead ones */
+async function closeBrowser(pooled: PooledBrowser) {
+    const index = browsers.indexOf(pooled);
+    if (index !== -1) browsers.splice(index, 1);
+    try {
+        await pooled.browser.close();
+        console.log(`🤖 Browser #${pooled.id} closed`);
+    } catch {
+        // Already gone
+    }
+}
+
+function wakeWaiter() {
+    waiters.shift()?.();
+}
+
+/**
+ * Reserve a page slot on the least busy browser using the given proxy,
+ * launching a browser when the pool has room (closing an idle browser of
+ * another proxy if needed), or waiting for a slot to free up otherwise.
+ */
+async function acquireBrowser(proxy: ProxyServer | null): Promise<PooledBrowser> {
+    for (;;) {
+        if (closed) {
+            throw new Error('Browser pool is closed');
+        }
+
+        const available = browsers
+            .filter((b) => b.browser.connected
+                && b.proxy?.id === proxy?.id
+                && b.activePages < BROWSER_PAGES_PER_BROWSER)
+            .sort((a, b) => a.activePages - b.activePages)[0];
+        if (available) {
+            available.activePages++;
+            return available;
+        }
+
+        if (browsers.length + launching >= BROWSER_POOL_SIZE) {
+            const idle = browsers.find((b) => b.activePages === 0 && b.proxy?.id !== proxy?.id);
+            if (idle) {
+                await closeBrowser(idle);
+            }
+        }
+
+        if (browsers.length + launching < BROWSER_POOL_SIZE) {
+            launching++;
+            try {
+                const launched = await launchBrowser(proxy);
+                if (closed) {
+                    // The pool shut down during the launch: don't leave Chrome running
+                    await closeBrowser(launched);
+                    throw new Error('Browser pool is closed');
+                }
+                browsers.push(launched);
+                // Requests queued during the launch can use its other page slots
+                for (let i = 1; i < BROWSER_PAGES_PER_BROWSER; i++) wakeWaiter();
+            } catch (error) {
+                // Let the next waiter try its own launch
+                wakeWaiter();
+                throw error;
+            } finally {
+                launching--;
+            }
+            continue;
+        }
+
+        await new Promise<void>((resolve) => waiters.push(resolve));
+    }
+}
+
+async function takePage(pooled: PooledBrowser): Promise<PooledPage> {
+    while (pooled.idlePages.length > 0) {
+        const idle = pooled.idlePages.pop()!;
+        if (!idle.page.isClosed()) return idle;
+    }
+    return { page: await pooled.browser.newPage(), uses: 0 };
+}
+
+/**
+ * Return a page to its browser. Pages that failed, crashed or reached
+ * BROWSER_PAGE_MAX_USES are closed; others are blanked and kept for reuse.
+ */
+async function releasePage(pooled: PooledBrowser, pooledPage: PooledPage | null, failed: boolean) {
+    if (pooledPage) {
+        pooledPage.uses++;
+        const reusable = !failed
+            && !closed
+            && pooled.browser.connected
+            && !pooledPage.page.isClosed()
+            && pooledPage.uses < BROWSER_PAGE_MAX_USES;
+
+        let kept = false;
+        if (reusable) {
+            try {
+                await pooledPage.page.goto('about:blank');
+                pooled.idlePages.push(pooledPage);
+                kept = true;
+            } catch {
+                // Fall through to closing it
+            }
+        }
+        if (!kept) {
+            await pooledPage.page.close().catch(() => undefined);
+        }
+    }
+
+    pooled.activePages--;
+    lastUsedAt = new Date();
+    scheduleIdleShutdown();
+    wakeWaiter();
+}
+
+/** Close every browser once the pool has been idle for BROWSER_IDLE_TIMEOUT_MS */
+function scheduleIdleShutdown() {
+    if (idleTimer) clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => {
+        idleTimer = null;
+        const busy = browsers.some((b) => b.activePages > 0) || launching > 0;
+        if (busy || browsers.length === 0) return;
+        console.log(`🤖 Browser pool idle for ${BROWSER_IDLE_TIMEOUT_MS / 1000}s, closing ${browsers.length} browser(s)`);
+        for (const pooled of [...browsers]) {
+            void closeBrowser(pooled);
+        }
+    }, BROWSER_IDLE_TIMEOUT_MS);
+    // Never keep the process alive just to shut browsers down
+    idleTimer.unref();
+}
+
+/**
+ * Run a task with a page from the pool, going through the given proxy
+ * (direct when null). The page is returned to the pool afterwards (or
+ * recycled when the task threw), so tasks must not close it.
+ */
+export async function withPage<T>(task: (page: Page) => Promise<T>, proxy: ProxyServer | null = null): Promise<T> {
+    const pooled = await acquireBrowser(proxy);
+    let pooledPage: PooledPage | null = null;
+    let failed = true;
+    try {
+        pooledPage = await takePage(pooled);
+        if (proxy?.username) {
+            await pooledPage.page.authenticate({ username: proxy.username, password: proxy.password ?? '' });
+        }
+        counters.pagesServed++;
+        const result = await task(pooledPage.page);
+        failed = false;
+        return result;
+    } finally {
+        await releasePage(pooled, pooledPage, failed);
+    }
+}
+
+/**
+ * Pool statistics for monitoring.
+ */
+export function getBrowserPoolStats(): BrowserPoolStats {
+    return {
+        browsers: browsers.length,
+        maxBrowsers: BROWSER_POOL_SIZE,
+        pagesPerBrowser: BROWSER_PAGES_PER_BROWSER,
+        activePages: browsers.reduce((sum, b) => sum + b.activePages, 0),
+        idlePages: browsers.reduce((sum, b) => sum + b.idlePages.length, 0),
+        queued: waiters.length,
+        launches: counters.launches,
+        crashes: counters.crashes,
+        pagesServed: counters.pagesServed,
+        lastUsedAt: lastUsedAt?.toISOString() ?? null,
+    };
+}
+
+/**
+ * Close every browser and reject further work. Called on shutdown.
+ */
+export async function closeBrowserPool() {
+    closed = true;
+    if (idleTimer) {
+        clearTimeout(idleTimer);
+        idleTimer = null;
+    }
+    // Queued requests see `closed` and fail
+    while (waiters.length > 0) wakeWaiter();
+    await Promise.all([...browsers].map(closeBrowser));
+}
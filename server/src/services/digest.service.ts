@@ -0,0 +1,154 @@
+/**
+ * Digest service
+ *
+ * Subscriptions with `alert.digest` collect their price drops instead of
+ * being notified of each one. queueDigestItem() keeps one DigestItem per
+ * subscription and queues a `send-digest` job for the subscriber address at
+ * the next digest time (DIGEST_HOUR_UTC every day, or every Monday for
+ * weekly digests). The worker runs sendDigest(), which claims all of the
+ * address's drops for one `digest` Notification on the email channel,
+ * stores it and deletes them; the dispatcher delivers it like any other
+ * notification, with retries, an attempt log and admin resends.
+ */
+import mongoose from 'mongoose';
+import { Subscription, ISubscription, ACTIVE_SUBSCRIPTION } from '../models/Subscription.model';
+import { IProduct } from '../models/Product.model';
+import { DigestItem } from '../models/DigestItem.model';
+import { Notification } from '../models/Notification.model';
+import { enqueueDigest } from './jobQueue.service';
+import { dispatchDigest } from './dispatcher.service';
+import { DigestFrequency } from '../types';
+import { DIGEST_HOUR_UTC } from '../config/constants';
+
+/**
+ * Next time a digest of this frequency goes out: DIGEST_HOUR_UTC today or
+ * tomorrow for daily digests, the next Monday at that hour for weekly ones.
+ */
+export function nextDigestAt(frequency: DigestFrequency, from: Date = new Date()): Date {
+    const next = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate(), DIGEST_HOUR_UTC));
+    if (next <= from) {
+        next.setUTCDate(next.getUTCDate() + 1);
+    }
+    if (frequency === 'weekly') {
+        // Days until Monday (getUTCDay() === 1)
+        next.setUTCDate(next.getUTCDate() + ((8 - next.getUTCDay()) % 7));
+    }
+    return next;
+}
+
+/**
+ * Add a price drop to the subscriber's next digest. A subscription has at
+ * most one drop waiting: a further drop updates its new price and keeps the
+ * price the first one started from.
+ * @param sub - The subscription
+ * @param product - The product whose price dropped
+ * @param frequency - The subscription's `alert.digest`
+ * @param oldPrice - Price the drop is measured from
+ * @param newPrice - Newly observed price
+ * @param currency - ISO currency of both prices
+ */
+export async function queueDigestItem(
+    sub: ISubscription,
+    product: IProduct,
+    frequency: DigestFrequency,
+    oldPrice: number,
+    newPrice: number,
+    currency: string | null
+): Promise<void> {
+    await DigestItem.updateOne(
+        { subscriptionId: sub._id },
+        {
+            $setOnInsert: { oldPrice },
+            $set: {
+                email: sub.email,
+                frequency,
+                productId: product._id,
+                product: {
+                    name: sub.product.name,
+                    url: sub.product.url,
+                    image: sub.product.image ?? product.image,
+                },
+                locale: sub.locale,
+                newPrice,
+                currency,
+            },
+            // A digest that claimed the older drop leaves this one for the next
+            $unset: { notificationId: 1 },
+        },
+        { upsert: true }
+    );
+    await enqueueDigest(sub.email, frequency, nextDigestAt(frequency));
+}
+
+/**
+ * Queue the digest email of the waiting price drops of a subscriber address
+ * (run by the worker for `send-digest` jobs). Drops of subscriptions
+ * paused, deleted or expired meanwhile are discarded.
+ *
+ * The drops are claimed with the id of the digest notification before it is
+ * stored, and deleted by that id afterwards. A retry after a crash deletes
+ * the drops whose notification was stored, and claims the others again, so
+ * no drop is sent twice.
+ * @param email - Subscriber address
+ * @param frequency - Which of the address's digests to send
+ * @returns Result stored on the completed job
+ */
+export async function sendDigest(email: string, frequency: DigestFrequency): Promise<Record<string, unknown>> {
+    // Drops of a digest stored by an attempt that stopped before deleting them
+    const claimedIds = await DigestItem.distinct('notificationId', { email, frequency, notificationId: { $exists: true } });
+    if (claimedIds.length > 0) {
+        const storedIds = await Notification.distinct('_id', { _id: { $in: claimedIds } });
+        await DigestItem.deleteMany({ notificationId: { $in: storedIds } });
+    }
+
+    const items = await DigestItem.find({ email, frequency }).sort({ createdAt: 1 });
+    if (items.length === 0) {
+        return { skipped: 'no_items' };
+    }
+
+    const activeIds = new Set((await Subscription.distinct('_id', {
+        _id: { $in: items.map((item) => item.subscriptionId) },
+        ...ACTIVE_SUBSCRIPTION,
+    })).map(String));
+    const stale = items.filter((item) => !activeIds.has(String(item.subscriptionId)));
+    const due = items.filter((item) => activeIds.has(String(item.subscriptionId)));
+
+    if (stale.length > 0) {
+        await DigestItem.deleteMany({ _id: { $in: stale.map((item) => item._id) } });
+    }
+    if (due.length === 0) {
+        return { skipped: 'no_active_subscriptions', discarded: stale.length };
+    }
+
+    // Claimed without touching updatedAt; a drop coming in meanwhile unclaims its item
+    const notificationId = new mongoose.Types.ObjectId();
+    await DigestItem.updateMany(
+        { _id: { $in: due.map((item) => item._id) } },
+        { $set: { notificationId } },
+        { timestamps: false }
+    );
+    const claimed = await DigestItem.find({ notificationId }).sort({ createdAt: 1 });
+    if (claimed.length === 0) {
+        return { skipped: 'no_items', discarded: stale.length };
+    }
+
+    await dispatchDigest(email, {
+        frequency,
+        locale: claimed[claimed.length - 1].locale,
+        items: claimed.map((item) => ({
+            subscriptionId: String(item.subscriptionId),
+            product: {
+                name: item.product.name,
+                url: item.product.url,
+                image: item.product.image ?? null,
+            },
+            oldPrice: item.oldPrice,
+            newPrice: item.newPrice,
+            currency: item.currency ?? null,
+        })),
+    }, notificationId);
+
+    await DigestItem.deleteMany({ notificationId });
+    console.log(`📬 Queued ${frequency} digest with ${claimed.length} price drops to ${email}`);
+    return { queued: claimed.length, discarded: stale.length, notificationId: String(notificationId) };
+}
@@ -0,0 +1,258 @@
+/**
+ * Notification dispatcher
+ *
+ * Sends notifications on every channel of a subscription (see channels/).
+ * Each notification is stored once per channel as a Notification with the
+ * channel-neutral content, and delivered by a `deliver-notification` job:
+ * the worker hands the content to the channel, which formats and sends it,
+ * and the outcome is recorded as an attempt. A failed attempt fails the
+ * job, which the job queue retries with exponential backoff up to
+ * NOTIFICATION_MAX_ATTEMPTS times, so one channel being down never holds
+ * up the others. Digest emails (see digest.service.ts) are stored and
+ * delivered the same way. Admins can resend failed (or delivered)
+ * notifications with a new round of attempts.
+ */
+import path from 'path';
+import mongoose from 'mongoose';
+import { Subscription, ISubscription, getSubscriptionChannels } from '../models/Subscription.model';
+import { IProduct } from '../models/Product.model';
+import { Notification, INotification, NotificationStatus } from '../models/Notification.model';
+import { enqueueNotificationDelivery } from './jobQueue.service';
+import {
+    getChannel,
+    sendDigestContent,
+    ChannelTarget,
+    ChannelType,
+    DigestContent,
+    NotificationContent,
+    NotificationEvent,
+    NotificationEventData,
+} from '../channels';
+
+/** Filters of the admin notification list and bulk resend */
+export interface NotificationFilter {
+    subscriptionId?: string;
+    productId?: string;
+    channel?: ChannelType;
+    event?: NotificationEvent;
+    status?: NotificationStatus;
+    /** Only notifications created at or after this date */
+    since?: Date;
+}
+
+/** Max notifications one bulk resend queues */
+const MAX_BULK_RESEND = 1000;
+
+/**
+ * Whether a transport reference can be opened to look at the email: an
+ * Ethereal preview URL or an outbox .eml file (SMTP message ids can't).
+ */
+function isPreviewReference(reference: string): boolean {
+    return /^https?:\/\//.test(reference) || path.isAbsolute(reference);
+}
+
+function toQuery(filter: NotificationFilter) {
+    return {
+        ...(filter.subscriptionId ? { subscriptionId: filter.subscriptionId } : {}),
+        ...(filter.productId ? { productId: filter.productId } : {}),
+        ...(filter.channel ? { channel: filter.channel } : {}),
+        ...(filter.event ? { event: filter.event } : {}),
+        ...(filter.status ? { status: filter.status } : {}),
+        ...(filter.since ? { createdAt: { $gte: filter.since } } : {}),
+    };
+}
+
+/**
+ * Store a notification for each channel of a subscription and queue their
+ * delivery.
+ * @param sub - The subscription to notify
+ * @param product - The product the notification is about
+ * @param data - Event name and event-specific fields
+ * @returns Number of channels the notification was queued on
+ */
+export async function dispatchNotification(sub: ISubscription, product: IProduct, data: NotificationEventData): Promise<number> {
+    const targets = getSubscriptionChannels(sub);
+    const createdAt = new Date();
+
+    for (const target of targets) {
+        const _id = new mongoose.Types.ObjectId();
+        const content: NotificationContent = {
+            ...data,
+            id: String(_id),
+            createdAt: createdAt.toISOString(),
+            subscriptionId: String(sub._id),
+            locale: sub.locale,
+            product: {
+                id: String(product._id),
+                name: sub.product.name,
+                url: sub.product.url,
+                image: sub.product.image ?? product.image ?? null,
+            },
+        };
+
+        await Notification.create({
+            _id,
+            subscriptionId: sub._id,
+            productId: product._id,
+            channel: target.type,
+            address: target.address,
+            event: data.event,
+            content,
+        });
+        await enqueueNotificationDelivery(_id);
+    }
+
+    return targets.length;
+}
+
+/**
+ * Store a digest email to an address and queue its delivery.
+ * @param email - Subscriber address
+ * @param digest - Frequency, language and the price drops to list
+ * @param _id - Id of the notification, when the caller needs it beforehand
+ * @returns The notification id
+ */
+export async function dispatchDigest(
+    email: string,
+    digest: Pick<DigestContent, 'frequency' | 'locale' | 'items'>,
+    _id: mongoose.Types.ObjectId = new mongoose.Types.ObjectId()
+): Promise<string> {
+    const content: DigestContent = {
+        event: 'digest',
+        id: String(_id),
+        createdAt: new Date().toISOString(),
+        ...digest,
+    };
+
+    await Notification.create({ _id, channel: 'email', address: email, event: 'digest', content });
+    await enqueueNotificationDelivery(_id);
+    return String(_id);
+}
+
+/**
+ * Make one delivery attempt (run by the worker for `deliver-notification`
+ * jobs). The channel target is read from the subscription again, so a
+ * rotated webhook secret is used; when the subscription or the channel was
+ * removed meanwhile, the notification is marked failed without sending.
+ * Digests go to their address as stored.
+ * Throws when the channel rejects the notification so the job is retried;
+ * the notification is marked failed on the last attempt.
+ * @param notificationId - The Notification to deliver
+ * @param isLastAttempt - Whether the job has no retries left
+ * @returns Result stored on the completed job
+ */
+export async function deliverNotification(notificationId: string, isLastAttempt: boolean): Promise<Record<string, unknown>> {
+    const notification = await Notification.findById(notificationId);
+    if (!notification) {
+        return { skipped: 'notification_deleted' };
+    }
+    if (notification.status !== 'pending') {
+        return { skipped: `already_${notification.status}` };
+    }
+
+    const content = notification.content;
+    let target: ChannelTarget | undefined;
+    if (content.event === 'digest') {
+        target = { type: 'email', address: notification.address };
+    } else {
+        const sub = await Subscription.findById(notification.subscriptionId).select('+channels.secret');
+        target = sub ? getSubscriptionChannels(sub)
+            .find((channel) => channel.type === notification.channel && channel.address === notification.address) : undefined;
+    }
+    if (!target) {
+        notification.status = 'failed';
+        notification.lastError = 'Channel removed from the subscription';
+        await notification.save();
+        return { skipped: 'channel_removed' };
+    }
+
+    const started = Date.now();
+    let result;
+    try {
+        result = content.event === 'digest'
+            ? await sendDigestContent(content, target.address)
+            : await getChannel(target.type).send(content, target);
+    } catch (error) {
+        result = { ok: false as const, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    notification.attempts.push({
+        at: new Date(started),
+        statusCode: result.statusCode,
+        error: result.ok ? undefined : result.error,
+        reference: result.ok ? result.reference : undefined,
+        durationMs: Date.now() - started,
+    });
+    if (result.ok) {
+        notification.status = 'delivered';
+        notification.deliveredAt = new Date();
+        if (result.reference && isPreviewReference(result.reference)) {
+            notification.previewUrl = result.reference;
+        }
+    } else {
+        notification.lastError = result.error;
+        if (isLastAttempt) {
+            notification.status = 'failed';
+        }
+    }
+    await notification.save();
+
+    if (!result.ok) {
+        throw new Error(`${notification.channel} notification to ${notification.address} failed: ${result.error}`);
+    }
+    return { channel: notification.channel, statusCode: result.statusCode };
+}
+
+/**
+ * Recent notifications, newest first, with their attempts.
+ * @param filter - Only notifications matching every given field
+ */
+export async function getNotifications(filter: NotificationFilter = {}, limit = 100) {
+    return Notification.find(toQuery(filter))
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .lean();
+}
+
+/**
+ * Queue a new round of delivery attempts for a notification that failed,
+ * or was delivered and should be sent again. The content, including the
+ * notification id webhook receivers deduplicate on, stays the same.
+ * @returns The notification, or why it can't be resent
+ */
+export async function resendNotification(
+    notificationId: string
+): Promise<{ ok: true; notification: INotification } | { ok: false; error: 'not_found' | 'still_pending' }> {
+    const notification = await Notification.findOneAndUpdate(
+        { _id: notificationId, status: { $ne: 'pending' } },
+        { $set: { status: 'pending' }, $unset: { deliveredAt: 1 }, $inc: { resendCount: 1 } },
+        { new: true }
+    );
+    if (!notification) {
+        return { ok: false, error: await Notification.exists({ _id: notificationId }) ? 'still_pending' : 'not_found' };
+    }
+    await enqueueNotificationDelivery(String(notification._id));
+    console.log(`🔁 Resending ${notification.channel} notification ${notification._id} to ${notification.address}`);
+    return { ok: true, notification };
+}
+
+/**
+ * Resend every failed notification matching the filter, oldest first, up
+ * to MAX_BULK_RESEND (e.g. after an SMTP outage).
+ * @returns Number of notifications queued again
+ */
+export async function resendFailedNotifications(filter: Omit<NotificationFilter, 'status'> = {}): Promise<number> {
+    const failed = await Notification.find(toQuery({ ...filter, status: 'failed' }))
+        .sort({ createdAt: 1 })
+        .limit(MAX_BULK_RESEND)
+        .select('_id')
+        .lean();
+
+    let resent = 0;
+    for (const { _id } of failed) {
+        if ((await resendNotification(String(_id))).ok) {
+            resent++;
+        }
+    }
+    return resent;
+}
@@ -0,0 +1,237 @@
+/**
+ * Domain politeness policy
+ *
+ * Every scrape goes through withDomainPolicy(), which for the URL's domain:
+ * - refuses URLs disallowed by the site's robots.txt (fetched and cached
+ *   per origin) and stretches the request delay to its Crawl-delay
+ * - caps the requests in flight and per hour
+ * - spaces the starts of consecutive requests by the policy delay
+ * Requests to different domains don't wait for each other. Policies are
+ * DEFAULT_DOMAIN_POLICY merged with DOMAIN_POLICY_OVERRIDES.
+ */
+import { DomainPolicy } from '../types';
+import { extractDomain } from '../utils';
+import {
+    DEFAULT_DOMAIN_POLICY,
+    DOMAIN_POLICY_OVERRIDES,
+    ROBOTS_USER_AGENT,
+    ROBOTS_CACHE_TTL_MS,
+    ROBOTS_ERROR_TTL_MS,
+    USER_AGENT,
+    FETCH_TIMEOUT,
+} from '../config/constants';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface RobotsRule {
+    allow: boolean;
+    pattern: string;
+    regex: RegExp;
+}
+
+interface RobotsPolicy {
+    rules: RobotsRule[];
+    crawlDelayMs: number | null;
+    expiresAt: number;
+}
+
+interface DomainState {
+    active: number;
+    waiters: (() => void)[];
+    /** Earliest start time of the next request */
+    nextStartAt: number;
+    /** Start times of requests during the last hour */
+    recent: number[];
+}
+
+const robotsCache = new Map<string, RobotsPolicy>();
+const robotsInFlight = new Map<string, Promise<RobotsPolicy>>();
+const domainStates = new Map<string, DomainState>();
+
+/** Override keys compiled to regexes, most specific (longest) first */
+const overrides = Object.entries(DOMAIN_POLICY_OVERRIDES)
+    .sort(([a], [b]) => b.length - a.length)
+    .map(([key, policy]) => {
+        const pattern = key.toLowerCase().split('*').map(escapeRegExp).join('[^/]+');
+        return { regex: new RegExp(`(^|\\.)${pattern}$`), policy };
+    });
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Politeness policy of a domain (hostname).
+ */
+export function getDomainPolicy(domain: string): DomainPolicy {
+    const override = overrides.find(({ regex }) => regex.test(domain.toLowerCase()));
+    return { ...DEFAULT_DOMAIN_POLICY, ...override?.policy };
+}
+
+/**
+ * Parse the groups of a robots.txt that apply to us: the group naming
+ * ROBOTS_USER_AGENT if there is one, otherwise the `*` group (RFC 9309).
+ */
+function parseRobotsTxt(text: string): Pick<RobotsPolicy, 'rules' | 'crawlDelayMs'> {
+    const token = ROBOTS_USER_AGENT.toLowerCase();
+    const groups: { agents: string[]; lines: [string, string][] }[] = [];
+    let current: { agents: string[]; lines: [string, string][] } | null = null;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+        const line = rawLine.replace(/#.*$/, '').trim();
+        const separator = line.indexOf(':');
+        if (separator === -1) continue;
+
+        const field = line.slice(0, separator).trim().toLowerCase();
+        const value = line.slice(separator + 1).trim();
+
+        if (field === 'user-agent') {
+            // Consecutive User-agent lines share one group
+            if (!current || current.lines.length > 0) {
+                current = { agents: [], lines: [] };
+                groups.push(current);
+            }
+            current.agents.push(value.toLowerCase());
+        } else if (current && ['allow', 'disallow', 'crawl-delay'].includes(field)) {
+            current.lines.push([field, value]);
+        }
+    }
+
+    const ours = groups.filter((g) => g.agents.some((agent) => agent === token));
+    const selected = ours.length > 0 ? ours : groups.filter((g) => g.agents.includes('*'));
+
+    const rules: RobotsRule[] = [];
+    let crawlDelayMs: number | null = null;
+    for (const [field, value] of selected.flatMap((g) => g.lines)) {
+        if (field === 'crawl-delay') {
+            const seconds = Number(value);
+            if (Number.isFinite(seconds) && seconds >= 0) crawlDelayMs = seconds * 1000;
+        } else if (value) {
+            // `*` matches any characters, a trailing `$` anchors the end
+            const anchored = value.endsWith('$');
+            const body = (anchored ? value.slice(0, -1) : value).split('*').map(escapeRegExp).join('.*');
+            rules.push({ allow: field === 'allow', pattern: value, regex: new RegExp(`^${body}${anchored ? '$' : ''}`) });
+        }
+    }
+
+    return { rules, crawlDelayMs };
+}
+
+/**
+ * Whether a path (with query string) may be fetched: the longest matching
+ * rule decides, Allow winning ties; no matching rule means allowed.
+ */
+function isPathAllowed(rules: RobotsRule[], path: string): boolean {
+    let match: RobotsRule | null = null;
+    for (const rule of rules) {
+        if (!rule.regex.test(path)) continue;
+        if (!match
+            || rule.pattern.length > match.pattern.length
+            || (rule.pattern.length === match.pattern.length && rule.allow)) {
+            match = rule;
+        }
+    }
+    return match ? match.allow : true;
+}
+
+/**
+ * Fetch robots.txt of an origin. A missing file (4xx) allows everything;
+ * an unreachable one also does, but is retried after ROBOTS_ERROR_TTL_MS.
+ */
+async function fetchRobots(origin: string): Promise<RobotsPolicy> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
+
+    try {
+        const resp = await fetch(`${origin}/robots.txt`, {
+            signal: controller.signal,
+            headers: { 'User-Agent': USER_AGENT },
+        });
+
+        if (resp.ok) {
+            return { ...parseRobotsTxt(await resp.text()), expiresAt: Date.now() + ROBOTS_CACHE_TTL_MS };
+        }
+        if (resp.status >= 400 && resp.status < 500) {
+            return { rules: [], crawlDelayMs: null, expiresAt: Date.now() + ROBOTS_CACHE_TTL_MS };
+        }
+        throw new Error(`HTTP ${resp.status}`);
+    } catch (error) {
+        console.warn(`⚠️ Could not fetch ${origin}/robots.txt, allowing all paths for now:`, error instanceof Error ? error.message : error);
+        return { rules: [], crawlDelayMs: null, expiresAt: Date.now() + ROBOTS_ERROR_TTL_MS };
+    } finally {
+        clearTimeout(timeoutId);
+    }
+}
+
+/** Cached robots.txt of an origin, fetched once even under concurrent requests */
+async function getRobots(origin: string): Promise<RobotsPolicy> {
+    const cached = robotsCache.get(origin);
+    if (cached && cached.expiresAt > Date.now()) return cached;
+
+    let pending = robotsInFlight.get(origin);
+    if (!pending) {
+        pending = fetchRobots(origin).then((robots) => {
+            robotsCache.set(origin, robots);
+            return robots;
+        }).finally(() => robotsInFlight.delete(origin));
+        robotsInFlight.set(origin, pending);
+    }
+    return pending;
+}
+
+function getDomainState(domain: string): DomainState {
+    let state = domainStates.get(domain);
+    if (!state) {
+        state = { active: 0, waiters: [], nextStartAt: 0, recent: [] };
+        domainStates.set(domain, state);
+    }
+    return state;
+}
+
+/**
+ * Run a request to a URL under its domain's policy. The task receives the
+ * policy (e.g. to honour `forceHeadless`). Throws without running the task
+ * when robots.txt disallows the URL or the hourly limit is reached.
+ */
+export async function withDomainPolicy<T>(url: string, task: (policy: DomainPolicy) => Promise<T>): Promise<T> {
+    const domain = extractDomain(url);
+    const policy = getDomainPolicy(domain);
+
+    let delayMs = policy.delayMs;
+    if (policy.respectRobots) {
+        const parsed = new URL(url);
+        const robots = await getRobots(parsed.origin);
+        if (!isPathAllowed(robots.rules, parsed.pathname + parsed.search)) {
+            throw new Error(`Disallowed by robots.txt: ${url}`);
+        }
+        delayMs = Math.max(delayMs, robots.crawlDelayMs ?? 0);
+    }
+
+    const state = getDomainState(domain);
+    const hourAgo = Date.now() - HOUR_MS;
+    state.recent = state.recent.filter((time) => time > hourAgo);
+    if (state.recent.length >= policy.maxRequestsPerHour) {
+        throw new Error(`Hourly request limit for ${domain} reached (${policy.maxRequestsPerHour}/hour)`);
+    }
+
+    // Concurrency cap: wait for a free slot
+    while (state.active >= policy.maxConcurrent) {
+        await new Promise<void>((resolve) => state.waiters.push(resolve));
+    }
+    state.active++;
+
+    try {
+        // Reserve a start time before waiting, so concurrent requests are spaced too
+        const startAt = Math.max(Date.now(), state.nextStartAt);
+        state.nextStartAt = startAt + delayMs;
+        if (startAt > Date.now()) {
+            await new Promise((resolve) => setTimeout(resolve, startAt - Date.now()));
+        }
+
+        state.recent.push(Date.now());
+        return await task(policy);
+    } finally {
+        state.active--;
+        state.waiters.shift()?.();
+    }
+}
@@ -1,108 +1,176 @@
 /**
  * Email service
  *
- * Wraps Nodemailer initialization and provides a single function to send
- * price-drop notification emails. In development the service uses
- * Ethereal test accounts so emails can be previewed in-browser.
+ * Initializes the configured email transport (see emailTransport.ts) and
+ * provides functions to send subscription confirmation, self-service magic
+ * link, price-drop, back-in-stock and delisted-product notification emails
+ * and price-drop digests,
+ * rendered from the localized templates in views/emails.
  */
-import nodemailer, { Transporter } from 'nodemailer';
+import { SendMailOptions } from 'nodemailer';
+import { EMAIL_FROM, EMAIL_TRANSPORT } from '../config/constants';
+import { createEmailTransport, EmailTransport } from './emailTransport';
+import {
+    priceDropTemplate,
+    backInStockTemplate,
+    delistedTemplate,
+    digestTemplate,
+    confirmationTemplate,
+    manageLinkTemplate,
+    resolveLocale,
+    PriceDropEmailData,
+    BackInStockEmailData,
+    DelistedEmailData,
+    DigestEmailData,
+    ConfirmationEmailData,
+    ManageLinkEmailData,
+} from '../views/emails';
 
-let transporter: Transporter | null = null;
-let etherealAccountInfo: any = null;
+let transport: EmailTransport | null = null;
 
 /**
- * Initialize the email transporter. Uses Nodemailer's test account when
- * no production SMTP configuration is provided.
+ * Initialize the email transport selected by EMAIL_TRANSPORT.
+ * An explicitly configured transport (smtp, outbox, json) that fails
+ * verification throws so the server does not start unable to send email;
+ * the default Ethereal transport only disables email when unreachable.
  */
 export async function initEmailService() {
     try {
-        const account = await nodemailer.createTestAccount();
-        etherealAccountInfo = account;
-
-        transporter = nodemailer.createTransport({
-            host: account.smtp.host,
-            port: account.smtp.port,
-            secure: account.smtp.secure,
-            auth: {
-                user: account.user,
-                pass: account.pass,
-            },
-        });
-
-        console.log('✓ Email service initialized (Ethereal test account)');
-        console.log('  Preview emails at: https://ethereal.email');
+        transport = await createEmailTransport(EMAIL_TRANSPORT);
+        console.log(`✓ Email service initialized (${transport.description})`);
     } catch (error) {
+        transport = null;
+        if (EMAIL_TRANSPORT !== 'ethereal') {
+            throw error;
+        }
         console.warn('✗ Failed to initialize email service:', error);
-        transporter = null;
     }
 }
 
-/** Payload for the price-drop email */
-export interface PriceDropEmail {
-    to: string;
-    productName: string;
-    productUrl: string;
-    oldPrice: number;
-    newPrice: number;
-}
-
 /**
- * Send a formatted price-drop notification email.
- * Returns an Ethereal preview URL in development, or null otherwise.
+ * Send a message through the transport with the configured From address.
+ * Returns the transport's reference (preview URL, .eml path or message id),
+ * or null when email is disabled or sending failed.
  */
-export async function sendPriceDropEmail(data: PriceDropEmail): Promise<string | null> {
-    if (!transporter) {
-        console.log(`[Email disabled] Would send to ${data.to}: ${data.productName} dropped from ${data.oldPrice} to ${data.newPrice}`);
+async function deliver(label: string, message: SendMailOptions): Promise<string | null> {
+    if (!transport) {
+        console.log(`[Email disabled] Would send ${label} to ${message.to}: ${message.subject}`);
         return null;
     }
 
     try {
-        const info = await transporter.sendMail({
-            from: 'Price Drop Notifier <no-reply@example.com>',
-            to: data.to,
-            subject: `🔔 Price Drop Alert: ${data.productName}`,
-            html: `
-                <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-                    <h2 style="color: #0E6F78;">Price Drop Detected! 🎉</h2>
-                    <p><strong>${data.productName}</strong></p>
-                    <div style="background: #f3f4f6; padding: 16px; border-radius: 8px; margin: 16px 0;">
-                        <p style="margin: 8px 0;">
-                            <span style="text-decoration: line-through; color: #6B7280;">Old Price: $${data.oldPrice.toFixed(2)}</span>
-                        </p>
-                        <p style="margin: 8px 0; color: #10B981; font-size: 18px; font-weight: bold;">
-                            New Price: $${data.newPrice.toFixed(2)}
-                        </p>
-                        <p style="margin: 8px 0; color: #0E6F78; font-weight: bold;">
-                            You save: $${(data.oldPrice - data.newPrice).toFixed(2)} (${(((data.oldPrice - data.newPrice) / data.oldPrice) * 100).toFixed(1)}%)
-                        </p>
-                    </div>
-                    <a href="${data.productUrl}" 
-                       style="display: inline-block; background: #0E6F78; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin: 16px 0;">
-                        View Product
-                    </a>
-                    <p style="color: #6B7280; font-size: 12px; margin-top: 24px;">
-                        You're receiving this because you subscribed to price drop notifications for this product.
-                    </p>
-                </div>
-            `,
-            text: `
-Price Drop Alert!
-
-${data.productName}
-
-Old Price: $${data.oldPrice.toFixed(2)}
-New Price: $${data.newPrice.toFixed(2)}
-You save: $${(data.oldPrice - data.newPrice).toFixed(2)}
-
-View product: ${data.productUrl}
-            `.trim(),
-        });
-
-        const previewUrl = nodemailer.getTestMessageUrl(info);
-        console.log(`✓ Email sent to ${data.to}. Preview: ${previewUrl}`);
-        return previewUrl as string;
+        const reference = await transport.send({ from: EMAIL_FROM, ...message });
+        console.log(`✓ ${label} sent to ${message.to}${reference ? `: ${reference}` : ''}`);
+        return reference;
     } catch (error) {
-        console.error('Failed to send email:', error);
+        console.error(`Failed to send ${label}:`, error);
         return null;
     }
 }
+
+/** Payload for the price-drop email */
+export interface PriceDropEmail extends PriceDropEmailData {
+    to: string;
+    /** Subscriber's language (see SUPPORTED_LOCALES) */
+    locale?: string;
+}
+
+/**
+ * Send a price-drop notification email with an RFC 8058 one-click
+ * unsubscribe header, shown as a native button by most mail clients.
+ * Returns the transport's reference to the message, or null.
+ */
+export async function sendPriceDropEmail(data: PriceDropEmail): Promise<string | null> {
+    const email = priceDropTemplate.render(data, resolveLocale(data.locale));
+    return deliver('Price drop email', {
+        to: data.to,
+        ...email,
+        headers: {
+            'List-Unsubscribe': `<${data.unsubscribeUrl}>`,
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+        },
+    });
+}
+
+/** Payload for the back-in-stock email */
+export interface BackInStockEmail extends BackInStockEmailData {
+    to: string;
+    locale?: string;
+}
+
+/**
+ * Send a back-in-stock notification email, with the same one-click
+ * unsubscribe header as price-drop emails.
+ * Returns the transport's reference to the message, or null.
+ */
+export async function sendBackInStockEmail(data: BackInStockEmail): Promise<string | null> {
+    const email = backInStockTemplate.render(data, resolveLocale(data.locale));
+    return deliver('Back in stock email', {
+        to: data.to,
+        ...email,
+        headers: {
+            'List-Unsubscribe': `<${data.unsubscribeUrl}>`,
+            'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+        },
+    });
+}
+
+/** Payload for the delisted-product email */
+export interface DelistedEmail extends DelistedEmailData {
+    to: string;
+    locale?: string;
+}
+
+/**
+ * Tell a subscriber that a product was delisted and their alert ended.
+ * Returns the transport's reference to the message, or null.
+ */
+export async function sendDelistedEmail(data: DelistedEmail): Promise<string | null> {
+    const email = delistedTemplate.render(data, resolveLocale(data.locale));
+    return deliver('Delisted email', { to: data.to, ...email });
+}
+
+/** Payload for the digest email */
+export interface DigestEmail extends DigestEmailData {
+    to: string;
+    locale?: string;
+}
+
+/**
+ * Send the digest of the price drops collected for a subscriber.
+ * Returns the transport's reference to the message, or null.
+ */
+export async function sendDigestEmail(data: DigestEmail): Promise<string | null> {
+    const email = digestTemplate.render(data, resolveLocale(data.locale));
+    return deliver('Digest email', { to: data.to, ...email });
+}
+
+/** Payload for the double opt-in confirmation email */
+export interface ConfirmationEmail extends ConfirmationEmailData {
+    to: string;
+    locale?: string;
+}
+
+/**
+ * Send the email asking a new subscriber to confirm their subscription.
+ * Returns the transport's reference to the message, or null.
+ */
+export async function sendConfirmationEmail(data: ConfirmationEmail): Promise<string | null> {
+    const email = confirmationTemplate.render(data, resolveLocale(data.locale));
+    return deliver('Confirmation email', { to: data.to, ...email });
+}
+
+/** Payload for the self-service magic link email */
+export interface ManageLinkEmail extends ManageLinkEmailData {
+    to: string;
+    locale?: string;
+}
+
+/**
+ * Send a magic link giving access to the subscriber self-service page.
+ * Returns the transport's reference to the message, or null.
+ */
+export async function sendManageLinkEmail(data: ManageLinkEmail): Promise<string | null> {
+    const email = manageLinkTemplate.render(data, resolveLocale(data.locale));
+    return deliver('Manage link email', { to: data.to, ...email });
+}
@@ -0,0 +1,125 @@
+/**
+ * Email transports
+ *
+ * Every transport sends a Nodemailer message and returns a reference to
+ * where it ended up (preview URL, .eml path or message id) for logging.
+ * The transport is selected by EMAIL_TRANSPORT:
+ * - smtp: real delivery through SMTP_HOST, verified at startup
+ * - ethereal: Nodemailer test account with in-browser previews
+ * - outbox: one .eml file per message in EMAIL_OUTBOX_DIR, fully offline
+ * - json: messages serialized to the console, fully offline
+ */
+import { mkdir, writeFile, access } from 'fs/promises';
+import { constants as fsConstants } from 'fs';
+import path from 'path';
+import nodemailer, { SendMailOptions } from 'nodemailer';
+import { EMAIL_OUTBOX_DIR, SMTP } from '../config/constants';
+
+export type EmailTransportKind = 'smtp' | 'ethereal' | 'outbox' | 'json';
+
+export interface EmailTransport {
+    kind: EmailTransportKind;
+    /** Human-readable description logged at startup */
+    description: string;
+    send(message: SendMailOptions): Promise<string | null>;
+}
+
+async function createSmtpTransport(): Promise<EmailTransport> {
+    if (!SMTP.host) {
+        throw new Error('EMAIL_TRANSPORT=smtp requires SMTP_HOST');
+    }
+
+    const transporter = nodemailer.createTransport({
+        host: SMTP.host,
+        port: SMTP.port,
+        secure: SMTP.secure,
+        auth: SMTP.user ? { user: SMTP.user, pass: SMTP.pass } : undefined,
+    });
+
+    // Fail at startup rather than on the first notification
+    await transporter.verify();
+
+    return {
+        kind: 'smtp',
+        description: `SMTP ${SMTP.host}:${SMTP.port}`,
+        async send(message) {
+            const info = await transporter.sendMail(message);
+            return info.messageId ?? null;
+        },
+    };
+}
+
+async function createEtherealTransport(): Promise<EmailTransport> {
+    const account = await nodemailer.createTestAccount();
+    const transporter = nodemailer.createTransport({
+        host: account.smtp.host,
+        port: account.smtp.port,
+        secure: account.smtp.secure,
+        auth: {
+            user: account.user,
+            pass: account.pass,
+        },
+    });
+
+    return {
+        kind: 'ethereal',
+        description: 'Ethereal test account, preview emails at https://ethereal.email',
+        async send(message) {
+            const info = await transporter.sendMail(message);
+            return nodemailer.getTestMessageUrl(info) || null;
+        },
+    };
+}
+
+async function createOutboxTransport(): Promise<EmailTransport> {
+    const dir = path.resolve(EMAIL_OUTBOX_DIR);
+    await mkdir(dir, { recursive: true });
+    await access(dir, fsConstants.W_OK);
+
+    const transporter = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+
+    return {
+        kind: 'outbox',
+        description: `outbox ${dir}`,
+        async send(message) {
+            const info = await transporter.sendMail(message);
+            const id = String(info.messageId ?? Date.now()).replace(/@.*$/, '').replace(/[^a-zA-Z0-9-]/g, '');
+            const file = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${id}.eml`);
+            await writeFile(file, info.message as Buffer);
+            return file;
+        },
+    };
+}
+
+async function createJsonTransport(): Promise<EmailTransport> {
+    const transporter = nodemailer.createTransport({ jsonTransport: true });
+
+    return {
+        kind: 'json',
+        description: 'JSON log (messages printed to the console)',
+        async send(message) {
+            const info = await transporter.sendMail(message);
+            console.log(`📧 ${info.message}`);
+            return info.messageId ?? null;
+        },
+    };
+}
+
+/**
+ * Create and verify the transport for the given kind.
+ * Throws when the kind is unknown or the transport cannot be used.
+ */
+export async function createEmailTransport(kind: string): Promise<EmailTransport> {
+    switch (kind) {
+        case 'smtp':
+            return createSmtpTransport();
+        case 'ethereal':
+            return createEtherealTransport();
+        case 'outbox':
+            return createOutboxTransport();
+        case 'json':
+            return createJsonTransport();
+        default:
+            throw new Error(`Unknown EMAIL_TRANSPORT "${kind}" (expected smtp, ethereal, outbox or json)`);
+    }
+}
@@ -0,0 +1,170 @@
+/**
+ * Job queue service
+ *
+ * MongoDB-backed queue of background jobs (see Job.model.ts). A job is
+ * claimed atomically with a time-limited lock, renewed while it runs, so
+ * only one worker runs it; a lock that expires (worker crashed mid-job)
+ * makes the job claimable again. Failed attempts are retried with exponential backoff until
+ * JOB_MAX_ATTEMPTS is reached.
+ */
+import mongoose from 'mongoose';
+import { Job, IJob, JobStatus } from '../models/Job.model';
+import { DigestFrequency } from '../types';
+import { JOB_MAX_ATTEMPTS, JOB_LOCK_MS, JOB_BACKOFF_BASE_MS, JOB_BACKOFF_MAX_MS, NOTIFICATION_MAX_ATTEMPTS } from '../config/constants';
+
+/**
+ * Queue a price check for a product, unless one is already queued or
+ * running.
+ * @param domain - Hostname of the product, counted against its domain budget
+ * @returns true when a new job was queued
+ */
+export async function enqueueProductCheck(
+    productId: mongoose.Types.ObjectId | string,
+    domain: string,
+    runAt: Date = new Date()
+): Promise<boolean> {
+    try {
+        const result = await Job.updateOne(
+            { type: 'check-product', productId, status: { $in: ['queued', 'running'] } },
+            { $setOnInsert: { domain, status: 'queued', attempts: 0, maxAttempts: JOB_MAX_ATTEMPTS, runAt } },
+            { upsert: true }
+        );
+        return result.upsertedCount > 0;
+    } catch (error: any) {
+        // Another scheduler queued the same product concurrently
+        if (error?.code === 11000) return false;
+        throw error;
+    }
+}
+
+/**
+ * Queue the delivery of a notification on its channel (see
+ * dispatcher.service.ts). Retried with backoff up to
+ * NOTIFICATION_MAX_ATTEMPTS times.
+ */
+export async function enqueueNotificationDelivery(notificationId: mongoose.Types.ObjectId | string): Promise<void> {
+    await Job.create({
+        type: 'deliver-notification',
+        notificationId,
+        status: 'queued',
+        attempts: 0,
+        maxAttempts: NOTIFICATION_MAX_ATTEMPTS,
+        runAt: new Date(),
+    });
+}
+
+/**
+ * Queue the digest email of a subscriber address (see digest.service.ts),
+ * unless one is already queued; a running digest doesn't count, so drops
+ * collected while it is sent get the next one.
+ * @param runAt - When the digest is due
+ * @returns true when a new job was queued
+ */
+export async function enqueueDigest(email: string, digest: DigestFrequency, runAt: Date): Promise<boolean> {
+    try {
+        const result = await Job.updateOne(
+            { type: 'send-digest', email, digest, status: 'queued' },
+            { $setOnInsert: { attempts: 0, maxAttempts: JOB_MAX_ATTEMPTS, runAt } },
+            { upsert: true }
+        );
+        return result.upsertedCount > 0;
+    } catch (error: any) {
+        // Another worker queued the same digest concurrently
+        if (error?.code === 11000) return false;
+        throw error;
+    }
+}
+
+/**
+ * Lock and return the next due job, or null when none is due. Also picks
+ * up running jobs whose lock expired.
+ * @param workerId - Identifies the worker holding the lock
+ */
+export async function claimNextJob(workerId: string): Promise<IJob | null> {
+    const now = new Date();
+    return Job.findOneAndUpdate(
+        {
+            $or: [
+                { status: 'queued', runAt: { $lte: now } },
+                { status: 'running', lockedUntil: { $lt: now } },
+            ],
+        },
+        {
+            $set: { status: 'running', lockedBy: workerId, lockedUntil: new Date(now.getTime() + JOB_LOCK_MS) },
+            $inc: { attempts: 1 },
+        },
+        { sort: { runAt: 1 }, new: true }
+    );
+}
+
+/**
+ * Extend the lock of a job its worker is still running, so a slow job is
+ * not taken over by another worker.
+ * @returns false when the worker lost the lock (it expired and the job was
+ * claimed again)
+ */
+export async function renewJobLock(job: IJob): Promise<boolean> {
+    const result = await Job.updateOne(
+        { _id: job._id, status: 'running', lockedBy: job.lockedBy, attempts: job.attempts },
+        { $set: { lockedUntil: new Date(Date.now() + JOB_LOCK_MS) } }
+    );
+    return result.matchedCount === 1;
+}
+
+/**
+ * Mark a job as completed. Ignored when the worker lost the lock meanwhile.
+ */
+export async function completeJob(job: IJob, result?: Record<string, unknown>) {
+    await Job.updateOne(
+        { _id: job._id, lockedBy: job.lockedBy },
+        {
+            $set: { status: 'completed', result, finishedAt: new Date() },
+            $unset: { lockedBy: 1, lockedUntil: 1, lastError: 1 },
+        }
+    );
+}
+
+/**
+ * Delay before retrying a job that failed `attempts` times:
+ * JOB_BACKOFF_BASE_MS doubled per attempt, capped at JOB_BACKOFF_MAX_MS.
+ */
+export function backoffDelay(attempts: number): number {
+    return Math.min(JOB_BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1), JOB_BACKOFF_MAX_MS);
+}
+
+/**
+ * Record a failed attempt: requeue the job after a backoff delay, or mark
+ * it failed when it has no attempts left.
+ * @returns When the job will be retried, or null when it gave up
+ */
+export async function failJob(job: IJob, error: unknown): Promise<Date | null> {
+    const message = error instanceof Error ? error.message : String(error);
+    const retryAt = job.attempts < job.maxAttempts
+        ? new Date(Date.now() + backoffDelay(job.attempts))
+        : null;
+
+    await Job.updateOne(
+        { _id: job._id, lockedBy: job.lockedBy },
+        {
+            $set: retryAt
+                ? { status: 'queued', runAt: retryAt, lastError: message }
+                : { status: 'failed', lastError: message, finishedAt: new Date() },
+            $unset: { lockedBy: 1, lockedUntil: 1 },
+        }
+    );
+    return retryAt;
+}
+
+/**
+ * Number of jobs per status.
+ */
+export async function getQueueStats(): Promise<Record<JobStatus, number>> {
+    const counts = await Job.aggregate<{ _id: JobStatus; count: number }>([
+        { $group: { _id: '$status', count: { $sum: 1 } } },
+    ]);
+    const stats: Record<JobStatus, number> = { queued: 0, running: 0, completed: 0, failed: 0 };
+    for (const { _id, count } of counts) {
+        stats[_id] = count;
+    }
+    return stats;
+}
@@ -1,187 +1,464 @@
 /**
  * Notifier service
  *
- * Responsible for iterating over subscriptions, checking current prices,
- * updating the stored lastSeenPrice, and sending emails when a price drop
- * is detected.
+ * Responsible for iterating over watched products, checking current prices
+ * and stock (once per product, however many subscribers watch it), updating
+ * the product's last price and availability, recording every observed price
+ * in the price history, and notifying each subscriber whose alert rules a
+ * price drop satisfies, or who asked to hear when a sold-out product is
+ * back in stock, on every channel of their subscription (see
+ * dispatcher.service.ts), at most once per cooldown and outside the
+ * subscriber's quiet hours, or in a daily or weekly digest email (see
+ * digest.service.ts). Failed checks are classified (see ScrapeFailureReason);
+ * products the shop keeps answering "not found" for are delisted and their
+ * subscriptions expire.
  *
- * Uses cursor-based streaming, batch processing, per-domain rate limiting,
- * and intelligent scheduling to handle large volumes efficiently.
+ * Checks run as jobs: the scheduler queues products whose adaptive
+ * `nextCheckAt` has passed (see schedule.service.ts) and workers (see
+ * worker.service.ts) run checkProduct() for each job.
  */
-import { Subscription } from '../models/Subscription.model';
-import { fetchCurrentPrice } from './scraper.service';
-import { sendPriceDropEmail } from './email.service';
-import { parsePriceString, randomDelay } from '../utils';
-import { NOTIFIER_INTERVAL, BATCH_SIZE, MIN_CHECK_INTERVAL, DOMAIN_DELAY_MS } from '../config/constants';
+import { Subscription, ISubscription, IAlertRules, ACTIVE_SUBSCRIPTION, getSubscriptionChannels } from '../models/Subscription.model';
+import { Product, IProduct } from '../models/Product.model';
+import { Subscriber, ISubscriber, isInQuietHours } from '../models/Subscriber.model';
+import { fetchProductStatus } from './scraper.service';
+import { recordPrice, getPriceHistory, getLowestPrice } from './priceHistory.service';
+import { enqueueProductCheck } from './jobQueue.service';
+import { dispatchNotification } from './dispatcher.service';
+import { queueDigestItem } from './digest.service';
+import { createDomainBudget, scheduleNextCheck, updateChangeRate } from './schedule.service';
+import { parseMoney, subtractAmounts } from '../money';
+import { Money, PriceHistoryPoint, ProductAvailability, ScrapeFailureReason } from '../types';
+import { extractDomain } from '../utils';
+import { NOTIFIER_INTERVAL, DELISTED_AFTER_FAILURES, NOTIFICATION_COOLDOWN_MS } from '../config/constants';
 
 let notifierInterval: NodeJS.Timeout | null = null;
 
+/** Stock states in which a product can be ordered */
+const ORDERABLE: ProductAvailability[] = ['in_stock', 'limited', 'preorder'];
+
 /**
- * Extract domain from URL for rate limiting purposes.
- * Used to group requests by hostname and enforce per-domain delays.
- * @param url - The product URL to extract domain from
- * @returns The hostname (e.g., 'www.amazon.com') or 'unknown' if invalid
+ * Decide whether a detected price drop satisfies a subscription's alert rules.
+ * Without rules any drop qualifies. Percentage and absolute thresholds are
+ * measured from the baseline price (last notified price, or the price at
+ * subscription time); every rule that is set must be met.
+ * @param alert - The subscription's alert rules, if any
+ * @param baselinePrice - Price the drop is measured from
+ * @param currentPrice - Newly observed price
+ * @param currency - ISO currency of both prices, used for rounding
  */
-function extractDomain(url: string): string {
-    try {
-        return new URL(url).hostname;
-    } catch {
-        return 'unknown';
+function meetsAlertRules(
+    alert: IAlertRules | undefined,
+    baselinePrice: number,
+    currentPrice: number,
+    currency: string | null
+): boolean {
+    if (!alert) return true;
+
+    const drop = subtractAmounts(baselinePrice, currentPrice, currency);
+
+    if (alert.targetPrice != null && currentPrice > alert.targetPrice) {
+        return false;
+    }
+    if (alert.minDropAmount != null && drop < alert.minDropAmount) {
+        return false;
+    }
+    if (alert.minDropPercent != null && (baselinePrice <= 0 || (drop / baselinePrice) * 100 < alert.minDropPercent)) {
+        return false;
     }
+    return true;
 }
 
 /**
- * Check all subscriptions for price changes and notify users when prices drop.
- * Uses cursor-based iteration to avoid loading all documents into memory.
- * Processes in batches with delays to avoid triggering anti-bot measures.
- * Returns a summary object with counts for checked and notified subscriptions.
+ * Queue a price check job for every watched product that is due. Only
+ * products with at least one active subscription whose `nextCheckAt` has
+ * passed are queued; products that already have a queued or running job are
+ * skipped, and products whose domain spent its hourly budget are postponed.
+ * Workers run the jobs (see worker.service.ts).
+ * Returns the number of due products, jobs queued and products postponed.
  */
-export async function checkPriceDrops() {
-    try {
-        const now = new Date();
-        const minCheckTime = new Date(now.getTime() - MIN_CHECK_INTERVAL);
-
-        // Only check subscriptions that haven't been checked recently
-        const query = {
-            $or: [
-                { lastCheckedAt: { $exists: false } },
-                { lastCheckedAt: { $lt: minCheckTime } }
-            ]
-        };
-
-        const totalCount = await Subscription.countDocuments(query);
-        if (totalCount === 0) {
-            console.log('No subscriptions ready to check');
-            return { checked: 0, notified: 0 };
+export async function enqueueDueChecks() {
+    const now = new Date();
+
+    // Products watched by confirmed, non-paused subscriptions
+    // (documents created before double opt-in have no status and count as active)
+    const watchedIds = await Subscription.distinct('productId', ACTIVE_SUBSCRIPTION);
+
+    // ...whose next check is due (never-checked products first)
+    const query = {
+        _id: { $in: watchedIds },
+        $or: [
+            { nextCheckAt: { $exists: false } },
+            { nextCheckAt: { $lte: now } }
+        ]
+    };
+
+    const budget = createDomainBudget();
+    let due = 0;
+    let enqueued = 0;
+    let postponed = 0;
+
+    // Use cursor to stream products instead of loading all into memory
+    const cursor = Product.find(query).select('_id url').sort({ nextCheckAt: 1 }).cursor();
+    for await (const product of cursor) {
+        due++;
+        const domain = extractDomain(product.url);
+
+        if (!(await budget.take(domain))) {
+            await Product.updateOne({ _id: product._id }, { $set: { nextCheckAt: budget.retryAt(domain, now) } });
+            postponed++;
+            continue;
         }
 
-        console.log(`Processing ${totalCount} subscriptions in batches of ${BATCH_SIZE}...`);
-        let checked = 0;
-        let notified = 0;
-        let batchNum = 0;
-
-        // Track last request time per domain for rate limiting
-        const domainLastRequest = new Map<string, number>();
+        if (await enqueueProductCheck(String(product._id), domain)) {
+            enqueued++;
+        } else {
+            budget.release(domain);
+        }
+    }
 
-        // Use cursor to stream documents instead of loading all into memory
-        const cursor = Subscription.find(query).cursor();
+    if (due > 0) {
+        console.log(`Queued ${enqueued} of ${due} due products for a price check${postponed ? `, ${postponed} postponed (domain budget)` : ''}`);
+    } else {
+        console.log('No products ready to check');
+    }
+    return { due, enqueued, postponed };
+}
 
-        let batch: any[] = [];
-        for await (const sub of cursor) {
-            batch.push(sub);
+/**
+ * Scrape a product once, update its last price, availability and scrape
+ * status, record the observed price, notify subscribers of a drop or of the
+ * product coming back in stock, and schedule the next check (see
+ * schedule.service.ts). A sold-out page without a price still counts as a
+ * successful check. A failed check records its cause and throws so the job
+ * queue retries it with backoff, except for "not found" pages: those are
+ * left to the next scheduled check, so each check adds one to the streak
+ * that delists the product rather than each job retry.
+ * @param product - The product document to check
+ * @returns Number of subscribers notified, whether the product was delisted,
+ * and the failure reason of a check that is not retried
+ */
+export async function checkProduct(product: IProduct): Promise<{ notified: number; delisted?: boolean; failed?: ScrapeFailureReason }> {
+    const status = await fetchProductStatus(product.url);
+    const subscribers = await Subscription.countDocuments({ productId: product._id, ...ACTIVE_SUBSCRIPTION });
+
+    // Update lastCheckedAt and scrape status regardless of result
+    const now = new Date();
+    product.lastCheckedAt = now;
+
+    if (!status.ok) {
+        recordFailure(product, status.reason, status.message, now);
+
+        // A page that stays gone over several checks means the product was delisted
+        if (status.reason === 'not_found' && product.failureStreak >= DELISTED_AFTER_FAILURES) {
+            product.scrapeStatus = 'delisted';
+            await product.save();
+            console.log(`🗑️ ${product.url} delisted after ${product.failureStreak} "not found" checks`);
+            return { notified: await expireDelistedProduct(product), delisted: true };
+        }
 
-            // Process in batches
-            if (batch.length >= BATCH_SIZE) {
-                batchNum++;
-                console.log(`Processing batch ${batchNum} (${batch.length} subscriptions)...`);
-                const result = await processBatch(batch, domainLastRequest);
-                checked += result.checked;
-                notified += result.notified;
-                batch = [];
+        scheduleNextCheck(product, subscribers, now);
+        await product.save();
 
-                // Small delay between batches
-                await randomDelay();
-            }
+        // Retrying right away would count a temporary 404 several times over;
+        // the failure back-off of nextCheckAt spaces the next attempts out
+        if (status.reason === 'not_found') {
+            console.log(`🔍 ${product.url} not found (${product.failureStreak}/${DELISTED_AFTER_FAILURES}), next check ${product.nextCheckAt?.toISOString()}`);
+            return { notified: 0, failed: status.reason };
         }
+        throw new Error(`Unable to check ${product.url} (${status.reason}): ${status.message}`);
+    }
 
-        // Process remaining subscriptions in final batch
-        if (batch.length > 0) {
-            batchNum++;
-            console.log(`Processing final batch ${batchNum} (${batch.length} subscriptions)...`);
-            const result = await processBatch(batch, domainLastRequest);
-            checked += result.checked;
-            notified += result.notified;
+    product.scrapeStatus = 'ok';
+    product.lastFailureReason = undefined;
+    product.lastError = undefined;
+    product.consecutiveFailures = 0;
+    product.failureStreak = 0;
+    product.failingSince = undefined;
+
+    // Track stock transitions; a page without a readable state keeps the last known one
+    const previousAvailability = product.availability;
+    const availabilityChanged = status.availability !== 'unknown' && status.availability !== previousAvailability;
+    if (availabilityChanged) {
+        product.availability = status.availability;
+        product.availabilityChangedAt = now;
+        console.log(`📦 Availability of ${product.url}: ${previousAvailability} → ${status.availability}`);
+    }
+    const backInStock = previousAvailability === 'out_of_stock' && ORDERABLE.includes(status.availability);
+
+    const previousPrice = product.lastPrice ?? null;
+    let currentPrice: Money | null = null;
+
+    if (status.price) {
+        // Keep every observed price as a time series
+        await recordPrice(product.url, status.price);
+
+        // Never compare amounts across currencies (e.g. a geo-redirected storefront)
+        if (product.currency && status.price.currency && product.currency !== status.price.currency) {
+            console.log(`Skipping price comparison for ${product.url} - currency changed (${product.currency} → ${status.price.currency})`);
+        } else {
+            currentPrice = status.price;
         }
+    }
 
-        console.log(`Price check complete. Checked: ${checked}, Notified: ${notified}`);
-        return { checked, notified };
-    } catch (error) {
-        console.error('Error in checkPriceDrops:', error);
-        throw error;
+    // Persist the latest observed price (and currency, once known) for future comparisons
+    if (currentPrice && currentPrice.amount !== previousPrice) {
+        product.lastPrice = currentPrice.amount;
+        product.lastPriceChangeAt = now;
     }
+    if (currentPrice && !product.currency && currentPrice.currency) {
+        product.currency = currentPrice.currency;
+    }
+
+    // Volatile products (price or stock) are checked more often, stable ones less
+    const priceChanged = currentPrice != null && previousPrice != null && currentPrice.amount !== previousPrice;
+    updateChangeRate(product, priceChanged || (availabilityChanged && previousAvailability !== 'unknown'));
+    scheduleNextCheck(product, subscribers, now);
+    await product.save();
+
+    let notified = 0;
+    if (backInStock) {
+        notified += await notifyBackInStock(product, currentPrice);
+    }
+    // A sold-out product's price can't be acted on, so drops are not announced
+    if (currentPrice && product.availability !== 'out_of_stock') {
+        notified += await notifySubscribers(product, previousPrice, currentPrice);
+    }
+    return { notified };
+}
+
+/**
+ * Record a failed check on a product: its cause, the number of consecutive
+ * failures and how many of them in a row had this cause.
+ */
+function recordFailure(product: IProduct, reason: ScrapeFailureReason, message: string, now: Date) {
+    product.failureStreak = product.consecutiveFailures > 0 && product.lastFailureReason === reason
+        ? product.failureStreak + 1
+        : 1;
+    product.scrapeStatus = 'failed';
+    product.lastFailureReason = reason;
+    product.lastError = message;
+    product.consecutiveFailures += 1;
+    product.failingSince ??= now;
 }
 
 /**
- * Process a batch of subscriptions with per-domain rate limiting.
- * Enforces delays between requests to the same domain to avoid triggering
- * anti-bot detection. Updates lastCheckedAt for all processed subscriptions.
- * @param batch - Array of subscription documents to process
- * @param domainLastRequest - Map tracking last request timestamp per domain
- * @returns Object with counts of checked and notified subscriptions
+ * Tell the active subscribers of a delisted product that their alert ended,
+ * then expire every subscription of the product (paused and unconfirmed
+ * ones too), so it is no longer checked.
+ * @returns Number of subscribers notified
  */
-async function processBatch(
-    batch: any[],
-    domainLastRequest: Map<string, number>
-): Promise<{ checked: number; notified: number }> {
-    let checked = 0;
+async function expireDelistedProduct(product: IProduct): Promise<number> {
     let notified = 0;
 
-    for (const sub of batch) {
+    const subscribers = Subscription.find({ productId: product._id, ...ACTIVE_SUBSCRIPTION }).cursor();
+    for await (const sub of subscribers) {
         try {
-            const domain = extractDomain(sub.product.url);
-            const lastRequest = domainLastRequest.get(domain) || 0;
-            const timeSinceLastRequest = Date.now() - lastRequest;
-
-            // Rate limit: ensure minimum delay between requests to same domain
-            if (timeSinceLastRequest < DOMAIN_DELAY_MS) {
-                const waitTime = DOMAIN_DELAY_MS - timeSinceLastRequest;
-                await new Promise(resolve => setTimeout(resolve, waitTime));
-            }
+            await dispatchNotification(sub, product, { event: 'delisted' });
+            notified++;
+        } catch (error) {
+            console.error(`Error notifying subscription ${sub._id}:`, error);
+        }
+    }
+
+    const expired = await Subscription.updateMany(
+        { productId: product._id, status: { $ne: 'expired' } },
+        { $set: { status: 'expired', expiredAt: new Date() } }
+    );
+    console.log(`Expired ${expired.modifiedCount} subscriptions of delisted product ${product.url}`);
+
+    return notified;
+}
+
+/**
+ * Notify every active subscriber of a product who opted into back-in-stock
+ * alerts. Called when a check sees a sold-out product orderable again.
+ * @param product - The product, already updated with the new availability
+ * @param currentPrice - Newly observed price, when the page shows one
+ * @returns Number of subscribers notified
+ */
+async function notifyBackInStock(product: IProduct, currentPrice: Money | null): Promise<number> {
+    const currency = product.currency ?? currentPrice?.currency ?? null;
+    let notified = 0;
 
-            // Random delay to appear more human-like
-            await randomDelay();
+    const subscribers = Subscription.find({
+        productId: product._id,
+        'alert.backInStock': true,
+        ...ACTIVE_SUBSCRIPTION,
+    }).cursor();
+    for await (const sub of subscribers) {
+        try {
+            console.log(`Back in stock: ${sub.product.name} (${product.availability}), notifying ${sub._id}`);
 
-            const currentPrice = await fetchCurrentPrice(sub.product.url);
-            domainLastRequest.set(domain, Date.now());
+            await dispatchNotification(sub, product, {
+                event: 'back_in_stock',
+                availability: product.availability,
+                price: currentPrice?.amount ?? null,
+                currency,
+            });
 
-            // Update lastCheckedAt regardless of result
-            sub.lastCheckedAt = new Date();
+            sub.lastNotifiedAt = new Date();
             await sub.save();
-            checked++;
 
-            const claimedPrice = parsePriceString(sub.product.price);
-            const lastSeenPrice = sub.product.lastSeenPrice ?? claimedPrice;
+            notified++;
+        } catch (error) {
+            console.error(`Error notifying subscription ${sub._id}:`, error);
+        }
+    }
+
+    return notified;
+}
+
+/**
+ * Cooldown of a subscription: its `alert.cooldownHours`, or
+ * NOTIFICATION_COOLDOWN_MS.
+ */
+function cooldownMs(sub: ISubscription): number {
+    return sub.alert?.cooldownHours != null ? sub.alert.cooldownHours * 60 * 60 * 1000 : NOTIFICATION_COOLDOWN_MS;
+}
+
+/**
+ * Forget a drop held back by the cooldown that is no longer worth
+ * announcing (the price went back up or no longer meets the rules).
+ */
+async function clearDeferredDrop(sub: ISubscription) {
+    if (sub.deferredDropFrom != null) {
+        sub.deferredDropFrom = undefined;
+        await sub.save();
+    }
+}
+
+/**
+ * Notify every active subscriber of a product whose alert rules the newly
+ * observed price satisfies. A drop to the price a subscriber was last told
+ * about is not announced again (a price bouncing between two values), and
+ * `allTimeLow` subscriptions only hear about prices below every recorded
+ * one.
+ *
+ * Drops inside a subscription's cooldown or the subscriber's quiet hours
+ * are held back and announced once they end, measured from where the
+ * held-back drop started, unless the price went back up. Subscriptions with
+ * `alert.digest` get the drop in their next digest email instead (see
+ * digest.service.ts).
+ * @param product - The product, already updated with the current price
+ * @param previousPrice - Last price observed before this check, if any
+ * @param currentPrice - Newly observed price
+ * @returns Number of subscribers notified (or whose digest got the drop)
+ */
+async function notifySubscribers(product: IProduct, previousPrice: number | null, currentPrice: Money): Promise<number> {
+    const currency = product.currency ?? currentPrice.currency;
+    const checkedAt = product.lastCheckedAt ?? new Date();
+    let notified = 0;
+    let history: PriceHistoryPoint[] | null = null;
+    let lowestPrice: number | null | undefined;
+    // Subscribers by id, for their quiet hours (subscriptions of one address share one)
+    const owners = new Map<string, ISubscriber | null>();
+
+    const subscribers = Subscription.find({ productId: product._id, ...ACTIVE_SUBSCRIPTION }).cursor();
+    for await (const sub of subscribers) {
+        try {
+            // Subscribed at a price in another currency - not comparable
+            if (sub.product.currency && currency && sub.product.currency !== currency) {
+                continue;
+            }
+
+            // The price the subscriber saw counts until the product was first checked
+            const claimedPrice = parseMoney(sub.product.price)?.amount ?? null;
+            const referencePrice = sub.deferredDropFrom ?? previousPrice ?? claimedPrice;
 
-            if (currentPrice == null || lastSeenPrice == null) {
-                console.log(`Skipping ${sub.product.url} - unable to compare prices`);
+            if (referencePrice == null || currentPrice.amount >= referencePrice) {
+                await clearDeferredDrop(sub);
                 continue;
             }
 
-            // Persist the latest observed price for future comparisons
-            if (currentPrice !== lastSeenPrice) {
-                sub.product.lastSeenPrice = currentPrice;
-                await sub.save();
+            if (sub.lastNotifiedPrice === currentPrice.amount) {
+                console.log(`Price of ${sub.product.name} is back at ${currentPrice.amount}, already notified to ${sub._id}`);
+                await clearDeferredDrop(sub);
+                continue;
             }
 
-            // If the current price is lower, send a notification
-            if (currentPrice < lastSeenPrice) {
-                console.log(`Price drop detected for ${sub.product.name}: ${lastSeenPrice} → ${currentPrice}`);
+            const baselinePrice = sub.lastNotifiedPrice ?? claimedPrice ?? referencePrice;
+            if (!meetsAlertRules(sub.alert, baselinePrice, currentPrice.amount, currency)) {
+                console.log(`Price drop for ${sub.product.name} (${referencePrice} → ${currentPrice.amount}) does not meet alert rules of ${sub._id}`);
+                await clearDeferredDrop(sub);
+                continue;
+            }
 
-                await sendPriceDropEmail({
-                    to: sub.email,
-                    productName: sub.product.name,
-                    productUrl: sub.product.url,
-                    oldPrice: lastSeenPrice,
-                    newPrice: currentPrice,
+            // A held-back drop was an all-time low when it happened; its price is in the history since
+            if (sub.alert?.allTimeLow && sub.deferredDropFrom == null) {
+                // Prices recorded before this check (loaded once per product)
+                if (lowestPrice === undefined) {
+                    lowestPrice = await getLowestPrice(product.url, checkedAt, currency);
+                }
+                const lowest = Math.min(lowestPrice ?? Infinity, claimedPrice ?? Infinity);
+                if (currentPrice.amount >= lowest) {
+                    console.log(`Price drop for ${sub.product.name} to ${currentPrice.amount} is not a new all-time low (${lowest}) for ${sub._id}`);
+                    await clearDeferredDrop(sub);
+                    continue;
+                }
+            }
+
+            if (sub.alert?.digest) {
+                console.log(`Price drop for ${sub.product.name}: ${referencePrice} → ${currentPrice.amount}, added to the ${sub.alert.digest} digest of ${sub._id}`);
+                await queueDigestItem(sub, product, sub.alert.digest, referencePrice, currentPrice.amount, currency);
+            } else {
+                const cooldown = cooldownMs(sub);
+                const inCooldown = sub.lastNotifiedAt != null && checkedAt.getTime() - sub.lastNotifiedAt.getTime() < cooldown;
+
+                const ownerId = sub.subscriberId ? String(sub.subscriberId) : null;
+                if (ownerId && !owners.has(ownerId)) {
+                    owners.set(ownerId, await Subscriber.findById(ownerId).select('timezone quietHours'));
+                }
+                const owner = ownerId ? owners.get(ownerId) : null;
+                const inQuietHours = owner != null && isInQuietHours(owner, checkedAt);
+
+                if (inCooldown || inQuietHours) {
+                    if (sub.deferredDropFrom == null) {
+                        sub.deferredDropFrom = referencePrice;
+                        await sub.save();
+                    }
+                    const until = inCooldown && sub.lastNotifiedAt
+                        ? `${new Date(sub.lastNotifiedAt.getTime() + cooldown).toISOString()} (cooldown of ${sub._id})`
+                        : `the quiet hours of ${sub.email} end`;
+                    console.log(`Price drop for ${sub.product.name} (${referencePrice} → ${currentPrice.amount}) held back until ${until}`);
+                    continue;
+                }
+
+                console.log(`Price drop detected for ${sub.product.name}: ${referencePrice} → ${currentPrice.amount} ${currency ?? ''}`);
+
+                // Daily prices over the default history range, drawn as a sparkline in emails (loaded once per product)
+                if (getSubscriptionChannels(sub).some((channel) => channel.type === 'email')) {
+                    history ??= await getPriceHistory(product.url, { interval: 'day', currency: product.currency });
+                }
+
+                await dispatchNotification(sub, product, {
+                    event: 'price_drop',
+                    oldPrice: referencePrice,
+                    newPrice: currentPrice.amount,
+                    currency,
+                    history: history ?? undefined,
                 });
+            }
 
-                // Track when we sent this notification
-                sub.lastNotifiedAt = new Date();
-                await sub.save();
+            // Track when and at which price we queued this notification
+            sub.lastNotifiedAt = checkedAt;
+            sub.lastNotifiedPrice = currentPrice.amount;
+            sub.deferredDropFrom = undefined;
+            await sub.save();
 
-                notified++;
-            }
+            notified++;
         } catch (error) {
-            console.error(`Error checking subscription ${sub._id}:`, error);
+            console.error(`Error notifying subscription ${sub._id}:`, error);
         }
     }
 
-    return { checked, notified };
+    return notified;
 }
 
 /**
- * Start periodic price checks. Will run immediately and then every NOTIFIER_INTERVAL ms.
- * Calling twice will have no effect (singleton interval).
+ * Start the scheduler: queue due products now and then every
+ * NOTIFIER_INTERVAL ms (how often it looks for due products; each product's
+ * own interval is adaptive). Calling twice will have no effect (singleton
+ * interval). Several processes may run it; jobs are never queued twice.
  */
 export function startPeriodicChecks() {
     if (notifierInterval) {
@@ -192,11 +469,11 @@ export function startPeriodicChecks() {
     console.log(`Starting periodic price checks (every ${NOTIFIER_INTERVAL / 60000} minutes)`);
 
     // Run immediately on start
-    checkPriceDrops().catch(err => console.error('Initial price check failed:', err));
+    enqueueDueChecks().catch(err => console.error('Initial price check scheduling failed:', err));
 
     // Then run periodically
     notifierInterval = setInterval(() => {
-        checkPriceDrops().catch(err => console.error('Periodic price check failed:', err));
+        enqueueDueChecks().catch(err => console.error('Periodic price check scheduling failed:', err));
     }, NOTIFIER_INTERVAL);
 }
 
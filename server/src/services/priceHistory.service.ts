@@ -0,0 +1,121 @@
+/**
+ * Price history service
+ *
+ * Persists every price observed by the notifier as a time series keyed by
+ * normalized product URL, and reads it back with optional downsampling so
+ * clients can chart trends without pulling thousands of raw points.
+ */
+import { PricePoint } from '../models/PriceHistory.model';
+import { normalizeProductUrl } from '../utils';
+import { PRICE_HISTORY_DEFAULT_RANGE_MS, PRICE_HISTORY_MAX_POINTS } from '../config/constants';
+import { Money, PriceHistoryInterval, PriceHistoryPoint } from '../types';
+
+export interface PriceHistoryQuery {
+    from?: Date;
+    to?: Date;
+    interval?: PriceHistoryInterval;
+    /** Only prices in this currency (and older ones without a currency) */
+    currency?: string | null;
+}
+
+/**
+ * Record a single observed price for a product URL.
+ * @param url - The product URL (normalized before storage)
+ * @param price - The price observed (amount and ISO currency)
+ * @param observedAt - When the price was observed (defaults to now)
+ */
+export async function recordPrice(url: string, price: Money, observedAt: Date = new Date()) {
+    await PricePoint.create({
+        productUrl: normalizeProductUrl(url),
+        price: price.amount,
+        currency: price.currency ?? undefined,
+        observedAt,
+    });
+}
+
+/**
+ * Lowest price recorded for a product URL before a given time.
+ * @param currency - Only prices in this currency (and older ones without a currency) count
+ * @returns The lowest amount, or null when nothing was recorded yet
+ */
+export async function getLowestPrice(url: string, before: Date, currency?: string | null): Promise<number | null> {
+    const lowest = await PricePoint.findOne({
+        productUrl: normalizeProductUrl(url),
+        observedAt: { $lt: before },
+        ...(currency ? { currency: { $in: [currency, null] } } : {}),
+    })
+        .sort({ price: 1 })
+        .select('price')
+        .lean();
+    return lowest?.price ?? null;
+}
+
+/**
+ * Read the price history of a product URL within a time range.
+ * With `interval: 'raw'` every observation is returned (capped at
+ * PRICE_HISTORY_MAX_POINTS, most recent kept); other intervals group
+ * observations into hour/day/week buckets with min/max/avg/last values.
+ * Pass the product's currency so prices seen in another one (e.g. a
+ * geo-redirected storefront) are left out. Points are returned oldest first.
+ */
+export async function getPriceHistory(url: string, query: PriceHistoryQuery = {}): Promise<PriceHistoryPoint[]> {
+    const to = query.to ?? new Date();
+    const from = query.from ?? new Date(to.getTime() - PRICE_HISTORY_DEFAULT_RANGE_MS);
+    const interval = query.interval ?? 'raw';
+
+    const match = {
+        productUrl: normalizeProductUrl(url),
+        observedAt: { $gte: from, $lte: to },
+        ...(query.currency ? { currency: { $in: [query.currency, null] } } : {}),
+    };
+
+    if (interval === 'raw') {
+        const docs = await PricePoint.find(match)
+            .sort({ observedAt: -1 })
+            .limit(PRICE_HISTORY_MAX_POINTS)
+            .lean();
+
+        return docs.reverse().map((doc) => ({
+            timestamp: doc.observedAt.toISOString(),
+            min: doc.price,
+            max: doc.price,
+            avg: doc.price,
+            last: doc.price,
+            samples: 1,
+        }));
+    }
+
+    const buckets = await PricePoint.aggregate<{
+        _id: Date;
+        min: number;
+        max: number;
+        avg: number;
+        last: number;
+        samples: number;
+    }>([
+        { $match: match },
+        { $sort: { observedAt: 1 } },
+        {
+            $group: {
+                _id: { $dateTrunc: { date: '$observedAt', unit: interval } },
+                min: { $min: '$price' },
+                max: { $max: '$price' },
+                avg: { $avg: '$price' },
+                last: { $last: '$price' },
+                samples: { $sum: 1 },
+            },
+        },
+        { $sort: { _id: -1 } },
+        { $limit: PRICE_HISTORY_MAX_POINTS },
+        { $sort: { _id: 1 } },
+    ]);
+
+    return buckets.map((bucket) => ({
+        timestamp: bucket._id.toISOString(),
+        min: bucket.min,
+        max: bucket.max,
+        avg: Math.round(bucket.avg * 100) / 100,
+        last: bucket.last,
+        samples: bucket.samples,
+    }));
+}
@@ -0,0 +1,81 @@
+/**
+ * Product service
+ *
+ * Maps subscribed URLs to the shared Product documents. Every variant of a
+ * URL that normalizes to the same canonical URL resolves to one product.
+ * Also reports products whose checks keep failing.
+ */
+import { Product, IProduct } from '../models/Product.model';
+import { Subscription } from '../models/Subscription.model';
+import { normalizeProductUrl } from '../utils';
+import { FAILING_PRODUCT_MIN_FAILURES } from '../config/constants';
+
+export interface ProductDetails {
+    url: string;
+    name: string;
+    image?: string;
+    currency?: string | null;
+}
+
+/**
+ * Find the product for a URL, creating it from the given details when it
+ * is not watched yet. Details of an existing product are left untouched,
+ * except for an image or currency it was missing. The price is left to the
+ * first check: a price sent by a client is only kept on its subscription.
+ */
+export async function findOrCreateProduct(details: ProductDetails): Promise<IProduct> {
+    const url = normalizeProductUrl(details.url);
+
+    const product = await Product.findOneAndUpdate(
+        { url },
+        {
+            $setOnInsert: {
+                url,
+                name: details.name,
+            },
+        },
+        { upsert: true, new: true },
+    );
+
+    let changed = false;
+    if (!product.image && details.image) {
+        product.image = details.image;
+        changed = true;
+    }
+    if (!product.currency && details.currency) {
+        product.currency = details.currency;
+        changed = true;
+    }
+    if (changed) {
+        await product.save();
+    }
+
+    return product;
+}
+
+/**
+ * Products whose last `minFailures` checks or more failed, failing the
+ * longest first, with the number of subscriptions still watching them.
+ * Delisted products are left out.
+ */
+export async function getFailingProducts(minFailures = FAILING_PRODUCT_MIN_FAILURES, limit = 100) {
+    const products = await Product.find({
+        consecutiveFailures: { $gte: minFailures },
+        scrapeStatus: { $ne: 'delisted' },
+    })
+        .sort({ consecutiveFailures: -1 })
+        .limit(limit)
+        .select('url name scrapeStatus lastFailureReason lastError consecutiveFailures failureStreak failingSince lastCheckedAt nextCheckAt')
+        .lean();
+
+    const counts = await Subscription.aggregate<{ _id: unknown; count: number }>([
+        { $match: { productId: { $in: products.map((p) => p._id) }, status: { $ne: 'expired' } } },
+        { $group: { _id: '$productId', count: { $sum: 1 } } },
+    ]);
+    const subscribers = new Map(counts.map(({ _id, count }) => [String(_id), count]));
+
+    return products.map((product) => ({
+        ...product,
+        subscribers: subscribers.get(String(product._id)) ?? 0,
+    }));
+}
@@ -0,0 +1,105 @@
+/**
+ * Check scheduling
+ *
+ * Decides when each product is checked next, so that volatile, popular
+ * products are checked often and stale listings back off:
+ * - price-change rate: a product whose price changes on every check is due
+ *   after MIN_CHECK_INTERVAL, one that never changes after MAX_CHECK_INTERVAL
+ *   (DEFAULT_CHECK_INTERVAL until VOLATILITY_MIN_CHECKS observations)
+ * - popularity: the interval shrinks with the number of subscribers
+ * - failures: the interval doubles with every consecutive failed check
+ * - domain budget: at most the domain policy's `maxRequestsPerHour`
+ *   (DOMAIN_CHECKS_PER_HOUR by default) checks are queued per domain per
+ *   hour; the rest wait
+ */
+import { IProduct } from '../models/Product.model';
+import { Job } from '../models/Job.model';
+import {
+    MIN_CHECK_INTERVAL,
+    MAX_CHECK_INTERVAL,
+    DEFAULT_CHECK_INTERVAL,
+    VOLATILITY_MIN_CHECKS,
+    VOLATILITY_SMOOTHING,
+} from '../config/constants';
+import { getDomainPolicy } from './domainPolicy';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Fold the outcome of a successful check into the product's smoothed
+ * price-change rate (exponentially weighted moving average).
+ * @param changed - Whether this check saw a different price than the last one
+ */
+export function updateChangeRate(product: IProduct, changed: boolean) {
+    product.changeRate += VOLATILITY_SMOOTHING * ((changed ? 1 : 0) - product.changeRate);
+    product.checkCount += 1;
+}
+
+/**
+ * Interval (ms) until the next check of a product.
+ * @param product - The product, with its check statistics up to date
+ * @param subscribers - Number of active subscriptions to the product
+ */
+export function computeCheckInterval(product: IProduct, subscribers: number): number {
+    // Geometric interpolation: each step of change rate scales the interval by the same factor
+    let interval = product.checkCount < VOLATILITY_MIN_CHECKS
+        ? DEFAULT_CHECK_INTERVAL
+        : MAX_CHECK_INTERVAL * (MIN_CHECK_INTERVAL / MAX_CHECK_INTERVAL) ** product.changeRate;
+
+    // 1 subscriber: as is, 3: half, 7: a third...
+    interval /= 1 + Math.log2(Math.max(1, subscribers));
+
+    // Back off from products that keep failing
+    interval *= 2 ** Math.min(product.consecutiveFailures, 10);
+
+    // ±10% jitter so products added together don't stay in lockstep
+    interval *= 0.9 + Math.random() * 0.2;
+
+    return Math.round(Math.min(MAX_CHECK_INTERVAL, Math.max(MIN_CHECK_INTERVAL, interval)));
+}
+
+/**
+ * Set the product's next check time from its statistics. Does not save.
+ */
+export function scheduleNextCheck(product: IProduct, subscribers: number, now: Date = new Date()) {
+    product.nextCheckAt = new Date(now.getTime() + computeCheckInterval(product, subscribers));
+}
+
+/**
+ * Per-domain check budget for one scheduler run. Counts the checks queued
+ * for each domain during the last hour (by any process) and grants the
+ * domain policy's `maxRequestsPerHour` minus that.
+ */
+export function createDomainBudget() {
+    const used = new Map<string, number>();
+
+    return {
+        /**
+         * Reserve one check for the domain.
+         * @returns false when the domain's hourly budget is spent
+         */
+        async take(domain: string): Promise<boolean> {
+            let count = used.get(domain);
+            if (count === undefined) {
+                count = await Job.countDocuments({ domain, createdAt: { $gt: new Date(Date.now() - HOUR_MS) } });
+            }
+            if (count >= getDomainPolicy(domain).maxRequestsPerHour) {
+                used.set(domain, count);
+                return false;
+            }
+            used.set(domain, count + 1);
+            return true;
+        },
+
+        /** Give back a check that was not queued after all */
+        release(domain: string) {
+            const count = used.get(domain);
+            if (count) used.set(domain, count - 1);
+        },
+
+        /** When to look at a product again after its domain ran out of budget */
+        retryAt(domain: string, now: Date = new Date()): Date {
+            return new Date(now.getTime() + HOUR_MS / getDomainPolicy(domain).maxRequestsPerHour);
+        },
+    };
+}
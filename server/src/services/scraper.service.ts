@@ -2,149 +2,79 @@
  * Scraper service
  *
  * Responsible for fetching product pages and extracting a small product
- * representation (name, price, url). Uses Cheerio for fast HTML parsing
- * and falls back to Puppeteer (with stealth plugin) when client-side rendering is required.
+ * representation (name, price, availability, url). Site-specific selectors
+ * live in retailer adapters (see ../retailers). Uses Cheerio for fast HTML
+ * parsing and falls back to Puppeteer (with stealth plugin) when client-side
+ * rendering is required. Both go through the proxy pool when PROXIES is
+ * set (see proxyPool.ts).
  */
 import { load } from 'cheerio';
-import { USER_AGENT, PLAYWRIGHT_TIMEOUT } from '../config/constants';
-import { isValidUrl } from '../utils';
-import puppeteer from 'puppeteer-extra';
-import StealthPlugin from 'puppeteer-extra-plugin-stealth';
-import { existsSync } from 'fs';
-import { join } from 'path';
-import { fileURLToPath } from 'url';
-import { dirname } from 'path';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-
-// Find Chrome executable in project directory
-function findChromeExecutable(): string | undefined {
-    // Check environment variable first
-    if (process.env.PUPPETEER_EXECUTABLE_PATH && existsSync(process.env.PUPPETEER_EXECUTABLE_PATH)) {
-        return process.env.PUPPETEER_EXECUTABLE_PATH;
-    }
-
-    // Check project chrome directory
-    const projectRoot = join(__dirname, '..', '..', '..');
-    const chromePatterns = [
-        'chrome/win64-*/chrome-win64/chrome.exe',  // Windows
-        'chrome/mac-*/chrome-mac/Chromium.app/Contents/MacOS/Chromium',  // Mac
-        'chrome/linux-*/chrome-linux/chrome',  // Linux
-    ];
-
-    // For Windows, manually check the pattern
-    const chromeDir = join(projectRoot, 'chrome');
-    if (existsSync(chromeDir)) {
-        const fs = require('fs');
-        const versions = fs.readdirSync(chromeDir).filter((f: string) => f.startsWith('win64-'));
-        if (versions.length > 0) {
-            const chromePath = join(chromeDir, versions[0], 'chrome-win64', 'chrome.exe');
-            if (existsSync(chromePath)) {
-                console.log('✅ Found Chrome at:', chromePath);
-                return chromePath;
-            }
-        }
-    }
-
-    // Fallback to system Chrome
-    console.log('⚠️ Chrome not found in project directory, will use system Chrome');
-    return undefined;
-}
+import { fetch as proxiedFetch } from 'undici';
+import { USER_AGENT, PLAYWRIGHT_TIMEOUT, FETCH_TIMEOUT } from '../config/constants';
+import { isValidUrl, extractDomain } from '../utils';
+import { parseMoney } from '../money';
+import { DomainPolicy, Money, ProductAvailability, ScrapeFailureReason } from '../types';
+import { getAdapterForUrl, genericAdapter, RetailerAdapter } from '../retailers';
+import { extractStructuredData } from '../retailers/structuredData';
+import { detectPageProblem } from '../retailers/pageProblems';
+import { withPage } from './browserPool';
+import { withDomainPolicy } from './domainPolicy';
+import { acquireProxy, reportProxyOutcome, getProxyDispatcher, ProxyServer } from './proxyPool';
 
 export interface ScrapedProduct {
     name: string;
     price: string;
     url: string;
+    currency?: string;
+    availability?: ProductAvailability;
+    sku?: string;
+    gtin?: string;
+    image?: string;
 }
 
-const PRICE_SELECTORS = [
-    // Meta tags (check first as they're most reliable)
-    'meta[property="product:price:amount"]',
-    'meta[property="og:price:amount"]',
-    '[itemprop=price]',
-
-    // Amazon specific (2024+ selectors)
-    '.a-price[data-a-size="xl"] .a-offscreen',
-    '.a-price[data-a-size="large"] .a-offscreen',
-    'span.a-price.aok-align-center span.a-offscreen',
-    '#corePriceDisplay_desktop_feature_div .a-price .a-offscreen',
-    '#corePrice_desktop .a-price .a-offscreen',
-    '.priceToPay .a-offscreen',
-    '.a-section.a-spacing-none.aok-align-center .a-price .a-offscreen',
-    '.a-price-whole',
-    '#priceblock_ourprice',
-    '#priceblock_dealprice',
-    '.a-price .a-offscreen',
-    '#price_inside_buybox',
-    '#priceblock_saleprice',
-
-    // eBay specific
-    '.x-price-primary .ux-textspans',
-    '.x-price-primary',
-    '#prcIsum',
-    '#mm-saleDscPrc',
-    '.display-price',
-    '.notranslate',
-    '.ui-display-price',
-
-    // Generic
-    '[data-price]',
-    '.price',
-];
-
+/**
+ * Extract product data from an HTML document.
+ * schema.org structured data (JSON-LD, microdata) is used first. Fields it
+ * does not provide are read with the retailer adapter matching the URL,
+ * then the generic adapter (meta tags, itemprops) and finally, for the
+ * price, a currency-looking token in the page text.
+ */
 export async function extractFromHtml(html: string, url: string): Promise<ScrapedProduct> {
     const $ = load(html);
+    const adapter = getAdapterForUrl(url);
+    const fallback = adapter === genericAdapter ? null : genericAdapter;
 
-    // Title extraction (try opengraph, title tag, h1/h2, then platform-specific selectors)
-    const ogTitle = ($('meta[property="og:title"]').attr('content') ||
-        $('meta[name="og:title"]').attr('content')) as string | undefined;
-    const titleTag = $('title').text().trim();
-    const h1 = $('h1').first().text().trim();
-    const h2 = $('h2').first().text().trim();
-
-    // Amazon specific
-    const amazonTitle = $('#productTitle').text().trim();
-    if (amazonTitle) {
-        console.log('✅ Found Amazon product title:', amazonTitle.substring(0, 60) + '...');
+    const structured = extractStructuredData($);
+    if (structured) {
+        console.log('🧩 Structured data found:', JSON.stringify(structured));
     }
 
-    // eBay specific
-    const ebayTitle = $('.x-item-title__mainTitle').text().trim() ||
-        $('#itemTitle').text().trim() ||
-        $('.it-ttl').text().trim();
-
-    const name = (amazonTitle || ebayTitle || ogTitle || titleTag || h1 || h2 || '')
+    // Title extraction (structured data, retailer selectors, then og:title, title tag, h1/h2)
+    const structuredTitle = structured?.name || null;
+    const adapterTitle = adapter.extractTitle($);
+    const fallbackTitle = fallback ? fallback.extractTitle($) : null;
+    const name = (structuredTitle || adapterTitle || fallbackTitle || '')
         .replace(/\s+/g, ' ')
         .trim() || url;
 
-    console.log('📝 Title extraction sources:', {
-        amazonTitle: amazonTitle ? amazonTitle.substring(0, 40) + '...' : 'none',
-        ebayTitle: ebayTitle ? ebayTitle.substring(0, 40) + '...' : 'none',
-        ogTitle: ogTitle ? ogTitle.substring(0, 40) + '...' : 'none',
-        titleTag: titleTag ? titleTag.substring(0, 40) + '...' : 'none',
+    console.log(`📝 Title extraction sources (${adapter.name}):`, {
+        structuredTitle: structuredTitle ? structuredTitle.substring(0, 40) + '...' : 'none',
+        adapterTitle: adapterTitle ? adapterTitle.substring(0, 40) + '...' : 'none',
+        fallbackTitle: fallbackTitle ? fallbackTitle.substring(0, 40) + '...' : 'none',
         selected: name.substring(0, 40) + '...'
     });
 
-    // Price extraction using prioritized selectors.
-    let price = '';
-    let matchedSelector = '';
-    for (const sel of PRICE_SELECTORS) {
-        const el = $(sel).first();
-        if (el && el.length) {
-            const v = el.attr('content') || el.text();
-            if (v && v.trim()) {
-                price = v.trim();
-                matchedSelector = sel;
-                break;
-            }
+    // Price extraction: structured offer, then the adapter's prioritized selectors
+    let price = structured?.price || '';
+    if (price) {
+        console.log(`💰 Price extracted via structured data => "${price}"`);
+    } else {
+        price = adapter.extractPrice($) || (fallback ? fallback.extractPrice($) : null) || '';
+        if (price) {
+            console.log(`💰 Price extracted via ${adapter.name} adapter => "${price}"`);
         }
     }
 
-    if (price && matchedSelector) {
-        console.log(`💰 Price extracted via selector: "${matchedSelector}" => "${price}"`);
-    }
-
     // Fallback: attempt to find a currency-looking token in the page text
     if (!price) {
         const text = $.root().text();
@@ -153,71 +83,206 @@ export async function extractFromHtml(html: string, url: string): Promise<Scrape
         price = m ? m[0].trim() : 'unknown';
     }
 
+    const currency = structured?.currency || adapter.extractCurrency($) || (fallback ? fallback.extractCurrency($) : null);
+    let availability = structured?.availability ?? adapter.extractAvailability($);
+    if (availability === 'unknown' && fallback) {
+        availability = fallback.extractAvailability($);
+    }
+
     return {
         name: name || url,
         price: price || 'unknown',
         url,
+        currency: currency || undefined,
+        availability,
+        sku: structured?.sku,
+        gtin: structured?.gtin,
+        image: structured?.image ? resolveUrl(structured.image, url) : undefined,
     };
 }
 
-export async function scrapeProduct(url: string): Promise<ScrapedProduct> {
-    if (!isValidUrl(url)) {
-        throw new Error('Invalid URL format');
+/**
+ * Resolve a possibly relative URL (e.g. a product image) against the page URL.
+ */
+function resolveUrl(value: string, base: string): string {
+    try {
+        return new URL(value, base).toString();
+    } catch {
+        return value;
     }
+}
+
+/** Outcome of a failed scrape */
+export interface ScrapeFailure {
+    ok: false;
+    reason: ScrapeFailureReason;
+    message: string;
+}
+
+/**
+ * Outcome of scraping a page: the extracted product (whose price may still
+ * be "unknown"), or why the page could not be read.
+ */
+export type ScrapeResult = { ok: true; product: ScrapedProduct } | ScrapeFailure;
 
-    // For Amazon and eBay, skip the initial fetch and go straight to Puppeteer
-    // These sites have strong bot detection that makes simple fetch unreliable
-    const hostname = new URL(url).hostname.toLowerCase();
-    const needsPuppeteerFirst =
-        hostname.includes('amazon') ||
-        hostname.includes('ebay');
+function failure(reason: ScrapeFailureReason, message: string): ScrapeFailure {
+    return { ok: false, reason, message };
+}
 
-    if (needsPuppeteerFirst) {
-        console.log('🎭 Detected Amazon/eBay, using Puppeteer with stealth directly...');
-        return await scrapeWithPuppeteer(url);
+/**
+ * Classify an error thrown while loading a page (fetch abort, Puppeteer
+ * navigation timeout, DNS or connection failure...).
+ */
+function classifyError(error: unknown): ScrapeFailure {
+    // fetch() reports "fetch failed" with the actual error (ECONNREFUSED...) as its cause
+    const cause = (error as { cause?: unknown } | null)?.cause;
+    const message = (error instanceof Error ? error.message : String(error))
+        + (cause instanceof Error ? ` (${cause.message})` : '');
+    const name = error instanceof Error ? error.name : '';
+    if (name === 'AbortError' || name === 'TimeoutError' || /timed? ?out/i.test(message)) {
+        return failure('timeout', message);
     }
+    return failure('network_error', message);
+}
 
-    try {
-        // Try a lightweight server-side fetch first (faster, less resource heavy)
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 10000);
-
-        const resp = await fetch(url, {
-            method: 'GET',
-            signal: controller.signal,
-            headers: {
-                'User-Agent': USER_AGENT,
-                'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-                'Accept-Language': 'en-US,en;q=0.5',
-                'Cache-Control': 'no-cache',
-            },
-        });
+/**
+ * Classify a loaded page from its HTTP status and content, and extract the
+ * product when it is a regular product page.
+ */
+async function readPage(html: string, status: number, url: string, adapter: RetailerAdapter): Promise<ScrapeResult> {
+    if (status === 404 || status === 410) {
+        return failure('not_found', `HTTP ${status}`);
+    }
 
-        clearTimeout(timeoutId);
+    const problem = detectPageProblem(load(html), adapter);
+    if (problem === 'blocked') {
+        return failure('blocked', `Bot protection page (HTTP ${status})`);
+    }
+    if (problem === 'not_found') {
+        return failure('not_found', `Product page gone (HTTP ${status})`);
+    }
+
+    if (status === 403 || status === 429) {
+        return failure('blocked', `HTTP ${status}`);
+    }
+    if (status < 200 || status >= 300) {
+        return failure('network_error', `HTTP ${status}`);
+    }
+
+    return { ok: true, product: await extractFromHtml(html, url) };
+}
+
+/**
+ * Proxy for a request to the URL's domain, or null to connect directly
+ * (empty pool, or a domain policy with `useProxy: false`).
+ */
+function pickProxy(url: string, policy: DomainPolicy, browser: boolean): ProxyServer | null {
+    return policy.useProxy ? acquireProxy(extractDomain(url), { browser }) : null;
+}
+
+/**
+ * Feed the outcome of a proxied request back into the proxy's health.
+ * Pages that loaded count as successes, whatever they showed.
+ */
+function reportProxyResult(proxy: ProxyServer | null, url: string, result: ScrapeResult) {
+    if (!proxy) return;
+    const reason = result.ok ? null : result.reason;
+    reportProxyOutcome(proxy, extractDomain(url),
+        reason === 'blocked' ? 'blocked'
+            : reason === 'timeout' || reason === 'network_error' ? 'error'
+                : 'ok');
+}
+
+/**
+ * Fetch a page with a plain HTTP request and read it. Never throws.
+ */
+async function fetchPage(url: string, adapter: RetailerAdapter, policy: DomainPolicy): Promise<ScrapeResult> {
+    const proxy = pickProxy(url, policy, false);
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
+    const init = {
+        method: 'GET',
+        signal: controller.signal,
+        headers: {
+            'User-Agent': USER_AGENT,
+            'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+            'Accept-Language': 'en-US,en;q=0.5',
+            'Cache-Control': 'no-cache',
+        },
+    };
+
+    let result: ScrapeResult;
+    try {
+        // The proxy dispatcher comes from the undici package, so use its fetch too
+        const resp = proxy
+            ? await proxiedFetch(url, { ...init, dispatcher: getProxyDispatcher(proxy) })
+            : await fetch(url, init);
 
         if (!resp.ok) {
-            console.warn(`HTTP ${resp.status} for URL:`, url);
-            throw new Error(`HTTP ${resp.status}`);
+            console.warn(`HTTP ${resp.status} for URL:`, url, proxy ? `(via ${proxy.id})` : '');
         }
 
-        const html = await resp.text();
-        let result = await extractFromHtml(html, url);
+        result = await readPage(await resp.text(), resp.status, url, adapter);
+    } catch (error) {
+        result = classifyError(error);
+    } finally {
+        clearTimeout(timeoutId);
+    }
 
-        // Check if extraction looks valid
-        const needsPuppeteer = isInvalidExtraction(result, url);
+    reportProxyResult(proxy, url, result);
+    return result;
+}
 
-        if (needsPuppeteer) {
-            console.log('⚠️ Initial extraction looks invalid, trying Puppeteer fallback...');
-            console.log('Initial result:', result);
-            result = await scrapeWithPuppeteer(url);
-        }
+/**
+ * Scrape a product page under its domain's politeness policy (see
+ * domainPolicy.ts). Pages are fetched, falling back to Puppeteer when the
+ * fetch fails or its extraction looks invalid. Throws for invalid URLs;
+ * requests refused by the domain policy fail as `disallowed`.
+ */
+export async function scrapeProduct(url: string): Promise<ScrapeResult> {
+    if (!isValidUrl(url)) {
+        throw new Error('Invalid URL format');
+    }
 
-        return result;
+    const adapter = getAdapterForUrl(url);
+
+    try {
+        return await withDomainPolicy(url, async (policy) => {
+            // Retailers with strong bot detection (Amazon, eBay) and domains
+            // configured as headless-only skip the initial fetch and go straight
+            // to Puppeteer, as simple fetch is unreliable there
+            if (adapter.requiresBrowser || policy.forceHeadless) {
+                console.log(`🎭 Detected ${adapter.name}, using Puppeteer with stealth directly...`);
+                return await scrapeWithPuppeteer(url, adapter, policy);
+            }
+
+            // Try a lightweight server-side fetch first (faster, less resource heavy)
+            const fetched = await fetchPage(url, adapter, policy);
+
+            // A missing page stays missing in a browser
+            if (!fetched.ok && fetched.reason === 'not_found') {
+                return fetched;
+            }
+            if (fetched.ok && !isInvalidExtraction(fetched.product, url)) {
+                return fetched;
+            }
+
+            if (fetched.ok) {
+                console.log('⚠️ Initial extraction looks invalid, trying Puppeteer fallback...');
+                console.log('Initial result:', fetched.product);
+            } else {
+                console.log(`⚠️ Fetch failed (${fetched.reason}: ${fetched.message}), trying Puppeteer fallback...`);
+            }
+            const rendered = await scrapeWithPuppeteer(url, adapter, policy);
+
+            // Keep the fetched page when the browser could not load it at all
+            return rendered.ok || !fetched.ok ? rendered : fetched;
+        });
     } catch (error) {
-        console.error('Scraping error:', error);
-        // Try Puppeteer as a last resort
-        console.log('⚠️ Fetch failed, trying Puppeteer fallback...');
-        return await scrapeWithPuppeteer(url);
+        // The task never throws: only the domain policy refuses requests
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`⛔ ${message}`);
+        return failure('disallowed', message);
     }
 }
 
@@ -264,222 +329,116 @@ function isInvalidExtraction(result: ScrapedProduct, url: string): boolean {
     return false;
 }
 
-// Enable stealth plugin
-puppeteer.use(StealthPlugin());
-
-async function scrapeWithPuppeteer(url: string): Promise<ScrapedProduct> {
-    let browser;
+/**
+ * Render a page with headless Chrome (stealth) and read it with the
+ * retailer adapter. Never throws.
+ */
+async function scrapeWithPuppeteer(url: string, adapter: RetailerAdapter, policy: DomainPolicy): Promise<ScrapeResult> {
+    const proxy = pickProxy(url, policy, true);
+    let result: ScrapeResult;
     try {
-        console.log('🤖 Launching Puppeteer with stealth plugin for:', url);
-
-        const chromePath = findChromeExecutable();
-        console.log('🌐 Using Chrome executable:', chromePath || 'system default');
-
-        // Launch browser with stealth mode
-        browser = await puppeteer.launch({
-            headless: true,
-            executablePath: chromePath,
-            args: [
-                '--no-sandbox',
-                '--disable-setuid-sandbox',
-                '--disable-dev-shm-usage',
-                '--disable-accelerated-2d-canvas',
-                '--disable-gpu',
-                '--window-size=1920,1080',
-            ],
-        });
-
-        const page = await browser.newPage();
-
-        // Set viewport and user agent
-        await page.setViewport({ width: 1920, height: 1080 });
-        await page.setUserAgent(USER_AGENT);
-
-        // Set extra headers
-        await page.setExtraHTTPHeaders({
-            'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-            'Accept-Language': 'en-US,en;q=0.5',
-            'Accept-Encoding': 'gzip, deflate, br',
-            'DNT': '1',
-            'Connection': 'keep-alive',
-            'Upgrade-Insecure-Requests': '1',
-        });
+        console.log('🤖 Rendering with pooled Puppeteer page:', url, proxy ? `(via ${proxy.id})` : '');
 
-        console.log('🌐 Navigating to:', url);
+        result = await withPage(async (page) => {
+            // Set viewport and user agent
+            await page.setViewport({ width: 1920, height: 1080 });
+            await page.setUserAgent(USER_AGENT);
 
-        // Navigate with network idle
-        await page.goto(url, {
-            waitUntil: 'networkidle2',
-            timeout: PLAYWRIGHT_TIMEOUT,
-        });
-
-        // Random delay to mimic human behavior (1-3 seconds)
-        await new Promise(resolve => setTimeout(resolve, 1000 + Math.random() * 2000));
-
-        // Wait for common price elements to appear
-        const priceSelectorsToWait = [
-            '.a-price .a-offscreen',
-            '#corePriceDisplay_desktop_feature_div',
-            '.x-price-primary',
-            '[itemprop=price]',
-            '.price',
-        ];
-
-        for (const selector of priceSelectorsToWait) {
-            try {
-                await page.waitForSelector(selector, { timeout: 3000, visible: true });
-                console.log(`✅ Found price element: ${selector}`);
-                break;
-            } catch (e) {
-                console.log(`⏭️ Selector not found: ${selector}`);
-            }
-        }
-
-        // Extract data directly from page (same as userscript)
-        const extractedData = await page.evaluate(() => {
-            // Title extraction
-            const amazonTitle = document.querySelector('#productTitle');
-            const ebayTitle = document.querySelector('.x-item-title__mainTitle') ||
-                document.querySelector('#itemTitle') ||
-                document.querySelector('.it-ttl');
-            const ogTitle = document.querySelector('meta[property="og:title"]');
-            const genericTitle = document.querySelector('h1') || document.querySelector('h2');
-
-            const title = (
-                amazonTitle?.textContent ||
-                ebayTitle?.textContent ||
-                (ogTitle as HTMLMetaElement)?.content ||
-                genericTitle?.textContent ||
-                document.title
-            ).trim();
-
-            // Price extraction with same selectors as userscript
-            const priceSelectors = [
-                '#corePriceDisplay_desktop_feature_div .a-price .a-offscreen',
-                '#corePrice_desktop .a-price .a-offscreen',
-                '.priceToPay .a-offscreen',
-                '#priceblock_ourprice',
-                '#priceblock_dealprice',
-                '.a-price .a-offscreen',
-                '.x-price-primary .ux-textspans',
-                '.x-price-primary',
-                '#prcIsum',
-                '.display-price',
-                '.notranslate',
-                '.price',
-            ];
-
-            let price = 'unknown';
-            for (const sel of priceSelectors) {
-                const priceEl = document.querySelector(sel);
-                if (priceEl && priceEl.textContent?.trim()) {
-                    price = priceEl.textContent.trim();
+            // Set extra headers
+            await page.setExtraHTTPHeaders({
+                'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+                'Accept-Language': 'en-US,en;q=0.5',
+                'Accept-Encoding': 'gzip, deflate, br',
+                'DNT': '1',
+                'Connection': 'keep-alive',
+                'Upgrade-Insecure-Requests': '1',
+            });
+
+            console.log('🌐 Navigating to:', url);
+
+            // Navigate with network idle
+            const response = await page.goto(url, {
+                waitUntil: 'networkidle2',
+                timeout: PLAYWRIGHT_TIMEOUT,
+            });
+
+            // Random delay to mimic human behavior (1-3 seconds)
+            await new Promise(resolve => setTimeout(resolve, 1000 + Math.random() * 2000));
+
+            // Wait for the retailer's price elements to appear
+            for (const selector of adapter.waitForSelectors) {
+                try {
+                    await page.waitForSelector(selector, { timeout: 3000, visible: true });
+                    console.log(`✅ Found price element: ${selector}`);
                     break;
+                } catch (e) {
+                    console.log(`⏭️ Selector not found: ${selector}`);
                 }
             }
 
-            return { title, price };
-        });
-
-        console.log('📄 Puppeteer extracted from page:', extractedData);
-
-        const result: ScrapedProduct = {
-            name: extractedData.title || url,
-            price: extractedData.price || 'unknown',
-            url,
-        };
+            // Read the rendered DOM with the same adapter used for fetched pages
+            const result = await readPage(await page.content(), response?.status() ?? 200, url, adapter);
 
-        console.log('🤖 Final result:', JSON.stringify(result, null, 2));
-        return result;
+            console.log('🤖 Final result:', JSON.stringify(result, null, 2));
+            return result;
+        }, proxy);
     } catch (error) {
         console.warn('❌ Puppeteer scraping failed:', error);
-        return { name: url, price: 'unknown', url };
-    } finally {
-        if (browser) {
-            await browser.close();
-            console.log('🤖 Browser closed');
-        }
+        result = classifyError(error);
     }
+
+    reportProxyResult(proxy, url, result);
+    return result;
+}
+
+/**
+ * Current price and stock state of a product, as read by a check.
+ */
+export interface ProductStatus {
+    /** Null when the page shows no readable price (e.g. sold out) */
+    price: Money | null;
+    availability: ProductAvailability;
 }
 
-export async function fetchCurrentPrice(url: string): Promise<number | null> {
+/**
+ * Fetch the current price (amount and currency) and availability of a
+ * product page. Fails as `selector_miss` when the page shows neither.
+ * Uses the headless browser for retailers that require it.
+ */
+export async function fetchProductStatus(url: string): Promise<({ ok: true } & ProductStatus) | ScrapeFailure> {
     if (!isValidUrl(url)) {
         console.warn('Invalid URL format:', url);
-        return null;
+        return failure('not_found', 'Invalid URL format');
     }
 
-    // Use Puppeteer for Amazon/eBay for consistency
-    const hostname = new URL(url).hostname.toLowerCase();
-    const shouldUsePuppeteer =
-        hostname.includes('amazon') ||
-        hostname.includes('ebay');
-
-    if (shouldUsePuppeteer) {
-        try {
-            const product = await scrapeWithPuppeteer(url);
-            if (product.price && product.price !== 'unknown') {
-                const numStr = product.price.replace(/[^0-9.]/g, '');
-                const num = parseFloat(numStr);
-                return isNaN(num) ? null : num;
-            }
-            return null;
-        } catch (error) {
-            console.error('fetchCurrentPrice (Puppeteer) error:', error);
-            return null;
-        }
-    }
-
-    // For other sites, use simple fetch
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000);
+    const adapter = getAdapterForUrl(url);
 
+    let result: ScrapeResult;
     try {
-        const res = await fetch(url, {
-            signal: controller.signal,
-            headers: {
-                'User-Agent': USER_AGENT,
-                'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-            },
-        });
-
-        if (!res.ok) {
-            console.warn(`HTTP ${res.status} for URL:`, url);
-            return null;
-        }
-
-        const html = await res.text();
-        const $ = load(html);
-
-        let priceStr = '';
-        for (const sel of PRICE_SELECTORS) {
-            const el = $(sel).first();
-            if (el && el.length) {
-                const v = el.attr('content') || el.text();
-                if (v && v.trim()) {
-                    priceStr = v.trim();
-                    break;
-                }
-            }
-        }
+        result = await withDomainPolicy(url, async (policy) =>
+            adapter.requiresBrowser || policy.forceHeadless
+                ? scrapeWithPuppeteer(url, adapter, policy)
+                : fetchPage(url, adapter, policy)
+        );
+    } catch (error) {
+        // The task never throws: only the domain policy refuses requests
+        return failure('disallowed', error instanceof Error ? error.message : String(error));
+    }
 
-        // Fallback regex
-        if (!priceStr) {
-            const text = $.root().text();
-            const m = text.match(/[$£€]\s?[0-9,]+\.?[0-9]{0,2}/) ||
-                text.match(/[0-9][0-9,]+\.?[0-9]{0,2}\s?(USD|EUR|GBP|EGP)?/i);
-            priceStr = m ? m[0].trim() : '';
-        }
+    if (!result.ok) {
+        console.warn(`fetchProductStatus (${adapter.name}) failed for ${url}: ${result.reason} - ${result.message}`);
+        return result;
+    }
 
-        if (!priceStr) return null;
+    // Locale-aware parse; the extracted currency fills in for bare amounts
+    const { product } = result;
+    const price = product.price && product.price !== 'unknown'
+        ? parseMoney(product.price, { currency: product.currency })
+        : null;
+    const availability = product.availability ?? 'unknown';
 
-        // Parse price string to a numeric value (strip currency symbols)
-        const numStr = priceStr.replace(/[^0-9.]/g, '');
-        const num = parseFloat(numStr);
-        return isNaN(num) ? null : num;
-    } catch (error) {
-        console.error('fetchCurrentPrice error:', error);
-        return null;
-    } finally {
-        clearTimeout(timeoutId);
+    if (!price && availability === 'unknown') {
+        return failure('selector_miss', 'Neither price nor availability found');
     }
+    return { ok: true, price, availability };
 }
@@ -0,0 +1,246 @@
+/**
+ * Subscriber service
+ *
+ * One Subscriber per email address owns all subscriptions of that address,
+ * its watchlist. The subscribe endpoint attaches new subscriptions to their
+ * subscriber; the watchlist API (authenticated by a manage magic link, which
+ * proves the address) lists, bulk adds, bulk removes and exports them, and
+ * updates the subscriber's language, time zone, quiet hours and default
+ * alert rules.
+ */
+import mongoose from 'mongoose';
+import { Subscriber, ISubscriber, IQuietHours } from '../models/Subscriber.model';
+import { Subscription, IAlertRules } from '../models/Subscription.model';
+import { Product } from '../models/Product.model';
+import { findOrCreateProduct } from './product.service';
+import { parseMoney } from '../money';
+import { normalizeProductUrl } from '../utils';
+
+/** A product to add to a watchlist, as read from its page */
+export interface WatchlistProductInput {
+    name: string;
+    price: string;
+    url: string;
+    image?: string;
+}
+
+/** Outcome of adding one product: `added`, or `already_watching` when it was on the watchlist */
+export interface WatchlistAddResult {
+    url: string;
+    status: 'added' | 'already_watching';
+    id: string;
+}
+
+/** Changes to a subscriber; `quietHours: null` turns quiet hours off */
+export interface SubscriberChanges {
+    locale?: string;
+    timezone?: string;
+    quietHours?: IQuietHours | null;
+    defaultAlert?: IAlertRules | null;
+}
+
+/** Subscriptions counted as watched: confirmed and still sold */
+const WATCHED = { status: { $nin: ['pending', 'expired'] } };
+
+/**
+ * Find the subscriber of an email address, creating it (in the given
+ * language) on first use.
+ */
+export async function findOrCreateSubscriber(email: string, locale?: string): Promise<ISubscriber> {
+    try {
+        return await Subscriber.findOneAndUpdate(
+            { email },
+            { $setOnInsert: { email, ...(locale ? { locale } : {}) } },
+            { upsert: true, new: true },
+        );
+    } catch (error: any) {
+        // A concurrent request created it first
+        if (error?.code === 11000) {
+            const existing = await Subscriber.findOne({ email });
+            if (existing) return existing;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Record that the subscriber proved they own the address (confirmation or
+ * magic link opened).
+ */
+export async function markSubscriberVerified(subscriber: ISubscriber): Promise<void> {
+    if (!subscriber.verified) {
+        subscriber.verified = true;
+        subscriber.verifiedAt = new Date();
+        await subscriber.save();
+    }
+}
+
+/**
+ * Number of products a subscriber watches (confirmed and still sold).
+ */
+export async function countWatchlist(subscriberId: mongoose.Types.ObjectId | string): Promise<number> {
+    return Subscription.countDocuments({ subscriberId, ...WATCHED });
+}
+
+/**
+ * Every subscription of a subscriber, newest first, with the latest price
+ * and stock state of its product.
+ */
+export async function getWatchlist(subscriberId: mongoose.Types.ObjectId | string) {
+    const subscriptions = await Subscription.find({ subscriberId }).sort({ createdAt: -1 }).lean();
+    const products = await Product.find({ _id: { $in: subscriptions.map((sub) => sub.productId) } })
+        .select('lastPrice currency availability scrapeStatus lastCheckedAt')
+        .lean();
+    const productsById = new Map(products.map((product) => [String(product._id), product]));
+
+    return subscriptions.map((sub) => {
+        const product = productsById.get(String(sub.productId));
+        return {
+            id: String(sub._id),
+            status: sub.status,
+            product: {
+                name: sub.product.name,
+                url: sub.product.url,
+                image: sub.product.image ?? null,
+                // Price shown when the product was added
+                priceWhenAdded: sub.product.price,
+            },
+            lastPrice: product?.lastPrice ?? null,
+            currency: product?.currency ?? sub.product.currency ?? null,
+            availability: product?.availability ?? 'unknown',
+            lastCheckedAt: product?.lastCheckedAt ?? null,
+            alert: sub.alert ?? null,
+            createdAt: sub.createdAt,
+        };
+    });
+}
+
+export type WatchlistItem = Awaited<ReturnType<typeof getWatchlist>>[number];
+
+/**
+ * Add products to a subscriber's watchlist with their default alert rules.
+ * The caller authenticated the address, so subscriptions start active
+ * without a confirmation email. Products already watched are left as they
+ * are; pending ones are confirmed and expired ones start over.
+ */
+export async function addToWatchlist(subscriber: ISubscriber, products: WatchlistProductInput[]): Promise<WatchlistAddResult[]> {
+    const results: WatchlistAddResult[] = [];
+
+    for (const input of products) {
+        const price = parseMoney(input.price);
+        const product = await findOrCreateProduct({
+            url: input.url,
+            name: input.name,
+            image: input.image,
+            currency: price?.currency,
+        });
+        const url = normalizeProductUrl(input.url);
+
+        const existing = await Subscription.findOne({ email: subscriber.email, productId: product._id });
+        if (existing && existing.status === 'expired') {
+            await existing.deleteOne();
+        } else if (existing) {
+            if (existing.status === 'pending') {
+                existing.status = 'active';
+                existing.confirmedAt = new Date();
+            }
+            existing.subscriberId ??= subscriber._id as mongoose.Types.ObjectId;
+            await existing.save();
+            results.push({ url, status: 'already_watching', id: String(existing._id) });
+            continue;
+        }
+
+        try {
+            const subscription = await Subscription.create({
+                email: subscriber.email,
+                subscriberId: subscriber._id,
+                productId: product._id,
+                product: {
+                    name: input.name,
+                    price: input.price,
+                    url,
+                    image: input.image,
+                    currency: price?.currency ?? undefined,
+                },
+                alert: subscriber.preferences?.defaultAlert,
+                locale: subscriber.locale,
+                status: 'active',
+                confirmedAt: new Date(),
+            });
+            results.push({ url, status: 'added', id: String(subscription._id) });
+        } catch (error: any) {
+            // Same product twice in the request, or a concurrent subscribe
+            if (error?.code !== 11000) throw error;
+            const winner = await Subscription.findOne({ email: subscriber.email, productId: product._id }).select('_id');
+            results.push({ url, status: 'already_watching', id: String(winner?._id) });
+        }
+    }
+
+    console.log(`✓ Subscriber ${subscriber.email} added ${results.filter((r) => r.status === 'added').length} products to their watchlist`);
+    return results;
+}
+
+/**
+ * Remove subscriptions from a subscriber's watchlist. Ids of other
+ * subscribers' subscriptions are ignored.
+ * @returns Number of subscriptions removed
+ */
+export async function removeFromWatchlist(subscriber: ISubscriber, subscriptionIds: string[]): Promise<number> {
+    const result = await Subscription.deleteMany({ _id: { $in: subscriptionIds }, subscriberId: subscriber._id });
+    console.log(`✓ Subscriber ${subscriber.email} removed ${result.deletedCount} products from their watchlist`);
+    return result.deletedCount;
+}
+
+/**
+ * Update a subscriber's language, time zone, quiet hours and default alert
+ * rules. Fields left undefined are kept; `null` clears quiet hours or the
+ * default rules.
+ */
+export async function updateSubscriber(subscriber: ISubscriber, changes: SubscriberChanges): Promise<ISubscriber> {
+    if (changes.locale !== undefined) subscriber.locale = changes.locale;
+    if (changes.timezone !== undefined) subscriber.timezone = changes.timezone;
+    if (changes.quietHours !== undefined) subscriber.quietHours = changes.quietHours ?? undefined;
+    if (changes.defaultAlert !== undefined) {
+        subscriber.preferences = { ...subscriber.preferences, defaultAlert: changes.defaultAlert ?? undefined };
+    }
+    await subscriber.save();
+    return subscriber;
+}
+
+/** Columns of the CSV export, in order */
+const CSV_COLUMNS: [string, (item: WatchlistItem) => unknown][] = [
+    ['name', (item) => item.product.name],
+    ['url', (item) => item.product.url],
+    ['status', (item) => item.status],
+    ['price_when_added', (item) => item.product.priceWhenAdded],
+    ['last_price', (item) => item.lastPrice],
+    ['currency', (item) => item.currency],
+    ['availability', (item) => item.availability],
+    ['target_price', (item) => item.alert?.targetPrice],
+    ['min_drop_percent', (item) => item.alert?.minDropPercent],
+    ['min_drop_amount', (item) => item.alert?.minDropAmount],
+    ['added_at', (item) => item.createdAt.toISOString()],
+];
+
+/**
+ * Quote a CSV field (RFC 4180). Text starting like a formula gets a leading
+ * apostrophe so spreadsheets don't evaluate product names from shop pages.
+ */
+function csvField(value: unknown): string {
+    let text = value == null ? '' : String(value);
+    if (/^[=+\-@\t\r]/.test(text) && typeof value === 'string') {
+        text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Watchlist as CSV, one row per subscription with a header row.
+ */
+export function watchlistToCsv(items: WatchlistItem[]): string {
+    const rows = [
+        CSV_COLUMNS.map(([name]) => name),
+        ...items.map((item) => CSV_COLUMNS.map(([, read]) => read(item))),
+    ];
+    return rows.map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
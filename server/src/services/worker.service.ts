@@ -0,0 +1,149 @@
+/**
+ * Worker service
+ *
+ * Runs up to WORKER_CONCURRENCY jobs from the job queue at a time: price
+ * checks, notification deliveries (see dispatcher.service.ts) and digest
+ * emails (see digest.service.ts). Each job is claimed when due, run, and
+ * marked completed or failed (retried with backoff by the queue). Its lock
+ * is renewed every JOB_LOCK_RENEW_INTERVAL_MS while it runs, so however
+ * long a job takes, no other worker picks it up.
+ *
+ * Checks of different domains run in parallel; the domain policy (see
+ * domainPolicy.ts) spaces and caps requests to the same domain. Started by
+ * worker.ts, or inside the web process when EMBEDDED_WORKER is enabled.
+ */
+import { hostname } from 'os';
+import { IJob } from '../models/Job.model';
+import { Product } from '../models/Product.model';
+import { claimNextJob, completeJob, failJob, renewJobLock } from './jobQueue.service';
+import { checkProduct } from './notifier.service';
+import { deliverNotification } from './dispatcher.service';
+import { sendDigest } from './digest.service';
+import { randomDelay } from '../utils';
+import { JOB_LOCK_RENEW_INTERVAL_MS, WORKER_CONCURRENCY, WORKER_POLL_INTERVAL_MS } from '../config/constants';
+
+const workerId = `${hostname()}:${process.pid}`;
+
+let running = false;
+let loop: Promise<void> | null = null;
+let wakeUp: (() => void) | null = null;
+
+/** Sleep, or return early when the worker is stopped */
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+        const timer = setTimeout(resolve, ms);
+        wakeUp = () => {
+            clearTimeout(timer);
+            resolve();
+        };
+    });
+}
+
+/**
+ * Run a check-product job.
+ * @returns Result stored on the completed job
+ */
+async function runProductCheck(job: IJob): Promise<Record<string, unknown>> {
+    const product = await Product.findById(job.productId);
+    if (!product) {
+        return { skipped: 'product_deleted' };
+    }
+
+    // Random delay to appear more human-like
+    await new Promise(resolve => setTimeout(resolve, randomDelay()));
+
+    return await checkProduct(product);
+}
+
+/**
+ * Run a job of any type.
+ * @returns Result stored on the completed job
+ */
+async function runJobType(job: IJob): Promise<Record<string, unknown>> {
+    const isLastAttempt = job.attempts >= job.maxAttempts;
+    switch (job.type) {
+        case 'deliver-notification':
+            return deliverNotification(String(job.notificationId), isLastAttempt);
+        case 'send-digest':
+            return sendDigest(job.email!, job.digest!);
+        default:
+            return runProductCheck(job);
+    }
+}
+
+async function runJob(job: IJob) {
+    const heartbeat = setInterval(() => {
+        renewJobLock(job)
+            .then((renewed) => {
+                if (!renewed) console.warn(`Job ${job._id} (${job.type}) lost its lock`);
+            })
+            .catch((error) => console.error(`Job ${job._id} lock renewal error:`, error));
+    }, JOB_LOCK_RENEW_INTERVAL_MS);
+
+    try {
+        const result = await runJobType(job);
+        await completeJob(job, result);
+    } catch (error) {
+        const retryAt = await failJob(job, error);
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(retryAt
+            ? `Job ${job._id} (${job.type}) attempt ${job.attempts} failed, retrying at ${retryAt.toISOString()}: ${message}`
+            : `Job ${job._id} (${job.type}) failed after ${job.attempts} attempts: ${message}`);
+    } finally {
+        clearInterval(heartbeat);
+    }
+}
+
+/**
+ * Start processing jobs. Calling twice will have no effect.
+ */
+export function startWorker() {
+    if (running) {
+        console.log('Worker already running');
+        return;
+    }
+
+    running = true;
+    console.log(`👷 Worker ${workerId} started`);
+
+    loop = (async () => {
+        const active = new Set<Promise<void>>();
+
+        while (running) {
+            // All slots busy: wait for one to free up
+            if (active.size >= WORKER_CONCURRENCY) {
+                await Promise.race(active);
+                continue;
+            }
+
+            try {
+                const job = await claimNextJob(workerId);
+                if (job) {
+                    const task: Promise<void> = runJob(job)
+                        .catch((error) => console.error(`Job ${job._id} error:`, error))
+                        .finally(() => active.delete(task));
+                    active.add(task);
+                } else {
+                    await Promise.race([sleep(WORKER_POLL_INTERVAL_MS), ...active]);
+                }
+            } catch (error) {
+                console.error('Worker error:', error);
+                await sleep(WORKER_POLL_INTERVAL_MS);
+            }
+        }
+
+        await Promise.all(active);
+    })();
+}
+
+/**
+ * Stop claiming jobs and wait for the running ones to finish.
+ */
+export async function stopWorker() {
+    if (!running) return;
+    running = false;
+    wakeUp?.();
+    await loop;
+    loop = null;
+    console.log(`👷 Worker ${workerId} stopped`);
+}
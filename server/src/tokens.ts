@@ -0,0 +1,69 @@
+/**
+ * Signed tokens for links sent by email and admin sessions.
+ * A token is `<payload>.<signature>` where the payload is base64url JSON
+ * `{ p: purpose, s: subject, e: expiry (unix seconds) }` and the signature an
+ * HMAC-SHA256 of the payload with TOKEN_SECRET. Tokens are stateless: they
+ * cannot be revoked, so keep their lifetime short and their effect idempotent.
+ */
+import { createHmac, timingSafeEqual } from 'crypto';
+import { TOKEN_SECRET } from './config/constants';
+
+/**
+ * What a token authorizes; a token signed for one purpose is rejected for another.
+ * - confirm: activate a pending subscription (subject: subscription id)
+ * - unsubscribe: delete one subscription (subject: subscription id)
+ * - manage: self-service access to all subscriptions of an email (subject: email)
+ * - watchlist: read the size of a watchlist from the widget (subject: subscriber id)
+ * - admin: admin session issued by POST /admin/login (subject: admin key id)
+ */
+export type TokenPurpose = 'confirm' | 'unsubscribe' | 'manage' | 'watchlist' | 'admin';
+
+interface TokenPayload {
+    p: TokenPurpose;
+    s: string;
+    e: number;
+}
+
+function sign(data: string): string {
+    return createHmac('sha256', TOKEN_SECRET).update(data).digest('base64url');
+}
+
+/**
+ * Create a signed token.
+ * @param purpose - What the token may be used for
+ * @param subject - The id the token refers to (e.g. a subscription id)
+ * @param ttlMs - Lifetime in milliseconds
+ */
+export function signToken(purpose: TokenPurpose, subject: string, ttlMs: number): string {
+    const payload: TokenPayload = {
+        p: purpose,
+        s: subject,
+        e: Math.floor((Date.now() + ttlMs) / 1000),
+    };
+    const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${data}.${sign(data)}`;
+}
+
+/**
+ * Verify a token and return its subject, or null when the token is
+ * malformed, tampered with, expired or signed for another purpose.
+ */
+export function verifyToken(token: string, purpose: TokenPurpose): string | null {
+    const [data, signature] = String(token).split('.');
+    if (!data || !signature) return null;
+
+    const expected = Buffer.from(sign(data));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+        return null;
+    }
+
+    try {
+        const payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf8')) as TokenPayload;
+        if (payload.p !== purpose || typeof payload.s !== 'string') return null;
+        if (payload.e * 1000 < Date.now()) return null;
+        return payload.s;
+    } catch {
+        return null;
+    }
+}
@@ -4,6 +4,15 @@
  * and the database model, improving type-safety and readability.
  */
 
+/**
+ * A parsed price. `currency` is an ISO 4217 code, or null when the source
+ * string did not say (e.g. "19.99").
+ */
+export interface Money {
+    amount: number;
+    currency: string | null;
+}
+
 /**
  * Minimal product representation used in API requests and DB documents.
  */
@@ -11,7 +20,29 @@ export interface Product {
     url: string;
     name?: string;
     price?: string;
-    lastSeenPrice?: number;
+    image?: string;
+    currency?: string;
+}
+
+/** How often a digest email collects a subscriber's price drops */
+export type DigestFrequency = 'daily' | 'weekly';
+
+/**
+ * Optional alert rules narrowing which price drops trigger a notification.
+ * All rules that are set must be satisfied. `backInStock` additionally
+ * asks for an alert when the product becomes available again.
+ * `allTimeLow` only announces prices below every price seen before,
+ * `cooldownHours` spaces price-drop notifications out and `digest` collects
+ * them into one email per day or week.
+ */
+export interface AlertRules {
+    targetPrice?: number;
+    minDropPercent?: number;
+    minDropAmount?: number;
+    backInStock?: boolean;
+    allTimeLow?: boolean;
+    cooldownHours?: number;
+    digest?: DigestFrequency;
 }
 
 /**
@@ -19,11 +50,37 @@ export interface Product {
  */
 export interface Subscription {
     email: string;
+    productId?: string;
     product: Product;
+    alert?: AlertRules;
+    /** Where notifications go (email, webhook, slack, discord, telegram); the email when empty */
+    channels?: { type: string; address: string }[];
+    status?: 'pending' | 'active' | 'paused' | 'expired';
+    locale?: string;
+    confirmedAt?: string;
+    lastNotifiedPrice?: number;
     createdAt?: string;
     lastNotifiedAt?: string;
 }
 
+/**
+ * How politely a shop domain is scraped (see services/domainPolicy.ts).
+ */
+export interface DomainPolicy {
+    /** Minimum delay (ms) between the starts of two requests */
+    delayMs: number;
+    /** Requests in flight at the same time */
+    maxConcurrent: number;
+    /** Requests per hour, also the scheduler's budget for the domain */
+    maxRequestsPerHour: number;
+    /** Always render with the headless browser instead of a plain fetch */
+    forceHeadless: boolean;
+    /** Skip URLs disallowed by robots.txt and honour its Crawl-delay */
+    respectRobots: boolean;
+    /** Go through the proxy pool when PROXIES is set (see services/proxyPool.ts) */
+    useProxy: boolean;
+}
+
 /**
  * Standard API response envelope used by most endpoints.
  */
@@ -33,6 +90,21 @@ export interface ApiResponse {
     [key: string]: any;
 }
 
+/**
+ * Stock state of a product as reported by the retailer page.
+ */
+export type ProductAvailability = 'in_stock' | 'out_of_stock' | 'preorder' | 'limited' | 'unknown';
+
+/**
+ * Why a scrape produced no usable product data:
+ * - `blocked`: CAPTCHA or bot wall instead of the product page
+ * - `not_found`: 404/410 or a "listing ended" page (delisted)
+ * - `selector_miss`: the page loaded but neither price nor stock was found
+ * - `timeout` / `network_error`: the page could not be loaded
+ * - `disallowed`: refused by the domain policy (robots.txt, hourly limit)
+ */
+export type ScrapeFailureReason = 'blocked' | 'not_found' | 'selector_miss' | 'timeout' | 'network_error' | 'disallowed';
+
 /**
  * Result of scraping/extraction operations.
  */
@@ -48,8 +120,37 @@ export interface ExtractResponse extends ApiResponse {
 
 export interface SubscribeResponse extends ApiResponse {
     errors?: any[];
+    /** Channels of the new subscription, with the secret of each webhook channel */
+    channels?: { type: string; address: string; secret?: string }[];
+    /** The first webhook channel, when there is one */
+    webhook?: { url: string; secret: string };
 }
 
 export interface TriggerResponse extends ApiResponse {
     result?: { checked: number; notified: number };
+}
+
+/**
+ * Granularity of price history points. `raw` returns every observation,
+ * the others aggregate observations into calendar buckets.
+ */
+export type PriceHistoryInterval = 'raw' | 'hour' | 'day' | 'week';
+
+/**
+ * A single point of a product's price history (one observation or one bucket).
+ */
+export interface PriceHistoryPoint {
+    timestamp: string;
+    min: number;
+    max: number;
+    avg: number;
+    last: number;
+    samples: number;
+}
+
+export interface PriceHistoryResponse extends ApiResponse {
+    productUrl?: string;
+    currency?: string | null;
+    interval?: PriceHistoryInterval;
+    points?: PriceHistoryPoint[];
 }
\ No newline at end of file
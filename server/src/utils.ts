@@ -4,6 +4,18 @@
  * to keep scraping and notification logic simple and testable.
  */
 
+/**
+ * Whether a string is an IANA time zone the runtime knows (e.g. "Europe/Paris").
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
 /**
  * Validate that a string is an http/https URL.
  * @param url - The URL string to validate
@@ -19,20 +31,100 @@ export function isValidUrl(url: string): boolean {
 }
 
 /**
- * Parse a human-formatted price string and return a numeric value.
- * Examples: "$1,299.00" -> 1299, "USD 99.99" -> 99.99
- * @param priceStr - The string containing a price
- * @returns numeric value or null if parsing failed
- */
-export function parsePriceString(priceStr: string): number | null {
-    if (!priceStr) return null;
-    // Extract the first numeric-like token (allow commas and dots)
-    const m = priceStr.match(/[-+]?[0-9,.]+/);
-    if (!m) return null;
-    // Remove thousands separators and parse
-    const s = m[0].replace(/,/g, '');
-    const n = parseFloat(s);
-    return Number.isFinite(n) ? n : null;
+ * Query parameters that only track where a visit came from. Matched
+ * case-insensitively; entries ending in `*` are prefixes.
+ */
+const TRACKING_PARAMS = [
+    'utm_*', '_trk*', 'ref', 'ref_', 'tag', 'linkcode', 'linkid', 'ascsubtag', 'pd_rd_*', 'pf_rd_*',
+    'mkevt', 'mkcid', 'mkrid', 'campid', 'customid', 'toolid', 'amdata',
+    'fbclid', 'gclid', 'gclsrc', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'yclid', 'igshid', 'srsltid',
+    'mc_cid', 'mc_eid', '_hsenc', '_hsmi', 'mkt_tok', 'spm', 'scm',
+    'aff', 'aff_id', 'affid', 'affiliate', 'clickid', 'irclickid', 'cjevent',
+    'ranmid', 'raneaid', 'ransiteid',
+];
+
+function isTrackingParam(name: string): boolean {
+    const key = name.toLowerCase();
+    return TRACKING_PARAMS.some((param) => param.endsWith('*')
+        ? key.startsWith(param.slice(0, -1))
+        : key === param);
+}
+
+/**
+ * Canonical URL of an Amazon product (`https://www.amazon.<tld>/dp/<ASIN>`),
+ * or null when the URL does not contain an ASIN.
+ * Handles /dp/, /gp/product/, /gp/aw/d/ and /exec/obidos/ paths, with or
+ * without a title slug before them.
+ */
+function canonicalAmazonUrl(parsed: URL): string | null {
+    const tld = parsed.hostname.match(/(?:^|\.)amazon\.([a-z.]+)$/)?.[1];
+    if (!tld) return null;
+
+    const asin = parsed.pathname.match(/\/(?:dp|gp\/product|gp\/aw\/d|exec\/obidos\/(?:asin|tg\/detail\/-))\/([a-z0-9]{10})(?:[/?]|$)/i)?.[1];
+    return asin ? `https://www.amazon.${tld}/dp/${asin.toUpperCase()}` : null;
+}
+
+/**
+ * Canonical URL of an eBay listing (`https://www.ebay.<tld>/itm/<item id>`),
+ * or null when the URL does not contain an item id.
+ * Handles /itm/<id>, /itm/<title>/<id> and legacy `?item=<id>` links.
+ */
+function canonicalEbayUrl(parsed: URL): string | null {
+    const tld = parsed.hostname.match(/(?:^|\.)ebay\.([a-z.]+)$/)?.[1];
+    if (!tld) return null;
+
+    const itemId = parsed.pathname.match(/\/itm\/(?:[^/]+\/)?(\d{9,15})(?:[/?]|$)/)?.[1]
+        ?? parsed.searchParams.get('item')?.match(/^\d{9,15}$/)?.[0];
+    return itemId ? `https://www.ebay.${tld}/itm/${itemId}` : null;
+}
+
+/**
+ * Normalize a product URL so the same item maps to a single canonical key.
+ * Amazon and eBay URLs are reduced to the ASIN / item id. Other URLs get a
+ * lower-cased host, no fragment, no tracking or affiliate parameters
+ * (utm_*, ref, tag, _trkparms...), sorted remaining parameters and no
+ * trailing slash. Returns the input unchanged when it is not a valid URL.
+ * Dependency-free so the widget can bundle it.
+ * Examples:
+ *   "https://Shop.com/item/?utm_source=x#top" -> "https://shop.com/item"
+ *   "https://amazon.com/Some-Title/dp/B0X1234567?ref=abc" -> "https://www.amazon.com/dp/B0X1234567"
+ * @param url - The product URL to normalize
+ */
+export function normalizeProductUrl(url: string): string {
+    try {
+        const parsed = new URL(url.trim());
+        parsed.hostname = parsed.hostname.toLowerCase();
+
+        const retailerUrl = canonicalAmazonUrl(parsed) ?? canonicalEbayUrl(parsed);
+        if (retailerUrl) return retailerUrl;
+
+        parsed.hash = '';
+        const params = [...parsed.searchParams.entries()]
+            .filter(([key]) => !isTrackingParam(key))
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        parsed.search = new URLSearchParams(params).toString();
+
+        if (parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+            parsed.pathname = parsed.pathname.replace(/\/+$/, '');
+        }
+        return parsed.toString();
+    } catch {
+        return url;
+    }
+}
+
+/**
+ * Extract domain from URL for rate limiting purposes.
+ * Used to group requests by hostname and enforce per-domain delays and budgets.
+ * @param url - The product URL to extract domain from
+ * @returns The hostname (e.g., 'www.amazon.com') or 'unknown' if invalid
+ */
+export function extractDomain(url: string): string {
+    try {
+        return new URL(url).hostname;
+    } catch {
+        return 'unknown';
+    }
 }
 
 /**
@@ -0,0 +1,87 @@
+/**
+ * Back-in-stock notification email.
+ */
+import { escapeHtml } from '../pages';
+import { formatMoney } from '../../money';
+import { PUBLIC_URL } from '../../config/constants';
+import { ProductAvailability } from '../../types';
+import { getMessages } from './locales';
+import { EmailTemplate } from './types';
+import { emailButton, renderEmailLayout } from './layout';
+
+export interface BackInStockEmailData {
+    productName: string;
+    productUrl: string;
+    /** Absolute URL of the product image, when known */
+    productImage?: string;
+    /** New stock state (anything but out of stock) */
+    availability: ProductAvailability;
+    /** Current price, when the page shows one */
+    price: number | null;
+    /** ISO 4217 code; amounts are shown without a symbol when unknown */
+    currency: string | null;
+    /** Signed one-click unsubscribe link for this subscription */
+    unsubscribeUrl: string;
+    /** Page where the subscriber can request a link to manage all alerts */
+    manageUrl: string;
+}
+
+export const backInStockTemplate: EmailTemplate<BackInStockEmailData> = {
+    sample: {
+        productName: 'Sony WH-1000XM5 Wireless Noise Cancelling Headphones <Black>',
+        productUrl: 'https://www.example.com/products/sony-wh-1000xm5',
+        productImage: 'data:image/svg+xml;utf8,' + encodeURIComponent('<svg xmlns="http://www.w3.org/2000/svg" width="160" height="160"><rect width="160" height="160" rx="12" fill="#E5E7EB"/><text x="80" y="88" font-family="Arial" font-size="14" text-anchor="middle" fill="#6B7280">Product</text></svg>'),
+        availability: 'limited',
+        price: 349.99,
+        currency: 'USD',
+        unsubscribeUrl: `${PUBLIC_URL}/unsubscribe/sample-token`,
+        manageUrl: `${PUBLIC_URL}/manage`,
+    },
+
+    render(data, locale) {
+        const t = getMessages(locale);
+
+        const price = data.price != null
+            ? t.backInStock.price(formatMoney(data.price, data.currency, t.intlLocale))
+            : null;
+        const note = data.availability === 'limited'
+            ? t.backInStock.limited
+            : data.availability === 'preorder' ? t.backInStock.preorder : null;
+
+        const image = data.productImage
+            ? `<img src="${escapeHtml(data.productImage)}" alt="" width="160" style="display: block; max-width: 160px; height: auto; border-radius: 8px; margin: 8px 0;" />`
+            : '';
+
+        const details = price || note ? `
+        <div style="background: #f3f4f6; padding: 16px; border-radius: 8px; margin: 16px 0;">
+            ${price ? `<p style="margin: 8px 0; color: #10B981; font-size: 18px; font-weight: bold;">${escapeHtml(price)}</p>` : ''}
+            ${note ? `<p style="margin: 8px 0; color: #0E6F78; font-weight: bold;">${escapeHtml(note)}</p>` : ''}
+        </div>` : '';
+
+        const html = renderEmailLayout(t, t.backInStock.heading, `
+        <p>${escapeHtml(t.backInStock.intro)}</p>
+        <p><strong>${escapeHtml(data.productName)}</strong></p>
+        ${image}
+        ${details}
+        ${emailButton(data.productUrl, t.common.viewProduct)}`, `
+        ${escapeHtml(t.backInStock.footer)}<br>
+        <a href="${escapeHtml(data.unsubscribeUrl)}" style="color: #6B7280;">${escapeHtml(t.common.unsubscribe)}</a> ·
+        <a href="${escapeHtml(data.manageUrl)}" style="color: #6B7280;">${escapeHtml(t.common.manageAlerts)}</a>`);
+
+        const text = [
+            t.backInStock.heading,
+            '',
+            t.backInStock.intro,
+            data.productName,
+            ...(price || note ? ['', ...[price, note].filter((line): line is string => line != null)] : []),
+            '',
+            `${t.common.viewProduct}: ${data.productUrl}`,
+            '',
+            t.backInStock.footer,
+            `${t.common.unsubscribe}: ${data.unsubscribeUrl}`,
+            `${t.common.manageAlerts}: ${data.manageUrl}`,
+        ].join('\n');
+
+        return { subject: t.backInStock.subject(data.productName), html, text };
+    },
+};
@@ -0,0 +1,47 @@
+/**
+ * Double opt-in confirmation email.
+ */
+import { escapeHtml } from '../pages';
+import { PUBLIC_URL } from '../../config/constants';
+import { getMessages } from './locales';
+import { EmailTemplate } from './types';
+import { emailButton, renderEmailLayout } from './layout';
+
+export interface ConfirmationEmailData {
+    productName: string;
+    productUrl: string;
+    confirmUrl: string;
+}
+
+export const confirmationTemplate: EmailTemplate<ConfirmationEmailData> = {
+    sample: {
+        productName: 'Sony WH-1000XM5 Wireless Noise Cancelling Headphones <Black>',
+        productUrl: 'https://www.example.com/products/sony-wh-1000xm5',
+        confirmUrl: `${PUBLIC_URL}/subscriptions/confirm/sample-token`,
+    },
+
+    render(data, locale) {
+        const t = getMessages(locale);
+
+        const html = renderEmailLayout(t, t.confirmation.heading, `
+        <p>${escapeHtml(t.confirmation.intro)}</p>
+        <p><a href="${escapeHtml(data.productUrl)}" style="color: #0E6F78;"><strong>${escapeHtml(data.productName)}</strong></a></p>
+        ${emailButton(data.confirmUrl, t.confirmation.button)}`,
+        escapeHtml(t.confirmation.footer));
+
+        const text = [
+            t.confirmation.heading,
+            '',
+            t.confirmation.intro,
+            '',
+            data.productName,
+            data.productUrl,
+            '',
+            `${t.confirmation.button}: ${data.confirmUrl}`,
+            '',
+            t.confirmation.footer,
+        ].join('\n');
+
+        return { subject: t.confirmation.subject(data.productName), html, text };
+    },
+};
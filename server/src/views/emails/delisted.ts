@@ -0,0 +1,49 @@
+/**
+ * Email telling a subscriber that a product was delisted and their alert
+ * for it ended.
+ */
+import { escapeHtml } from '../pages';
+import { PUBLIC_URL } from '../../config/constants';
+import { getMessages } from './locales';
+import { EmailTemplate } from './types';
+import { emailButton, renderEmailLayout } from './layout';
+
+export interface DelistedEmailData {
+    productName: string;
+    productUrl: string;
+    /** Page where the subscriber can request a link to manage all alerts */
+    manageUrl: string;
+}
+
+export const delistedTemplate: EmailTemplate<DelistedEmailData> = {
+    sample: {
+        productName: 'Sony WH-1000XM5 Wireless Noise Cancelling Headphones <Black>',
+        productUrl: 'https://www.example.com/products/sony-wh-1000xm5',
+        manageUrl: `${PUBLIC_URL}/manage`,
+    },
+
+    render(data, locale) {
+        const t = getMessages(locale);
+
+        const html = renderEmailLayout(t, t.delisted.heading, `
+        <p>${escapeHtml(t.delisted.intro)}</p>
+        <p><a href="${escapeHtml(data.productUrl)}" style="color: #0E6F78;"><strong>${escapeHtml(data.productName)}</strong></a></p>
+        ${emailButton(data.manageUrl, t.common.manageAlerts)}`,
+        escapeHtml(t.delisted.footer));
+
+        const text = [
+            t.delisted.heading,
+            '',
+            t.delisted.intro,
+            '',
+            data.productName,
+            data.productUrl,
+            '',
+            `${t.common.manageAlerts}: ${data.manageUrl}`,
+            '',
+            t.delisted.footer,
+        ].join('\n');
+
+        return { subject: t.delisted.subject(data.productName), html, text };
+    },
+};
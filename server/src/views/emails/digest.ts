@@ -0,0 +1,125 @@
+/**
+ * Digest email: every price drop collected for a subscriber over a day or
+ * a week, one block per product.
+ */
+import { escapeHtml } from '../pages';
+import { formatMoney, subtractAmounts } from '../../money';
+import { PUBLIC_URL } from '../../config/constants';
+import { DigestFrequency } from '../../types';
+import { getMessages } from './locales';
+import { EmailTemplate } from './types';
+import { renderEmailLayout } from './layout';
+
+/** One product of the digest */
+export interface DigestEmailItem {
+    productName: string;
+    productUrl: string;
+    /** Absolute URL of the product image, when known */
+    productImage?: string;
+    /** Price before the first drop of the period */
+    oldPrice: number;
+    /** Latest price */
+    newPrice: number;
+    /** ISO 4217 code; amounts are shown without a symbol when unknown */
+    currency: string | null;
+    /** Signed one-click unsubscribe link for this product's subscription */
+    unsubscribeUrl: string;
+}
+
+export interface DigestEmailData {
+    frequency: DigestFrequency;
+    items: DigestEmailItem[];
+    /** Page where the subscriber can request a link to manage all alerts */
+    manageUrl: string;
+}
+
+const SAMPLE_IMAGE = 'data:image/svg+xml;utf8,' + encodeURIComponent('<svg xmlns="http://www.w3.org/2000/svg" width="160" height="160"><rect width="160" height="160" rx="12" fill="#E5E7EB"/><text x="80" y="88" font-family="Arial" font-size="14" text-anchor="middle" fill="#6B7280">Product</text></svg>');
+
+export const digestTemplate: EmailTemplate<DigestEmailData> = {
+    sample: {
+        frequency: 'daily',
+        items: [
+            {
+                productName: 'Sony WH-1000XM5 Wireless Noise Cancelling Headphones <Black>',
+                productUrl: 'https://www.example.com/products/sony-wh-1000xm5',
+                productImage: SAMPLE_IMAGE,
+                oldPrice: 349.99,
+                newPrice: 299.99,
+                currency: 'USD',
+                unsubscribeUrl: `${PUBLIC_URL}/unsubscribe/sample-token`,
+            },
+            {
+                productName: 'Kindle Paperwhite (16 GB)',
+                productUrl: 'https://www.example.com/products/kindle-paperwhite',
+                oldPrice: 159.99,
+                newPrice: 124.99,
+                currency: 'EUR',
+                unsubscribeUrl: `${PUBLIC_URL}/unsubscribe/sample-token-2`,
+            },
+        ],
+        manageUrl: `${PUBLIC_URL}/manage`,
+    },
+
+    render(data, locale) {
+        const t = getMessages(locale);
+        const percentFormat = new Intl.NumberFormat(t.intlLocale, { style: 'percent', maximumFractionDigits: 1 });
+
+        const items = data.items.map((item) => {
+            const money = (amount: number) => formatMoney(amount, item.currency, t.intlLocale);
+            return {
+                ...item,
+                oldPrice: t.priceDrop.oldPrice(money(item.oldPrice)),
+                newPrice: t.priceDrop.newPrice(money(item.newPrice)),
+                youSave: t.priceDrop.youSave(
+                    money(subtractAmounts(item.oldPrice, item.newPrice, item.currency)),
+                    percentFormat.format((item.oldPrice - item.newPrice) / item.oldPrice)
+                ),
+            };
+        });
+
+        const blocks = items.map((item) => {
+            const image = item.productImage
+                ? `<td style="width: 80px; padding-right: 12px; vertical-align: top;"><img src="${escapeHtml(item.productImage)}" alt="" width="80" style="display: block; max-width: 80px; height: auto; border-radius: 6px;" /></td>`
+                : '';
+            return `
+        <table role="presentation" cellpadding="0" cellspacing="0" style="width: 100%; background: #f3f4f6; border-radius: 8px; margin: 12px 0;"><tr><td style="padding: 12px;">
+            <table role="presentation" cellpadding="0" cellspacing="0"><tr>
+                ${image}
+                <td style="vertical-align: top;">
+                    <p style="margin: 0 0 6px;"><a href="${escapeHtml(item.productUrl)}" style="color: #111827; font-weight: bold;">${escapeHtml(item.productName)}</a></p>
+                    <p style="margin: 4px 0; text-decoration: line-through; color: #6B7280;">${escapeHtml(item.oldPrice)}</p>
+                    <p style="margin: 4px 0; color: #10B981; font-weight: bold;">${escapeHtml(item.newPrice)}</p>
+                    <p style="margin: 4px 0; color: #0E6F78;">${escapeHtml(item.youSave)}</p>
+                    <p style="margin: 6px 0 0; font-size: 12px;"><a href="${escapeHtml(item.unsubscribeUrl)}" style="color: #6B7280;">${escapeHtml(t.common.unsubscribe)}</a></p>
+                </td>
+            </tr></table>
+        </td></tr></table>`;
+        }).join('');
+
+        const html = renderEmailLayout(t, t.digest.heading(data.frequency), `
+        <p>${escapeHtml(t.digest.intro(items.length))}</p>
+        ${blocks}`, `
+        ${escapeHtml(t.digest.footer)}<br>
+        <a href="${escapeHtml(data.manageUrl)}" style="color: #6B7280;">${escapeHtml(t.common.manageAlerts)}</a>`);
+
+        const text = [
+            t.digest.heading(data.frequency),
+            '',
+            t.digest.intro(items.length),
+            ...items.flatMap((item) => [
+                '',
+                item.productName,
+                item.oldPrice,
+                item.newPrice,
+                item.youSave,
+                `${t.common.viewProduct}: ${item.productUrl}`,
+                `${t.common.unsubscribe}: ${item.unsubscribeUrl}`,
+            ]),
+            '',
+            t.digest.footer,
+            `${t.common.manageAlerts}: ${data.manageUrl}`,
+        ].join('\n');
+
+        return { subject: t.digest.subject(items.length, data.frequency), html, text };
+    },
+};
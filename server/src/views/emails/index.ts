@@ -0,0 +1,43 @@
+/**
+ * Email templates, one file per notification type, with strings in one
+ * catalog per locale (see ./locales). Every dynamic value is escaped when
+ * rendered to HTML.
+ */
+import { priceDropTemplate } from './priceDrop';
+import { backInStockTemplate } from './backInStock';
+import { delistedTemplate } from './delisted';
+import { digestTemplate } from './digest';
+import { confirmationTemplate } from './confirmation';
+import { manageLinkTemplate } from './manageLink';
+import { EmailTemplate, RenderedEmail } from './types';
+
+export { priceDropTemplate, backInStockTemplate, delistedTemplate, digestTemplate, confirmationTemplate, manageLinkTemplate };
+export type { PriceDropEmailData } from './priceDrop';
+export type { BackInStockEmailData } from './backInStock';
+export type { DelistedEmailData } from './delisted';
+export type { DigestEmailData, DigestEmailItem } from './digest';
+export type { ConfirmationEmailData } from './confirmation';
+export type { ManageLinkEmailData } from './manageLink';
+export type { RenderedEmail } from './types';
+export { SUPPORTED_LOCALES, DEFAULT_LOCALE, resolveLocale } from './locales';
+
+/** Templates by the name used in the admin preview route */
+const templates: Record<string, EmailTemplate<any>> = {
+    'price-drop': priceDropTemplate,
+    'back-in-stock': backInStockTemplate,
+    'delisted': delistedTemplate,
+    'digest': digestTemplate,
+    'confirmation': confirmationTemplate,
+    'manage-link': manageLinkTemplate,
+};
+
+export const EMAIL_TEMPLATE_NAMES = Object.keys(templates);
+
+/**
+ * Render a template with its sample data, for previews.
+ * Returns null when the template does not exist.
+ */
+export function renderEmailPreview(name: string, locale: string): RenderedEmail | null {
+    const template = templates[name];
+    return template ? template.render(template.sample, locale) : null;
+}
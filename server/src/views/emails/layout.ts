@@ -0,0 +1,92 @@
+/**
+ * Building blocks shared by the email templates: the page layout, buttons
+ * and the price history sparkline. Email clients ignore stylesheets and
+ * most modern CSS, so everything is inline styles and tables.
+ */
+import { escapeHtml } from '../pages';
+import { EmailMessages } from './types';
+import { PriceHistoryPoint } from '../../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Wrap template content in the shared email layout.
+ * @param heading - Plain-text heading (escaped)
+ * @param content - Trusted HTML
+ * @param footer - Trusted HTML shown in small print
+ */
+export function renderEmailLayout(messages: EmailMessages, heading: string, content: string, footer: string): string {
+    const lang = messages.intlLocale.split('-')[0];
+    return `<!doctype html>
+<html lang="${lang}" dir="${messages.dir}">
+<head><meta charset="utf-8"></head>
+<body style="margin: 0; padding: 16px;">
+    <div dir="${messages.dir}" style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; color: #111827;">
+        <h2 style="color: #0E6F78;">${escapeHtml(heading)}</h2>
+        ${content}
+        <p style="color: #6B7280; font-size: 12px; margin-top: 24px;">${footer}</p>
+    </div>
+</body>
+</html>`;
+}
+
+/**
+ * Call-to-action link styled as a button.
+ */
+export function emailButton(href: string, label: string): string {
+    return `<a href="${escapeHtml(href)}" style="display: inline-block; background: #0E6F78; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin: 16px 0;">${escapeHtml(label)}</a>`;
+}
+
+/** Price history reduced to what the sparkline needs */
+export interface Sparkline {
+    values: number[];
+    min: number;
+    max: number;
+    /** Number of days covered by the points */
+    days: number;
+}
+
+/**
+ * Reduce price history points to sparkline data (last price per point).
+ * Returns null with fewer than two points, when there is no trend to show.
+ */
+export function buildSparkline(points: PriceHistoryPoint[] | undefined): Sparkline | null {
+    if (!points || points.length < 2) return null;
+
+    const values = points.map((point) => point.last);
+    const first = new Date(points[0].timestamp).getTime();
+    const last = new Date(points[points.length - 1].timestamp).getTime();
+
+    return {
+        values,
+        min: Math.min(...points.map((point) => point.min)),
+        max: Math.max(...points.map((point) => point.max)),
+        days: Math.max(1, Math.round((last - first) / DAY_MS) + 1),
+    };
+}
+
+/**
+ * Bar chart of the sparkline as a one-row table; the latest price is
+ * highlighted.
+ */
+export function sparklineHtml(sparkline: Sparkline): string {
+    const range = sparkline.max - sparkline.min || 1;
+    const bars = sparkline.values.map((value, i) => {
+        const height = 4 + Math.round(((value - sparkline.min) / range) * 36);
+        const color = i === sparkline.values.length - 1 ? '#10B981' : '#0E6F78';
+        return `<td style="vertical-align: bottom; padding: 0 1px;"><div style="width: 6px; height: ${height}px; background: ${color}; border-radius: 1px;"></div></td>`;
+    }).join('');
+
+    return `<table role="presentation" cellpadding="0" cellspacing="0" style="border-collapse: collapse; height: 40px;"><tr>${bars}</tr></table>`;
+}
+
+/**
+ * Sparkline drawn with Unicode block characters for plain-text emails.
+ */
+export function sparklineText(sparkline: Sparkline): string {
+    const blocks = '▁▂▃▄▅▆▇█';
+    const range = sparkline.max - sparkline.min || 1;
+    return sparkline.values
+        .map((value) => blocks[Math.round(((value - sparkline.min) / range) * (blocks.length - 1))])
+        .join('');
+}
@@ -0,0 +1,57 @@
+import { EmailMessages } from '../types';
+
+export const ar: EmailMessages = {
+    intlLocale: 'ar-EG',
+    dir: 'rtl',
+    common: {
+        viewProduct: 'عرض المنتج',
+        unsubscribe: 'إلغاء الاشتراك',
+        manageAlerts: 'إدارة تنبيهاتك',
+    },
+    priceDrop: {
+        subject: (productName) => `🔔 انخفاض في السعر: ${productName}`,
+        heading: 'انخفض السعر! 🎉',
+        oldPrice: (amount) => `السعر السابق: ${amount}`,
+        newPrice: (amount) => `السعر الجديد: ${amount}`,
+        youSave: (amount, percent) => `توفّر: ${amount} (${percent})`,
+        history: (days) => `السعر خلال آخر ${days} يومًا`,
+        lowest: (amount) => `الأدنى: ${amount}`,
+        highest: (amount) => `الأعلى: ${amount}`,
+        footer: 'تصلك هذه الرسالة لأنك اشتركت في تنبيهات انخفاض سعر هذا المنتج.',
+    },
+    backInStock: {
+        subject: (productName) => `📦 عاد إلى المخزون: ${productName}`,
+        heading: 'عاد إلى المخزون! 📦',
+        intro: 'يمكن طلب منتج تتابعه مرة أخرى:',
+        limited: 'الكمية المتبقية قليلة، فلا تتأخر.',
+        preorder: 'المنتج متاح للطلب المسبق.',
+        price: (amount) => `السعر الحالي: ${amount}`,
+        footer: 'تصلك هذه الرسالة لأنك طلبت إعلامك عند عودة هذا المنتج إلى المخزون.',
+    },
+    delisted: {
+        subject: (productName) => `لم يعد متاحًا: ${productName}`,
+        heading: 'لم يعد هذا المنتج متاحًا',
+        intro: 'أزال المتجر هذا المنتج، لذا توقفنا عن متابعته وانتهى تنبيهك:',
+        footer: 'يمكنك إنشاء تنبيه جديد إذا عاد المنتج.',
+    },
+    digest: {
+        subject: (count, frequency) => `📬 ملخص الأسعار ${frequency === 'weekly' ? 'الأسبوعي' : 'اليومي'} (${count})`,
+        heading: (frequency) => (frequency === 'weekly' ? 'ملخص الأسعار الأسبوعي 📬' : 'ملخص الأسعار اليومي 📬'),
+        intro: (count) => (count === 1 ? 'انخفض سعر منتج تتابعه:' : `انخفضت أسعار منتجات تتابعها (${count}):`),
+        footer: 'تصلك هذه الرسالة لأنك طلبت تجميع انخفاضات الأسعار في رسالة واحدة.',
+    },
+    confirmation: {
+        subject: (productName) => `أكّد تنبيه السعر: ${productName}`,
+        heading: 'أكّد تنبيه السعر',
+        intro: 'طلب شخص ما (نأمل أن تكون أنت) أن نراسل هذا العنوان عندما ينخفض سعر هذا المنتج:',
+        button: 'تأكيد الاشتراك',
+        footer: 'إذا لم تطلب ذلك، فتجاهل هذه الرسالة ولن نراسلك مجددًا.',
+    },
+    manageLink: {
+        subject: 'إدارة تنبيهات الأسعار',
+        heading: 'إدارة تنبيهات الأسعار',
+        intro: 'استخدم الرابط أدناه لإيقاف تنبيهات الأسعار مؤقتًا أو تعديلها أو حذفها. الرابط صالح لمدة 24 ساعة.',
+        button: 'إدارة التنبيهات',
+        footer: 'إذا لم تطلب ذلك، يمكنك تجاهل هذه الرسالة.',
+    },
+};
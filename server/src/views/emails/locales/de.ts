@@ -0,0 +1,57 @@
+import { EmailMessages } from '../types';
+
+export const de: EmailMessages = {
+    intlLocale: 'de-DE',
+    dir: 'ltr',
+    common: {
+        viewProduct: 'Produkt ansehen',
+        unsubscribe: 'Abmelden',
+        manageAlerts: 'Alarme verwalten',
+    },
+    priceDrop: {
+        subject: (productName) => `🔔 Preissenkung: ${productName}`,
+        heading: 'Der Preis ist gesunken! 🎉',
+        oldPrice: (amount) => `Alter Preis: ${amount}`,
+        newPrice: (amount) => `Neuer Preis: ${amount}`,
+        youSave: (amount, percent) => `Sie sparen: ${amount} (${percent})`,
+        history: (days) => `Preis der letzten ${days} Tage`,
+        lowest: (amount) => `Tiefstwert: ${amount}`,
+        highest: (amount) => `Höchstwert: ${amount}`,
+        footer: 'Sie erhalten diese E-Mail, weil Sie Preisalarme für dieses Produkt abonniert haben.',
+    },
+    backInStock: {
+        subject: (productName) => `📦 Wieder verfügbar: ${productName}`,
+        heading: 'Wieder verfügbar! 📦',
+        intro: 'Ein Produkt, das Sie beobachten, kann wieder bestellt werden:',
+        limited: 'Es sind nur noch wenige vorrätig, warten Sie nicht zu lange.',
+        preorder: 'Es kann vorbestellt werden.',
+        price: (amount) => `Aktueller Preis: ${amount}`,
+        footer: 'Sie erhalten diese E-Mail, weil Sie benachrichtigt werden wollten, sobald dieses Produkt wieder verfügbar ist.',
+    },
+    delisted: {
+        subject: (productName) => `Nicht mehr erhältlich: ${productName}`,
+        heading: 'Dieses Produkt ist nicht mehr erhältlich',
+        intro: 'Der Shop hat dieses Produkt entfernt. Wir beobachten es nicht mehr und Ihr Alarm wurde beendet:',
+        footer: 'Sie können einen neuen Alarm einrichten, falls das Produkt zurückkommt.',
+    },
+    digest: {
+        subject: (count, frequency) => `📬 Ihre ${frequency === 'weekly' ? 'wöchentliche' : 'tägliche'} Preisübersicht: ${count} ${count === 1 ? 'Preissenkung' : 'Preissenkungen'}`,
+        heading: (frequency) => (frequency === 'weekly' ? 'Ihre wöchentliche Preisübersicht 📬' : 'Ihre tägliche Preisübersicht 📬'),
+        intro: (count) => (count === 1 ? 'Ein Produkt, das Sie beobachten, ist günstiger geworden:' : `${count} Produkte, die Sie beobachten, sind günstiger geworden:`),
+        footer: 'Sie erhalten diese Übersicht, weil Sie Ihre Preissenkungen gesammelt in einer E-Mail erhalten möchten.',
+    },
+    confirmation: {
+        subject: (productName) => `Bestätigen Sie Ihren Preisalarm: ${productName}`,
+        heading: 'Bestätigen Sie Ihren Preisalarm',
+        intro: 'Jemand (hoffentlich Sie) hat uns gebeten, diese Adresse zu benachrichtigen, wenn der Preis dieses Produkts sinkt:',
+        button: 'Abonnement bestätigen',
+        footer: 'Wenn Sie das nicht angefordert haben, ignorieren Sie diese E-Mail und Sie hören nichts mehr von uns.',
+    },
+    manageLink: {
+        subject: 'Ihre Preisalarme verwalten',
+        heading: 'Ihre Preisalarme verwalten',
+        intro: 'Über den Link unten können Sie Ihre Preisalarme pausieren, bearbeiten oder löschen. Der Link ist 24 Stunden gültig.',
+        button: 'Alarme verwalten',
+        footer: 'Wenn Sie das nicht angefordert haben, können Sie diese E-Mail ignorieren.',
+    },
+};
@@ -0,0 +1,57 @@
+import { EmailMessages } from '../types';
+
+export const en: EmailMessages = {
+    intlLocale: 'en-US',
+    dir: 'ltr',
+    common: {
+        viewProduct: 'View product',
+        unsubscribe: 'Unsubscribe',
+        manageAlerts: 'Manage your alerts',
+    },
+    priceDrop: {
+        subject: (productName) => `🔔 Price Drop Alert: ${productName}`,
+        heading: 'Price Drop Detected! 🎉',
+        oldPrice: (amount) => `Old price: ${amount}`,
+        newPrice: (amount) => `New price: ${amount}`,
+        youSave: (amount, percent) => `You save: ${amount} (${percent})`,
+        history: (days) => `Price over the last ${days} days`,
+        lowest: (amount) => `Lowest: ${amount}`,
+        highest: (amount) => `Highest: ${amount}`,
+        footer: "You're receiving this because you subscribed to price drop notifications for this product.",
+    },
+    backInStock: {
+        subject: (productName) => `📦 Back in stock: ${productName}`,
+        heading: 'Back in stock! 📦',
+        intro: 'A product you are watching can be ordered again:',
+        limited: "Only a few are left, so don't wait too long.",
+        preorder: 'It is available for pre-order.',
+        price: (amount) => `Current price: ${amount}`,
+        footer: "You're receiving this because you asked to be told when this product is back in stock.",
+    },
+    delisted: {
+        subject: (productName) => `No longer available: ${productName}`,
+        heading: 'This product is no longer available',
+        intro: 'The shop has removed this product, so we stopped watching it and ended your alert:',
+        footer: 'You can set up a new alert if the product comes back.',
+    },
+    digest: {
+        subject: (count, frequency) => `📬 Your ${frequency === 'weekly' ? 'weekly' : 'daily'} price digest: ${count} ${count === 1 ? 'drop' : 'drops'}`,
+        heading: (frequency) => (frequency === 'weekly' ? 'Your weekly price digest 📬' : 'Your daily price digest 📬'),
+        intro: (count) => (count === 1 ? 'One product you are watching got cheaper:' : `${count} products you are watching got cheaper:`),
+        footer: "You're receiving this digest because you asked for your price drops to be collected into one email.",
+    },
+    confirmation: {
+        subject: (productName) => `Confirm your price alert: ${productName}`,
+        heading: 'Confirm your price alert',
+        intro: 'Someone (hopefully you) asked us to email this address when the price of this product drops:',
+        button: 'Confirm subscription',
+        footer: "If you didn't request this, ignore this email and you won't hear from us again.",
+    },
+    manageLink: {
+        subject: 'Manage your price alerts',
+        heading: 'Manage your price alerts',
+        intro: 'Use the link below to pause, edit or delete your price alerts. The link is valid for 24 hours.',
+        button: 'Manage alerts',
+        footer: "If you didn't request this, you can ignore this email.",
+    },
+};
@@ -0,0 +1,57 @@
+import { EmailMessages } from '../types';
+
+export const es: EmailMessages = {
+    intlLocale: 'es-ES',
+    dir: 'ltr',
+    common: {
+        viewProduct: 'Ver producto',
+        unsubscribe: 'Cancelar suscripción',
+        manageAlerts: 'Gestionar tus alertas',
+    },
+    priceDrop: {
+        subject: (productName) => `🔔 Bajada de precio: ${productName}`,
+        heading: '¡Ha bajado el precio! 🎉',
+        oldPrice: (amount) => `Precio anterior: ${amount}`,
+        newPrice: (amount) => `Precio nuevo: ${amount}`,
+        youSave: (amount, percent) => `Ahorras: ${amount} (${percent})`,
+        history: (days) => `Precio en los últimos ${days} días`,
+        lowest: (amount) => `Mínimo: ${amount}`,
+        highest: (amount) => `Máximo: ${amount}`,
+        footer: 'Recibes este correo porque te suscribiste a las alertas de precio de este producto.',
+    },
+    backInStock: {
+        subject: (productName) => `📦 De nuevo disponible: ${productName}`,
+        heading: '¡De nuevo disponible! 📦',
+        intro: 'Un producto que sigues se puede volver a pedir:',
+        limited: 'Quedan pocas unidades, no esperes demasiado.',
+        preorder: 'Está disponible en preventa.',
+        price: (amount) => `Precio actual: ${amount}`,
+        footer: 'Recibes este correo porque pediste que te avisáramos cuando este producto volviera a estar disponible.',
+    },
+    delisted: {
+        subject: (productName) => `Ya no disponible: ${productName}`,
+        heading: 'Este producto ya no está disponible',
+        intro: 'La tienda ha retirado este producto, así que dejamos de seguirlo y tu alerta ha finalizado:',
+        footer: 'Puedes crear una nueva alerta si el producto vuelve.',
+    },
+    digest: {
+        subject: (count, frequency) => `📬 Tu resumen ${frequency === 'weekly' ? 'semanal' : 'diario'} de precios: ${count} ${count === 1 ? 'bajada' : 'bajadas'}`,
+        heading: (frequency) => (frequency === 'weekly' ? 'Tu resumen semanal de precios 📬' : 'Tu resumen diario de precios 📬'),
+        intro: (count) => (count === 1 ? 'Un producto que sigues ha bajado de precio:' : `${count} productos que sigues han bajado de precio:`),
+        footer: 'Recibes este resumen porque pediste recibir tus bajadas de precio agrupadas en un solo correo.',
+    },
+    confirmation: {
+        subject: (productName) => `Confirma tu alerta de precio: ${productName}`,
+        heading: 'Confirma tu alerta de precio',
+        intro: 'Alguien (esperamos que tú) nos pidió avisar a esta dirección cuando baje el precio de este producto:',
+        button: 'Confirmar suscripción',
+        footer: 'Si no lo solicitaste, ignora este correo y no volverás a saber de nosotros.',
+    },
+    manageLink: {
+        subject: 'Gestiona tus alertas de precio',
+        heading: 'Gestiona tus alertas de precio',
+        intro: 'Usa el enlace de abajo para pausar, editar o eliminar tus alertas de precio. El enlace es válido durante 24 horas.',
+        button: 'Gestionar alertas',
+        footer: 'Si no lo solicitaste, puedes ignorar este correo.',
+    },
+};
@@ -0,0 +1,57 @@
+import { EmailMessages } from '../types';
+
+export const fr: EmailMessages = {
+    intlLocale: 'fr-FR',
+    dir: 'ltr',
+    common: {
+        viewProduct: 'Voir le produit',
+        unsubscribe: 'Se désabonner',
+        manageAlerts: 'Gérer vos alertes',
+    },
+    priceDrop: {
+        subject: (productName) => `🔔 Baisse de prix : ${productName}`,
+        heading: 'Le prix a baissé ! 🎉',
+        oldPrice: (amount) => `Ancien prix : ${amount}`,
+        newPrice: (amount) => `Nouveau prix : ${amount}`,
+        youSave: (amount, percent) => `Vous économisez : ${amount} (${percent})`,
+        history: (days) => `Prix sur les ${days} derniers jours`,
+        lowest: (amount) => `Le plus bas : ${amount}`,
+        highest: (amount) => `Le plus haut : ${amount}`,
+        footer: 'Vous recevez cet e-mail car vous êtes abonné(e) aux alertes de prix pour ce produit.',
+    },
+    backInStock: {
+        subject: (productName) => `📦 De retour en stock : ${productName}`,
+        heading: 'De retour en stock ! 📦',
+        intro: 'Un produit que vous suivez peut de nouveau être commandé :',
+        limited: "Il n'en reste que quelques-uns, ne tardez pas trop.",
+        preorder: 'Il est disponible en précommande.',
+        price: (amount) => `Prix actuel : ${amount}`,
+        footer: 'Vous recevez cet e-mail car vous avez demandé à être prévenu(e) du retour en stock de ce produit.',
+    },
+    delisted: {
+        subject: (productName) => `Plus disponible : ${productName}`,
+        heading: "Ce produit n'est plus disponible",
+        intro: "La boutique a retiré ce produit : nous avons arrêté de le suivre et votre alerte a pris fin :",
+        footer: 'Vous pourrez créer une nouvelle alerte si le produit revient.',
+    },
+    digest: {
+        subject: (count, frequency) => `📬 Votre récapitulatif ${frequency === 'weekly' ? 'hebdomadaire' : 'quotidien'} des prix : ${count} ${count === 1 ? 'baisse' : 'baisses'}`,
+        heading: (frequency) => (frequency === 'weekly' ? 'Votre récapitulatif hebdomadaire des prix 📬' : 'Votre récapitulatif quotidien des prix 📬'),
+        intro: (count) => (count === 1 ? 'Un produit que vous suivez a baissé de prix :' : `${count} produits que vous suivez ont baissé de prix :`),
+        footer: 'Vous recevez ce récapitulatif car vous avez demandé à regrouper vos baisses de prix dans un seul e-mail.',
+    },
+    confirmation: {
+        subject: (productName) => `Confirmez votre alerte de prix : ${productName}`,
+        heading: 'Confirmez votre alerte de prix',
+        intro: "Quelqu'un (vous, nous l'espérons) nous a demandé de prévenir cette adresse lorsque le prix de ce produit baisse :",
+        button: "Confirmer l'abonnement",
+        footer: "Si vous n'êtes pas à l'origine de cette demande, ignorez cet e-mail : vous n'entendrez plus parler de nous.",
+    },
+    manageLink: {
+        subject: 'Gérez vos alertes de prix',
+        heading: 'Gérez vos alertes de prix',
+        intro: 'Utilisez le lien ci-dessous pour suspendre, modifier ou supprimer vos alertes de prix. Le lien est valable 24 heures.',
+        button: 'Gérer les alertes',
+        footer: "Si vous n'êtes pas à l'origine de cette demande, vous pouvez ignorer cet e-mail.",
+    },
+};
@@ -0,0 +1,32 @@
+/**
+ * Locale catalogs for emails. Add a locale by creating a catalog file and
+ * registering it here (and in the widget's language picker).
+ */
+import { EmailMessages } from '../types';
+import { en } from './en';
+import { es } from './es';
+import { fr } from './fr';
+import { de } from './de';
+import { ar } from './ar';
+
+const catalogs: Record<string, EmailMessages> = { en, es, fr, de, ar };
+
+export const DEFAULT_LOCALE = 'en';
+
+export const SUPPORTED_LOCALES = Object.keys(catalogs);
+
+/**
+ * Map a requested locale (e.g. `fr-CA`, `ES`) to a supported one, falling
+ * back to the default locale.
+ */
+export function resolveLocale(locale?: string | null): string {
+    const language = String(locale ?? '').trim().toLowerCase().split(/[-_]/)[0];
+    return language in catalogs ? language : DEFAULT_LOCALE;
+}
+
+/**
+ * Strings for a locale (resolved with resolveLocale).
+ */
+export function getMessages(locale?: string | null): EmailMessages {
+    return catalogs[resolveLocale(locale)];
+}
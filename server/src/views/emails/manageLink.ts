@@ -0,0 +1,38 @@
+/**
+ * Magic link to the subscriber self-service page.
+ */
+import { escapeHtml } from '../pages';
+import { PUBLIC_URL } from '../../config/constants';
+import { getMessages } from './locales';
+import { EmailTemplate } from './types';
+import { emailButton, renderEmailLayout } from './layout';
+
+export interface ManageLinkEmailData {
+    manageUrl: string;
+}
+
+export const manageLinkTemplate: EmailTemplate<ManageLinkEmailData> = {
+    sample: {
+        manageUrl: `${PUBLIC_URL}/manage/sample-token`,
+    },
+
+    render(data, locale) {
+        const t = getMessages(locale);
+
+        const html = renderEmailLayout(t, t.manageLink.heading, `
+        <p>${escapeHtml(t.manageLink.intro)}</p>
+        ${emailButton(data.manageUrl, t.manageLink.button)}`,
+        escapeHtml(t.manageLink.footer));
+
+        const text = [
+            t.manageLink.heading,
+            '',
+            t.manageLink.intro,
+            data.manageUrl,
+            '',
+            t.manageLink.footer,
+        ].join('\n');
+
+        return { subject: t.manageLink.subject, html, text };
+    },
+};
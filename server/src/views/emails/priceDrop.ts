@@ -0,0 +1,123 @@
+/**
+ * Price-drop notification email.
+ */
+import { escapeHtml } from '../pages';
+import { formatMoney, subtractAmounts } from '../../money';
+import { PUBLIC_URL } from '../../config/constants';
+import { PriceHistoryPoint } from '../../types';
+import { getMessages } from './locales';
+import { EmailTemplate } from './types';
+import { buildSparkline, emailButton, renderEmailLayout, sparklineHtml, sparklineText } from './layout';
+
+export interface PriceDropEmailData {
+    productName: string;
+    productUrl: string;
+    /** Absolute URL of the product image, when known */
+    productImage?: string;
+    oldPrice: number;
+    newPrice: number;
+    /** ISO 4217 code; amounts are shown without a symbol when unknown */
+    currency: string | null;
+    /** Recent price history (oldest first), drawn as a sparkline */
+    history?: PriceHistoryPoint[];
+    /** Signed one-click unsubscribe link for this subscription */
+    unsubscribeUrl: string;
+    /** Page where the subscriber can request a link to manage all alerts */
+    manageUrl: string;
+}
+
+function sampleHistory(): PriceHistoryPoint[] {
+    const day = 24 * 60 * 60 * 1000;
+    const start = Date.now() - 29 * day;
+    return Array.from({ length: 30 }, (_, i) => {
+        const price = i === 29 ? 299.99 : Math.round((339.99 + Math.sin(i / 3) * 12) * 100) / 100;
+        return {
+            timestamp: new Date(start + i * day).toISOString(),
+            min: price,
+            max: price,
+            avg: price,
+            last: price,
+            samples: 1,
+        };
+    });
+}
+
+export const priceDropTemplate: EmailTemplate<PriceDropEmailData> = {
+    sample: {
+        productName: 'Sony WH-1000XM5 Wireless Noise Cancelling Headphones <Black>',
+        productUrl: 'https://www.example.com/products/sony-wh-1000xm5',
+        productImage: 'data:image/svg+xml;utf8,' + encodeURIComponent('<svg xmlns="http://www.w3.org/2000/svg" width="160" height="160"><rect width="160" height="160" rx="12" fill="#E5E7EB"/><text x="80" y="88" font-family="Arial" font-size="14" text-anchor="middle" fill="#6B7280">Product</text></svg>'),
+        oldPrice: 349.99,
+        newPrice: 299.99,
+        currency: 'USD',
+        history: sampleHistory(),
+        unsubscribeUrl: `${PUBLIC_URL}/unsubscribe/sample-token`,
+        manageUrl: `${PUBLIC_URL}/manage`,
+    },
+
+    render(data, locale) {
+        const t = getMessages(locale);
+        const money = (amount: number) => formatMoney(amount, data.currency, t.intlLocale);
+
+        const oldPrice = money(data.oldPrice);
+        const newPrice = money(data.newPrice);
+        const savings = money(subtractAmounts(data.oldPrice, data.newPrice, data.currency));
+        const percent = new Intl.NumberFormat(t.intlLocale, { style: 'percent', maximumFractionDigits: 1 })
+            .format((data.oldPrice - data.newPrice) / data.oldPrice);
+        const sparkline = buildSparkline(data.history);
+
+        const image = data.productImage
+            ? `<img src="${escapeHtml(data.productImage)}" alt="" width="160" style="display: block; max-width: 160px; height: auto; border-radius: 8px; margin: 8px 0;" />`
+            : '';
+
+        const history = sparkline ? `
+        <div style="margin: 16px 0;">
+            <p style="margin: 0 0 8px; font-size: 13px; color: #374151;">${escapeHtml(t.priceDrop.history(sparkline.days))}</p>
+            ${sparklineHtml(sparkline)}
+            <p style="margin: 8px 0 0; font-size: 12px; color: #6B7280;">${escapeHtml(t.priceDrop.lowest(money(sparkline.min)))} · ${escapeHtml(t.priceDrop.highest(money(sparkline.max)))}</p>
+        </div>` : '';
+
+        const html = renderEmailLayout(t, t.priceDrop.heading, `
+        <p><strong>${escapeHtml(data.productName)}</strong></p>
+        ${image}
+        <div style="background: #f3f4f6; padding: 16px; border-radius: 8px; margin: 16px 0;">
+            <p style="margin: 8px 0;">
+                <span style="text-decoration: line-through; color: #6B7280;">${escapeHtml(t.priceDrop.oldPrice(oldPrice))}</span>
+            </p>
+            <p style="margin: 8px 0; color: #10B981; font-size: 18px; font-weight: bold;">
+                ${escapeHtml(t.priceDrop.newPrice(newPrice))}
+            </p>
+            <p style="margin: 8px 0; color: #0E6F78; font-weight: bold;">
+                ${escapeHtml(t.priceDrop.youSave(savings, percent))}
+            </p>
+        </div>
+        ${history}
+        ${emailButton(data.productUrl, t.common.viewProduct)}`, `
+        ${escapeHtml(t.priceDrop.footer)}<br>
+        <a href="${escapeHtml(data.unsubscribeUrl)}" style="color: #6B7280;">${escapeHtml(t.common.unsubscribe)}</a> ·
+        <a href="${escapeHtml(data.manageUrl)}" style="color: #6B7280;">${escapeHtml(t.common.manageAlerts)}</a>`);
+
+        const text = [
+            t.priceDrop.heading,
+            '',
+            data.productName,
+            '',
+            t.priceDrop.oldPrice(oldPrice),
+            t.priceDrop.newPrice(newPrice),
+            t.priceDrop.youSave(savings, percent),
+            ...(sparkline ? [
+                '',
+                `${t.priceDrop.history(sparkline.days)}: ${sparklineText(sparkline)}`,
+                `${t.priceDrop.lowest(money(sparkline.min))} · ${t.priceDrop.highest(money(sparkline.max))}`,
+            ] : []),
+            '',
+            `${t.common.viewProduct}: ${data.productUrl}`,
+            '',
+            t.priceDrop.footer,
+            `${t.common.unsubscribe}: ${data.unsubscribeUrl}`,
+            `${t.common.manageAlerts}: ${data.manageUrl}`,
+        ].join('\n');
+
+        return { subject: t.priceDrop.subject(data.productName), html, text };
+    },
+};
@@ -0,0 +1,83 @@
+/**
+ * Types shared by email templates and locale catalogs.
+ */
+import type { DigestFrequency } from '../../types';
+
+/** A rendered email, ready to hand to the transport */
+export interface RenderedEmail {
+    subject: string;
+    html: string;
+    text: string;
+}
+
+/**
+ * An email template. `sample` is the data rendered by the admin preview
+ * route so every template can be checked without a real subscription.
+ */
+export interface EmailTemplate<Data> {
+    sample: Data;
+    render(data: Data, locale: string): RenderedEmail;
+}
+
+/**
+ * Strings of one locale. Functions take values that are already formatted
+ * (and, in HTML, already escaped) so catalogs stay free of markup.
+ */
+export interface EmailMessages {
+    /** BCP 47 tag used for number, currency and date formatting */
+    intlLocale: string;
+    dir: 'ltr' | 'rtl';
+    common: {
+        viewProduct: string;
+        unsubscribe: string;
+        manageAlerts: string;
+    };
+    priceDrop: {
+        subject: (productName: string) => string;
+        heading: string;
+        oldPrice: (amount: string) => string;
+        newPrice: (amount: string) => string;
+        youSave: (amount: string, percent: string) => string;
+        history: (days: number) => string;
+        lowest: (amount: string) => string;
+        highest: (amount: string) => string;
+        footer: string;
+    };
+    backInStock: {
+        subject: (productName: string) => string;
+        heading: string;
+        intro: string;
+        /** Extra line for `limited` and `preorder` availability */
+        limited: string;
+        preorder: string;
+        price: (amount: string) => string;
+        footer: string;
+    };
+    delisted: {
+        subject: (productName: string) => string;
+        heading: string;
+        intro: string;
+        footer: string;
+    };
+    digest: {
+        subject: (count: number, frequency: DigestFrequency) => string;
+        heading: (frequency: DigestFrequency) => string;
+        /** Line above the list of `count` price drops */
+        intro: (count: number) => string;
+        footer: string;
+    };
+    confirmation: {
+        subject: (productName: string) => string;
+        heading: string;
+        intro: string;
+        button: string;
+        footer: string;
+    };
+    manageLink: {
+        subject: string;
+        heading: string;
+        intro: string;
+        button: string;
+        footer: string;
+    };
+}
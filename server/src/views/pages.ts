@@ -0,0 +1,184 @@
+/**
+ * Server-rendered pages for links opened from emails (confirmation,
+ * unsubscribe, subscriber self-service). Plain HTML with inline styles so
+ * they work without the widget bundle or any client-side script.
+ * Every dynamic value goes through escapeHtml().
+ */
+import { ISubscription } from '../models/Subscription.model';
+import { ISubscriber } from '../models/Subscriber.model';
+import { IProduct } from '../models/Product.model';
+import { formatMoney } from '../money';
+import { SUPPORTED_LOCALES } from './emails/locales';
+import { MAX_COOLDOWN_HOURS, NOTIFICATION_COOLDOWN_MS } from '../config/constants';
+
+/**
+ * Escape a value for use in HTML text and attribute values.
+ */
+export function escapeHtml(value: unknown): string {
+    return String(value ?? '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+const BUTTON_STYLE = 'background: #0E6F78; color: white; border: none; padding: 8px 14px; border-radius: 6px; cursor: pointer; font-size: 14px;';
+const SECONDARY_BUTTON_STYLE = 'background: #F3F4F6; color: #111827; border: 1px solid #D8DEE3; padding: 8px 14px; border-radius: 6px; cursor: pointer; font-size: 14px;';
+const DANGER_BUTTON_STYLE = 'background: #EF4444; color: white; border: none; padding: 8px 14px; border-radius: 6px; cursor: pointer; font-size: 14px;';
+const INPUT_STYLE = 'width: 110px; padding: 6px; border: 1px solid #D8DEE3; border-radius: 6px; font-size: 13px;';
+
+/**
+ * Wrap body HTML in the shared page layout.
+ * @param title - Plain-text page title (escaped)
+ * @param body - Trusted HTML
+ */
+export function renderPage(title: string, body: string): string {
+    return `<!doctype html>
+<html lang="en">
+<head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${escapeHtml(title)} - Price Drop Notifier</title>
+</head>
+<body style="font-family: Arial, sans-serif; max-width: 720px; margin: 48px auto; padding: 0 16px; color: #111827;">
+    <h2 style="color: #0E6F78;">${escapeHtml(title)}</h2>
+    ${body}
+</body>
+</html>`;
+}
+
+/**
+ * Page with a single message.
+ * @param message - Trusted HTML
+ */
+export function renderMessagePage(title: string, message: string): string {
+    return renderPage(title, `<p>${message}</p>`);
+}
+
+/**
+ * Unsubscribe confirmation page. Unsubscribing requires a POST so that link
+ * scanners prefetching the URL cannot remove subscriptions.
+ */
+export function renderUnsubscribePage(actionUrl: string, productName: string): string {
+    return renderPage('Unsubscribe', `
+    <p>Stop price alerts for <strong>${escapeHtml(productName)}</strong>?</p>
+    <form method="post" action="${escapeHtml(actionUrl)}">
+        <button type="submit" style="${DANGER_BUTTON_STYLE}">Unsubscribe</button>
+    </form>`);
+}
+
+/**
+ * Form requesting a magic link to the self-service page.
+ * @param sent - Show the "check your inbox" notice instead of the form
+ */
+export function renderManageLoginPage(sent = false): string {
+    if (sent) {
+        return renderMessagePage('Check your inbox', 'If this address has price alerts, we just emailed it a link to manage them. The link is valid for 24 hours.');
+    }
+    return renderPage('Manage your price alerts', `
+    <p>Enter the email address you subscribed with and we'll send you a link to manage your alerts.</p>
+    <form method="post" action="/manage" style="display: flex; gap: 8px;">
+        <input type="email" name="email" required placeholder="you@example.com"
+            style="flex: 1; padding: 8px; border: 1px solid #D8DEE3; border-radius: 6px; font-size: 14px;" />
+        <button type="submit" style="${BUTTON_STYLE}">Email me a link</button>
+    </form>`);
+}
+
+/**
+ * Language, time zone and quiet hours form of the self-service page.
+ */
+function renderPreferencesForm(base: string, subscriber: ISubscriber): string {
+    const languages = SUPPORTED_LOCALES.map((code) => {
+        const label = new Intl.DisplayNames([code], { type: 'language' }).of(code) ?? code;
+        return `<option value="${code}"${code === subscriber.locale ? ' selected' : ''}>${escapeHtml(label)}</option>`;
+    }).join('');
+    const hours = (selected?: number) => ['<option value="">Off</option>', ...Array.from({ length: 24 }, (_, hour) =>
+        `<option value="${hour}"${hour === selected ? ' selected' : ''}>${String(hour).padStart(2, '0')}:00</option>`)].join('');
+
+    return `
+    <form method="post" action="${base}/preferences" style="display: flex; gap: 8px; align-items: flex-end; flex-wrap: wrap; font-size: 13px; background: #F9FAFB; border-radius: 8px; padding: 16px; margin-bottom: 16px;">
+        <label>Email language<br><select name="locale" style="${INPUT_STYLE}">${languages}</select></label>
+        <label>Time zone<br><input type="text" name="timezone" placeholder="UTC" value="${escapeHtml(subscriber.timezone)}" style="${INPUT_STYLE} width: 150px;" /></label>
+        <label>Quiet from<br><select name="quietStart" style="${INPUT_STYLE}">${hours(subscriber.quietHours?.start)}</select></label>
+        <label>Quiet until<br><select name="quietEnd" style="${INPUT_STYLE}">${hours(subscriber.quietHours?.end)}</select></label>
+        <button type="submit" style="${BUTTON_STYLE}">Save preferences</button>
+    </form>`;
+}
+
+/**
+ * Self-service page listing every subscription of an email address with
+ * pause/resume, alert rule editing and delete actions, and the
+ * subscriber's preferences.
+ * @param basePath - Path of the page including the magic-link token
+ * @param products - Watched products by id, for the latest observed price
+ */
+export function renderManagePage(
+    basePath: string,
+    subscriber: ISubscriber,
+    subscriptions: ISubscription[],
+    products: Map<string, IProduct>,
+): string {
+    const base = escapeHtml(basePath);
+    const email = subscriber.email;
+
+    if (subscriptions.length === 0) {
+        return renderPage('Your price alerts', `
+    <p>No price alerts for ${escapeHtml(email)}.</p>
+    ${renderPreferencesForm(base, subscriber)}`);
+    }
+
+    const rows = subscriptions.map((sub) => {
+        const id = escapeHtml(String(sub._id));
+        const alert = sub.alert ?? {};
+        const product = products.get(String(sub.productId));
+        const lastPrice = product?.lastPrice != null
+            ? formatMoney(product.lastPrice, product.currency ?? sub.product.currency)
+            : sub.product.price;
+        const stock = product?.availability === 'out_of_stock' ? ' · Out of stock' : '';
+        const statusLabel = sub.status === 'pending'
+            ? 'Awaiting email confirmation'
+            : sub.status === 'expired' ? 'Ended (no longer sold)'
+            : sub.status === 'paused' ? 'Paused' : 'Active';
+
+        const toggle = sub.status === 'pending' || sub.status === 'expired' ? '' : `
+            <form method="post" action="${base}/subscriptions/${id}/${sub.status === 'paused' ? 'resume' : 'pause'}">
+                <button type="submit" style="${SECONDARY_BUTTON_STYLE}">${sub.status === 'paused' ? 'Resume' : 'Pause'}</button>
+            </form>`;
+
+        return `
+    <div style="border: 1px solid #E5E7EB; border-radius: 8px; padding: 16px; margin-bottom: 16px;">
+        <div><a href="${escapeHtml(sub.product.url)}" style="color: #0E6F78;"><strong>${escapeHtml(sub.product.name)}</strong></a></div>
+        <div style="font-size: 13px; color: #6B7280; margin: 6px 0 12px;">Last price: ${escapeHtml(lastPrice)}${stock} · ${statusLabel}</div>
+        <form method="post" action="${base}/subscriptions/${id}/alert" style="display: flex; gap: 8px; align-items: flex-end; flex-wrap: wrap; font-size: 13px;">
+            <label>Target price<br><input type="number" name="targetPrice" min="0" step="0.01" value="${escapeHtml(alert.targetPrice ?? '')}" style="${INPUT_STYLE}" /></label>
+            <label>Min. drop %<br><input type="number" name="minDropPercent" min="0" max="100" step="0.1" value="${escapeHtml(alert.minDropPercent ?? '')}" style="${INPUT_STYLE}" /></label>
+            <label>Min. drop amount<br><input type="number" name="minDropAmount" min="0" step="0.01" value="${escapeHtml(alert.minDropAmount ?? '')}" style="${INPUT_STYLE}" /></label>
+            <label>Cooldown (hours)<br><input type="number" name="cooldownHours" min="0" max="${MAX_COOLDOWN_HOURS}" step="1" placeholder="${NOTIFICATION_COOLDOWN_MS / 3600000}" value="${escapeHtml(alert.cooldownHours ?? '')}" style="${INPUT_STYLE}" /></label>
+            <label>Send drops<br><select name="digest" style="${INPUT_STYLE}">
+                <option value=""${alert.digest ? '' : ' selected'}>Right away</option>
+                <option value="daily"${alert.digest === 'daily' ? ' selected' : ''}>Daily digest</option>
+                <option value="weekly"${alert.digest === 'weekly' ? ' selected' : ''}>Weekly digest</option>
+            </select></label>
+            <label style="padding: 6px 0;"><input type="checkbox" name="allTimeLow" value="true"${alert.allTimeLow ? ' checked' : ''} /> New all-time lows only</label>
+            <label style="padding: 6px 0;"><input type="checkbox" name="backInStock" value="true"${alert.backInStock ? ' checked' : ''} /> Back in stock</label>
+            <button type="submit" style="${BUTTON_STYLE}">Save</button>
+        </form>
+        <div style="display: flex; gap: 8px; margin-top: 12px;">
+            ${toggle}
+            <form method="post" action="${base}/subscriptions/${id}/delete">
+                <button type="submit" style="${DANGER_BUTTON_STYLE}">Delete</button>
+            </form>
+        </div>
+    </div>`;
+    }).join('');
+
+    return renderPage('Your price alerts', `
+    <p style="color: #6B7280;">Signed in as ${escapeHtml(email)}. Leave a rule empty to be alerted on any drop, and the cooldown empty for the default of ${NOTIFICATION_COOLDOWN_MS / 3600000} hours between alerts. Price drops during your quiet hours are sent when they end.</p>
+    ${renderPreferencesForm(base, subscriber)}
+    <p style="font-size: 13px;">Your watchlist: ${subscriptions.length} ${subscriptions.length === 1 ? 'product' : 'products'} · Export: <a href="${base}/watchlist/export?format=csv" style="color: #0E6F78;">CSV</a> · <a href="${base}/watchlist/export?format=json" style="color: #0E6F78;">JSON</a></p>
+    ${rows}
+    <form method="post" action="${base}/delete-all">
+        <button type="submit" style="${DANGER_BUTTON_STYLE}">Delete all my alerts</button>
+    </form>`);
+}
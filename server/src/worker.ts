@@ -0,0 +1,52 @@
+/**
+ * Worker entrypoint
+ *
+ * Runs price check jobs outside the web process. Start as many as needed
+ * alongside app.ts (with EMBEDDED_WORKER=false there); each job is locked
+ * by one worker at a time.
+ *
+ * Usage:
+ *   npm run worker
+ */
+import 'dotenv/config';
+import { connectDatabase, disconnectDatabase } from './config/database';
+import { initEmailService } from './services/email.service';
+import { startPeriodicChecks, stopPeriodicChecks } from './services/notifier.service';
+import { startWorker, stopWorker } from './services/worker.service';
+import { closeBrowserPool } from './services/browserPool';
+
+let shuttingDown = false;
+
+/**
+ * Finish the running job, close pooled browsers and the database, then exit.
+ */
+async function shutdown(signal: string) {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    console.log(`\n${signal} received, stopping worker...`);
+
+    stopPeriodicChecks();
+    await stopWorker();
+    await closeBrowserPool();
+    await disconnectDatabase();
+    process.exit(0);
+}
+
+process.on('SIGINT', () => void shutdown('SIGINT'));
+process.on('SIGTERM', () => void shutdown('SIGTERM'));
+
+process.on('unhandledRejection', (reason, promise) => {
+    console.error('Unhandled Rejection at:', promise, 'reason:', reason);
+});
+
+try {
+    await connectDatabase();
+    await initEmailService();
+
+    // Workers also queue due checks, so they keep running without the web process
+    startPeriodicChecks();
+    startWorker();
+} catch (error) {
+    console.error('Failed to start worker:', error);
+    process.exit(1);
+}
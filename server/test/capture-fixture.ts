@@ -0,0 +1,95 @@
+/**
+ * Capture a product page as a scraper fixture.
+ * Saves the page HTML and what the scraper currently reads from it to
+ * fixtures/<name>.html and fixtures/<name>.json. Check the recorded
+ * expectation by hand (it is whatever the scraper extracted today) before
+ * committing the fixture.
+ *
+ * Usage:
+ *   npm run fixture:capture -- <url> <name> [--browser] [--force]
+ *
+ * --browser renders the page with the headless browser (the default for
+ * retailers that require it, like Amazon and eBay); --force overwrites an
+ * existing fixture.
+ */
+import { existsSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { load } from 'cheerio';
+import { FIXTURES_DIR, summarizeProduct, ExpectedProduct, ExpectedProblem } from './fixtures';
+import { extractFromHtml } from '../src/services/scraper.service';
+import { withPage, closeBrowserPool } from '../src/services/browserPool';
+import { getAdapterForUrl } from '../src/retailers';
+import { detectPageProblem } from '../src/retailers/pageProblems';
+import { isValidUrl } from '../src/utils';
+import { USER_AGENT, FETCH_TIMEOUT, PLAYWRIGHT_TIMEOUT } from '../src/config/constants';
+
+const USAGE = 'Usage: capture-fixture <url> <name> [--browser] [--force]';
+
+async function fetchHtml(url: string): Promise<string> {
+    const resp = await fetch(url, {
+        signal: AbortSignal.timeout(FETCH_TIMEOUT),
+        headers: {
+            'User-Agent': USER_AGENT,
+            'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+            'Accept-Language': 'en-US,en;q=0.5',
+        },
+    });
+    if (!resp.ok) {
+        console.warn(`⚠️ HTTP ${resp.status}, saving the page anyway`);
+    }
+    return resp.text();
+}
+
+async function renderHtml(url: string): Promise<string> {
+    return withPage(async (page) => {
+        await page.setUserAgent(USER_AGENT);
+        await page.goto(url, { waitUntil: 'networkidle2', timeout: PLAYWRIGHT_TIMEOUT });
+        return page.content();
+    });
+}
+
+async function run(args: string[]): Promise<number> {
+    const [url, name] = args.filter((arg) => !arg.startsWith('--'));
+    if (!url || !name || !isValidUrl(url) || !/^[a-z0-9-]+$/.test(name)) {
+        console.error(USAGE);
+        console.error('The name may only contain lowercase letters, digits and dashes.');
+        return 1;
+    }
+
+    const htmlPath = join(FIXTURES_DIR, `${name}.html`);
+    const jsonPath = join(FIXTURES_DIR, `${name}.json`);
+    if (existsSync(jsonPath) && !args.includes('--force')) {
+        console.error(`✗ Fixture "${name}" already exists (use --force to replace it)`);
+        return 1;
+    }
+
+    const adapter = getAdapterForUrl(url);
+    const browser = args.includes('--browser') || adapter.requiresBrowser;
+    console.log(`📥 Capturing ${url} with ${browser ? 'the headless browser' : 'fetch'} (${adapter.name} adapter)`);
+
+    const html = browser ? await renderHtml(url) : await fetchHtml(url);
+
+    const problem = detectPageProblem(load(html), adapter);
+    const expected: ExpectedProduct | ExpectedProblem = problem
+        ? { problem }
+        : summarizeProduct(await extractFromHtml(html, url));
+
+    writeFileSync(htmlPath, html);
+    writeFileSync(jsonPath, JSON.stringify({ url, expected }, null, 2) + '\n');
+
+    console.log(`✓ Saved ${htmlPath}`);
+    console.log(`✓ Saved ${jsonPath}:`);
+    console.log(JSON.stringify(expected, null, 2));
+    console.log('  Check these values against the live page before committing the fixture.');
+    return 0;
+}
+
+run(process.argv.slice(2))
+    .catch((error) => {
+        console.error('✗ Capture failed:', error instanceof Error ? error.message : error);
+        return 1;
+    })
+    .then(async (code) => {
+        await closeBrowserPool();
+        process.exit(code);
+    });
@@ -0,0 +1,234 @@
+/**
+ * Notification channel tests (npm test)
+ *
+ * Sends notifications through every channel to a local stand-in HTTP
+ * server (webhook receiver, Slack and Discord incoming webhooks, Telegram
+ * Bot API) and checks the payload shapes, the webhook signature and how
+ * failures are reported. Email goes to the `outbox` transport in a temp
+ * directory.
+ * Offline: no request leaves the machine, no database is needed.
+ */
+import { describe, test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { createHmac } from 'crypto';
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Read when the constants load
+process.env.TELEGRAM_BOT_TOKEN = '123456:test-token';
+process.env.WEBHOOK_ALLOWED_HOSTS = '127.0.0.1';
+const outboxDir = mkdtempSync(path.join(os.tmpdir(), 'pricedrop-outbox-'));
+process.env.EMAIL_TRANSPORT = 'outbox';
+process.env.EMAIL_OUTBOX_DIR = outboxDir;
+
+interface ReceivedRequest {
+    url: string;
+    headers: http.IncomingHttpHeaders;
+    body: string;
+}
+
+/** Stand-in server: records requests, answers with the queued statuses (200 once they run out) */
+const received: ReceivedRequest[] = [];
+const statuses: number[] = [];
+const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+        received.push({ url: req.url ?? '', headers: req.headers, body: Buffer.concat(chunks).toString('utf8') });
+        const status = statuses.shift() ?? 200;
+        res.writeHead(status, { 'Content-Type': 'text/plain' }).end(status === 200 ? 'ok' : 'invalid_payload');
+    });
+});
+await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+const address = server.address();
+const base = `http://127.0.0.1:${typeof address === 'object' && address ? address.port : 0}`;
+process.env.TELEGRAM_API_URL = base;
+
+const { getChannel, validateChannelTarget, sendDigestContent } = await import('../src/channels');
+const { initEmailService } = await import('../src/services/email.service');
+type NotificationContent = import('../src/channels').NotificationContent;
+
+const product = { id: '6650f0a9e4b0a1b2c3d4e5f1', name: 'Headphones <Black> & Case', url: 'https://shop.example/p/1', image: 'https://shop.example/p/1.jpg' };
+
+const priceDrop: NotificationContent = {
+    event: 'price_drop',
+    oldPrice: 349.99,
+    newPrice: 299.99,
+    currency: 'USD',
+    id: '6650f1c2e4b0a1b2c3d4e5f6',
+    createdAt: '2025-01-01T12:00:00.000Z',
+    subscriptionId: '6650f0a9e4b0a1b2c3d4e5f0',
+    locale: 'en',
+    product,
+};
+
+const backInStock: NotificationContent = {
+    event: 'back_in_stock',
+    availability: 'limited',
+    price: 299.99,
+    currency: 'USD',
+    id: '6650f1c2e4b0a1b2c3d4e5f7',
+    createdAt: '2025-01-01T12:00:00.000Z',
+    subscriptionId: '6650f0a9e4b0a1b2c3d4e5f0',
+    locale: 'fr',
+    product,
+};
+
+/** The single request the stand-in server received since the last call */
+function takeRequest(): ReceivedRequest & { json: any } {
+    assert.equal(received.length, 1, `expected one request, got ${received.length}`);
+    const request = received.pop()!;
+    return { ...request, json: JSON.parse(request.body) };
+}
+
+after(() => new Promise<void>((resolve) => {
+    rmSync(outboxDir, { recursive: true, force: true });
+    server.closeAllConnections();
+    server.close(() => resolve());
+}));
+
+describe('webhook channel', () => {
+    test('POSTs the signed version 1 payload', async () => {
+        const secret = 'whsec_test';
+        const result = await getChannel('webhook').send(priceDrop, { type: 'webhook', address: `${base}/hook`, secret });
+        assert.deepEqual(result, { ok: true, statusCode: 200 });
+
+        const request = takeRequest();
+        assert.equal(request.url, '/hook');
+        assert.equal(request.headers['x-pricedrop-event'], 'price_drop');
+        assert.equal(request.headers['x-pricedrop-delivery'], priceDrop.id);
+        assert.deepEqual(request.json, {
+            version: 1,
+            id: priceDrop.id,
+            event: 'price_drop',
+            createdAt: priceDrop.createdAt,
+            subscriptionId: priceDrop.subscriptionId,
+            product,
+            oldPrice: 349.99,
+            newPrice: 299.99,
+            currency: 'USD',
+        });
+
+        const [, t, v1] = /^t=(\d+),v1=([0-9a-f]{64})$/.exec(String(request.headers['x-pricedrop-signature']))!;
+        assert.equal(v1, createHmac('sha256', secret).update(`${t}.${request.body}`).digest('hex'));
+    });
+
+    test('reports non-2xx answers with the status and body', async () => {
+        statuses.push(500);
+        const result = await getChannel('webhook').send(backInStock, { type: 'webhook', address: `${base}/hook`, secret: 'whsec_test' });
+        assert.deepEqual(result, { ok: false, statusCode: 500, error: 'HTTP 500: invalid_payload' });
+        assert.equal(takeRequest().json.availability, 'limited');
+    });
+
+    test('reports connection errors', async () => {
+        const result = await getChannel('webhook').send(priceDrop, { type: 'webhook', address: 'http://127.0.0.1:1/', secret: 'whsec_test' });
+        assert.equal(result.ok, false);
+        assert.match(result.ok ? '' : result.error, /fetch failed/);
+    });
+
+    test('refuses hosts resolving to private addresses', async () => {
+        const result = await getChannel('webhook').send(priceDrop, { type: 'webhook', address: 'http://localhost:1/', secret: 'whsec_test' });
+        assert.equal(result.ok, false);
+        assert.match(result.ok ? '' : result.error, /^Refused: localhost resolves to/);
+    });
+});
+
+describe('slack channel', () => {
+    test('POSTs Block Kit blocks with a text fallback', async () => {
+        const result = await getChannel('slack').send(priceDrop, { type: 'slack', address: `${base}/slack` });
+        assert.equal(result.ok, true);
+
+        const { json } = takeRequest();
+        assert.equal(json.text, '🔔 Price Drop Alert: Headphones <Black> & Case');
+        assert.deepEqual(json.blocks.map((block: { type: string }) => block.type), ['header', 'section', 'context']);
+        assert.equal(
+            json.blocks[1].text.text,
+            '*<https://shop.example/p/1|Headphones &lt;Black&gt; &amp; Case>*\nOld price: $349.99\nNew price: $299.99\nYou save: $50.00 (14.3%)'
+        );
+        assert.equal(json.blocks[1].accessory.image_url, product.image);
+        assert.match(json.blocks[2].elements[0].text, /\|Unsubscribe>/);
+    });
+});
+
+describe('discord channel', () => {
+    test('POSTs one embed without mentions', async () => {
+        const result = await getChannel('discord').send(backInStock, { type: 'discord', address: `${base}/discord` });
+        assert.equal(result.ok, true);
+
+        const { json } = takeRequest();
+        assert.deepEqual(json.allowed_mentions, { parse: [] });
+        assert.equal(json.embeds.length, 1);
+        assert.equal(json.embeds[0].title, '📦 De retour en stock : Headphones <Black> & Case');
+        assert.equal(json.embeds[0].url, product.url);
+        assert.equal(json.embeds[0].thumbnail.url, product.image);
+    });
+});
+
+describe('telegram channel', () => {
+    test('calls sendMessage with HTML text', async () => {
+        const result = await getChannel('telegram').send(priceDrop, { type: 'telegram', address: '-1001234567890' });
+        assert.equal(result.ok, true);
+
+        const { url, json } = takeRequest();
+        assert.equal(url, '/bot123456:test-token/sendMessage');
+        assert.equal(json.chat_id, '-1001234567890');
+        assert.equal(json.parse_mode, 'HTML');
+        assert.ok(json.text.startsWith('<b>🔔 Price Drop Alert: Headphones &lt;Black&gt; &amp; Case</b>\n'));
+    });
+});
+
+describe('email channel', () => {
+    test('fails while no transport is configured', async () => {
+        const result = await getChannel('email').send(priceDrop, { type: 'email', address: 'user@example.com' });
+        assert.equal(result.ok, false);
+    });
+
+    test('sends through the transport and returns where the email ended up', async () => {
+        await initEmailService();
+        const result = await getChannel('email').send(priceDrop, { type: 'email', address: 'user@example.com' });
+        const files = readdirSync(outboxDir).filter((file) => file.endsWith('.eml'));
+        assert.equal(files.length, 1);
+        assert.deepEqual(result, { ok: true, reference: path.join(outboxDir, files[0]) });
+    });
+
+    test('sends digests', async () => {
+        const result = await sendDigestContent({
+            event: 'digest',
+            id: '6650f1c2e4b0a1b2c3d4e5f7',
+            createdAt: '2025-01-02T08:00:00.000Z',
+            locale: 'en',
+            frequency: 'daily',
+            items: [{ subscriptionId: priceDrop.subscriptionId, product, oldPrice: 349.99, newPrice: 299.99, currency: 'USD' }],
+        }, 'user@example.com');
+        assert.equal(result.ok, true);
+        assert.equal(readdirSync(outboxDir).filter((file) => file.endsWith('.eml')).length, 2);
+    });
+});
+
+describe('validateChannelTarget', () => {
+    const cases: [string, unknown, unknown, boolean][] = [
+        ['email address', 'email', 'user@example.com', true],
+        ['invalid email', 'email', 'user@', false],
+        ['webhook on an allowed host', 'webhook', 'http://127.0.0.1:8898/hook', true],
+        ['webhook on localhost', 'webhook', 'http://localhost:8898/hook', false],
+        ['webhook on a private network', 'webhook', 'http://192.168.1.10/hook', false],
+        ['webhook to the metadata endpoint', 'webhook', 'http://169.254.169.254/latest/meta-data', false],
+        ['webhook on IPv4-mapped loopback', 'webhook', 'http://[::ffff:127.0.0.2]/hook', false],
+        ['slack on IPv6 loopback', 'slack', 'http://[::1]/hook', false],
+        ['webhook without http(s)', 'webhook', 'ftp://example.com/hook', false],
+        ['slack URL', 'slack', 'https://hooks.slack.com/services/T0/B0/X', true],
+        ['telegram chat id', 'telegram', '-1001234567890', true],
+        ['telegram channel name', 'telegram', '@price_drops', true],
+        ['telegram URL', 'telegram', 'https://t.me/price_drops', false],
+        ['unknown type', 'sms', '+15551234567', false],
+        ['prototype key as type', 'constructor', 'https://example.com/hook', false],
+        ['missing address', 'discord', '', false],
+    ];
+    for (const [name, type, address, valid] of cases) {
+        test(name, () => {
+            assert.equal(validateChannelTarget(type, address) === null, valid);
+        });
+    }
+});
@@ -0,0 +1,106 @@
+/**
+ * Scraper fixtures: saved product pages (fixtures/<name>.html) with the
+ * page URL and the expected extraction (fixtures/<name>.json). Shared by the
+ * fixture tests and the capture command.
+ */
+import http from 'http';
+import { readdirSync, readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { parseMoney } from '../src/money';
+import type { ScrapedProduct } from '../src/services/scraper.service';
+import type { PageProblem } from '../src/retailers';
+import type { ProductAvailability } from '../src/types';
+
+export const FIXTURES_DIR = join(dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+/** What the scraper should read from a fixture page */
+export interface ExpectedProduct {
+    name: string;
+    /** Parsed amount, null when the page shows no price */
+    price: number | null;
+    currency: string | null;
+    availability: ProductAvailability;
+}
+
+/** Pages that are not product pages: CAPTCHAs, removed listings... */
+export interface ExpectedProblem {
+    problem: PageProblem;
+}
+
+export interface ScraperFixture {
+    name: string;
+    /** URL the page was captured from; picks the retailer adapter */
+    url: string;
+    html: string;
+    expected: ExpectedProduct | ExpectedProblem;
+}
+
+/**
+ * Load every fixture, sorted by name.
+ */
+export function loadFixtures(): ScraperFixture[] {
+    return readdirSync(FIXTURES_DIR)
+        .filter((file) => file.endsWith('.json'))
+        .sort()
+        .map((file) => {
+            const name = file.replace(/\.json$/, '');
+            const { url, expected } = JSON.parse(readFileSync(join(FIXTURES_DIR, file), 'utf8'));
+            const html = readFileSync(join(FIXTURES_DIR, `${name}.html`), 'utf8');
+            return { name, url, html, expected };
+        });
+}
+
+/**
+ * The fields a fixture asserts, read from a scraped product the way price
+ * checks read them (see fetchProductStatus()).
+ */
+export function summarizeProduct(product: ScrapedProduct): ExpectedProduct {
+    const money = product.price && product.price !== 'unknown'
+        ? parseMoney(product.price, { currency: product.currency })
+        : null;
+    return {
+        name: product.name,
+        price: money?.amount ?? null,
+        currency: money?.currency ?? null,
+        availability: product.availability ?? 'unknown',
+    };
+}
+
+/**
+ * Plain-http URL of a fixture page. The fixture server answers it as a
+ * forward proxy, so the browser loads the page under its original host
+ * (and retailer adapter) without any network access.
+ */
+export function proxiedUrl(fixture: ScraperFixture): string {
+    return fixture.url.replace(/^https:/, 'http:');
+}
+
+/**
+ * Start a local server for the fixtures: `GET /fixtures/<name>.html` serves
+ * a page, and proxy requests (absolute URLs) for a fixture's URL serve that
+ * fixture. Anything else is a 404.
+ */
+export async function startFixtureServer(fixtures: ScraperFixture[]): Promise<{ port: number; close: () => Promise<void> }> {
+    const byUrl = new Map(fixtures.map((fixture) => [proxiedUrl(fixture), fixture]));
+    const byPath = new Map(fixtures.map((fixture) => [`/fixtures/${fixture.name}.html`, fixture]));
+
+    const server = http.createServer((req, res) => {
+        const fixture = byUrl.get(req.url ?? '') ?? byPath.get(req.url ?? '');
+        if (!fixture) {
+            res.writeHead(404, { 'Content-Type': 'text/html' }).end('<title>404 Not Found</title>');
+            return;
+        }
+        res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' }).end(fixture.html);
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const address = server.address();
+    return {
+        port: typeof address === 'object' && address ? address.port : 0,
+        close: () => new Promise((resolve) => {
+            server.closeAllConnections();
+            server.close(() => resolve());
+        }),
+    };
+}
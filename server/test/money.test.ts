@@ -0,0 +1,21 @@
+/**
+ * Money parsing tests (npm test)
+ *
+ * Currency detection in price strings that carry other words. Offline.
+ */
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseMoney, detectCurrency } from '../src/money';
+
+describe('parseMoney', () => {
+    test('ignores words that spell an ISO code in another case', () => {
+        assert.deepEqual(parseMoney('Try it: $19.99'), { amount: 19.99, currency: 'USD' });
+        assert.deepEqual(parseMoney('try now 1.299,00 €'), { amount: 1299, currency: 'EUR' });
+        assert.equal(detectCurrency('Php 500'), null);
+    });
+
+    test('reads uppercase ISO codes', () => {
+        assert.deepEqual(parseMoney('TRY 249,90'), { amount: 249.9, currency: 'TRY' });
+        assert.deepEqual(parseMoney('Try it: $19.99', { currency: 'CAD' }), { amount: 19.99, currency: 'CAD' });
+    });
+});
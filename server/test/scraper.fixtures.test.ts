@@ -0,0 +1,83 @@
+/**
+ * Scraper fixture tests (npm test)
+ *
+ * Runs every saved page in fixtures/ through the extraction code and
+ * compares name, price, currency and availability (or the detected page
+ * problem) with the fixture's expectation. Offline: no request leaves the
+ * machine. The headless browser suite loads the pages from a local fixture
+ * server through the proxy pool, and is skipped when Chrome can't start.
+ */
+import { describe, test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { load } from 'cheerio';
+import { loadFixtures, summarizeProduct, proxiedUrl, startFixtureServer, ExpectedProduct } from './fixtures';
+
+// Read before the services load their constants: no robots.txt requests,
+// no politeness delays, and every page rendered by the browser
+const testPolicy = { delayMs: 0, respectRobots: false, forceHeadless: true };
+process.env.DOMAIN_POLICIES = JSON.stringify({ '*': testPolicy, 'amazon.*': testPolicy, 'ebay.*': testPolicy });
+
+const { extractFromHtml, scrapeProduct } = await import('../src/services/scraper.service');
+const { detectPageProblem } = await import('../src/retailers/pageProblems');
+const { getAdapterForUrl } = await import('../src/retailers');
+const { withPage, closeBrowserPool } = await import('../src/services/browserPool');
+const { configureProxyPool } = await import('../src/services/proxyPool');
+
+const fixtures = loadFixtures();
+
+describe('extractFromHtml', () => {
+    for (const fixture of fixtures) {
+        const { expected } = fixture;
+        if ('problem' in expected) continue;
+
+        test(fixture.name, async () => {
+            const product = await extractFromHtml(fixture.html, fixture.url);
+            assert.deepEqual(summarizeProduct(product), expected);
+        });
+    }
+});
+
+describe('detectPageProblem', () => {
+    for (const fixture of fixtures) {
+        const expected = 'problem' in fixture.expected ? fixture.expected.problem : null;
+
+        test(fixture.name, () => {
+            assert.equal(detectPageProblem(load(fixture.html), getAdapterForUrl(fixture.url)), expected);
+        });
+    }
+});
+
+const browserError = await withPage(async () => null).then(() => null, (error: Error) => error);
+
+describe('headless browser', { skip: browserError ? `Chrome unavailable: ${browserError.message.split('\n')[0]}` : false }, () => {
+    let server: Awaited<ReturnType<typeof startFixtureServer>>;
+
+    before(async () => {
+        server = await startFixtureServer(fixtures);
+        configureProxyPool([`http://127.0.0.1:${server.port}`]);
+    });
+
+    after(async () => {
+        configureProxyPool([]);
+        await closeBrowserPool();
+        await server.close();
+    });
+
+    for (const fixture of fixtures) {
+        test(fixture.name, { timeout: 60000 }, async () => {
+            const result = await scrapeProduct(proxiedUrl(fixture));
+
+            if ('problem' in fixture.expected) {
+                assert.equal(result.ok ? null : result.reason, fixture.expected.problem);
+                return;
+            }
+            assert.ok(result.ok, result.ok ? '' : `${result.reason}: ${result.message}`);
+            // The page is loaded from its plain-http URL
+            const product = summarizeProduct({ ...result.product, url: fixture.url });
+            assert.deepEqual(product, fixture.expected as ExpectedProduct);
+        });
+    }
+});
+
+// Nothing else closes the pool when the browser suite was skipped
+after(() => closeBrowserPool());
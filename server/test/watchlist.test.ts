@@ -0,0 +1,56 @@
+/**
+ * Watchlist tests (npm test)
+ *
+ * Quiet hours in the subscriber's time zone and the CSV export of a
+ * watchlist. Offline: no database is needed.
+ */
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isInQuietHours } from '../src/models/Subscriber.model';
+import { watchlistToCsv, WatchlistItem } from '../src/services/subscriber.service';
+
+describe('isInQuietHours', () => {
+    // 2025-01-15 23:30 UTC is 00:30 in Paris and 18:30 in New York
+    const at = new Date('2025-01-15T23:30:00Z');
+
+    test('spans midnight when start is after end', () => {
+        assert.equal(isInQuietHours({ timezone: 'Europe/Paris', quietHours: { start: 22, end: 7 } }, at), true);
+        assert.equal(isInQuietHours({ timezone: 'America/New_York', quietHours: { start: 22, end: 7 } }, at), false);
+    });
+
+    test('includes the start hour and excludes the end hour', () => {
+        assert.equal(isInQuietHours({ timezone: 'UTC', quietHours: { start: 23, end: 0 } }, at), true);
+        assert.equal(isInQuietHours({ timezone: 'UTC', quietHours: { start: 12, end: 23 } }, at), false);
+    });
+
+    test('is off without quiet hours', () => {
+        assert.equal(isInQuietHours({ timezone: 'UTC', quietHours: undefined }, at), false);
+    });
+});
+
+describe('watchlistToCsv', () => {
+    const item: WatchlistItem = {
+        id: '6650f0a9e4b0a1b2c3d4e5f0',
+        status: 'active',
+        product: { name: 'Headphones, "Black"', url: 'https://shop.example/p/1', image: null, priceWhenAdded: '$349.99' },
+        lastPrice: 299.99,
+        currency: 'USD',
+        availability: 'in_stock',
+        lastCheckedAt: null,
+        alert: { targetPrice: 280 },
+        createdAt: new Date('2025-01-01T12:00:00Z'),
+    };
+
+    test('writes a header row and quotes fields', () => {
+        assert.equal(
+            watchlistToCsv([item]),
+            'name,url,status,price_when_added,last_price,currency,availability,target_price,min_drop_percent,min_drop_amount,added_at\r\n'
+            + '"Headphones, ""Black""",https://shop.example/p/1,active,$349.99,299.99,USD,in_stock,280,,,2025-01-01T12:00:00.000Z\r\n'
+        );
+    });
+
+    test('neutralizes names that look like spreadsheet formulas', () => {
+        const csv = watchlistToCsv([{ ...item, product: { ...item.product, name: '=HYPERLINK("x")' } }]);
+        assert.match(csv.split('\r\n')[1], /^"'=HYPERLINK\(""x""\)",/);
+    });
+});
@@ -1,7 +1,7 @@
 // ==UserScript==
 // @name         Price Drop Notifier Injector
 // @namespace    http://example.com/
-// @version      1.2
+// @version      1.3
 // @description  Floating widget for price drop notifications on Amazon and eBay
 // @match        https://www.amazon.eg/*/dp/*
 // @match        https://www.amazon.eg/dp/*
@@ -100,7 +100,23 @@
       }
     }
 
-    return { name: title, price, url: location.href };
+    // Product image - Amazon and eBay specific, then Open Graph
+    const imageEl = document.querySelector(
+      "#landingImage, #imgBlkFront, .ux-image-carousel-item.active img",
+    );
+    const imageSrc =
+      imageEl?.getAttribute("data-old-hires") ||
+      imageEl?.getAttribute("src") ||
+      document.querySelector('meta[property="og:image"]')?.getAttribute("content");
+    let image;
+    try {
+      const resolved = imageSrc ? new URL(imageSrc, location.href) : null;
+      if (resolved && /^https?:$/.test(resolved.protocol)) image = resolved.href;
+    } catch (e) {
+      // Ignore malformed image URLs
+    }
+
+    return { name: title, price, url: location.href, image };
   }
 
   /**
@@ -190,9 +206,13 @@
         return;
       }
 
-      if (typeof api.initFloating !== "function") {
+      if (
+        typeof api.initFloating !== "function" ||
+        typeof api.readAlertOptions !== "function" ||
+        typeof api.hasValidPrice !== "function"
+      ) {
         console.error(
-          "[PDN] initFloating not found. Available:",
+          "[PDN] Widget API incomplete. Available:",
           Object.keys(api),
         );
         return;
@@ -237,13 +257,28 @@
           return;
         }
 
+        // Sold-out pages show no price; only a back-in-stock alert can go without one
+        const alert = api.readAlertOptions(newForm);
+        if (!api.hasValidPrice(product.price) && !alert?.backInStock) {
+          newStatusDiv.textContent =
+            'Cannot subscribe - invalid price. Tick "back in stock" to be alerted when it returns.';
+          newStatusDiv.style.color = "#EF4444";
+          return;
+        }
+
         console.log("[PDN] Submitting via GM_xmlhttpRequest");
         newStatusDiv.textContent = "Submitting...";
         newStatusDiv.style.color = "#6B7280";
         newSubmitBtn.disabled = true;
         newSubmitBtn.style.opacity = "0.6";
 
-        const requestPayload = { email, product };
+        const localeSelect = newForm.querySelector('select[name="locale"]');
+        const requestPayload = {
+          email,
+          product,
+          alert,
+          locale: localeSelect?.value,
+        };
         console.log("[PDN] 📤 Sending request:", {
           method: "POST",
           url: `${SERVER_URL}/subscribe-price-drop`,
@@ -269,7 +304,7 @@
 
               if (result && result.ok) {
                 newStatusDiv.textContent =
-                  "✓ Subscribed! We'll email you if price drops.";
+                  "✓ Almost done! Check your inbox to confirm your alert.";
                 newStatusDiv.style.color = "#10B981";
                 newEmailInput.value = "";
 
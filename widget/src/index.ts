@@ -1,14 +1,94 @@
+import { normalizeProductUrl } from '../../server/src/utils';
+
 const CSS_CLASS = 'pdn-widget-root';
 
 // Server URL - change for production deployment
 const SERVER_URL = 'http://localhost:3000';
 
-type Product = { name: string; price: string; url: string };
+type Product = { name: string; price: string; url: string; image?: string };
+
+// Email languages supported by the server (server/src/views/emails/locales)
+const LOCALES: [string, string][] = [
+    ['en', 'English'],
+    ['es', 'Español'],
+    ['fr', 'Français'],
+    ['de', 'Deutsch'],
+    ['ar', 'العربية'],
+];
+
+// Optional alert rules - all price rules that are set must be met before we email;
+// backInStock also emails when a sold-out product can be ordered again
+type AlertOptions = { targetPrice?: number; minDropPercent?: number; minDropAmount?: number; backInStock?: boolean };
 
 // In-memory email storage
 let savedEmailInMemory = '';
 
-function createRoot() {
+// The confirmation page links back to the product with #pdn-watchlist=<token>;
+// the token is kept in localStorage to show how many products the subscriber watches
+const WATCHLIST_HASH_PARAM = 'pdn-watchlist';
+const WATCHLIST_STORAGE_KEY = 'pdn-watchlist-token';
+
+/**
+ * Watchlist token of this browser: taken from the URL fragment (and removed
+ * from it) when arriving from the confirmation page, else the stored one.
+ */
+function readWatchlistToken(): string | null {
+    try {
+        const params = new URLSearchParams(location.hash.slice(1));
+        const fromHash = params.get(WATCHLIST_HASH_PARAM);
+        if (fromHash) {
+            localStorage.setItem(WATCHLIST_STORAGE_KEY, fromHash);
+            params.delete(WATCHLIST_HASH_PARAM);
+            const hash = params.toString();
+            history.replaceState(history.state, '', `${location.pathname}${location.search}${hash ? `#${hash}` : ''}`);
+            return fromHash;
+        }
+        return localStorage.getItem(WATCHLIST_STORAGE_KEY);
+    } catch {
+        // Storage disabled (private mode, sandboxed frame)
+        return null;
+    }
+}
+
+/**
+ * Show "You are watching N items" in the element once the subscriber is
+ * identified. Expired or invalid tokens are forgotten.
+ */
+async function showWatching(el: HTMLElement) {
+    const token = readWatchlistToken();
+    if (!token) return;
+    try {
+        const res = await fetch(`${SERVER_URL}/watchlist/summary`, { headers: { Authorization: `Bearer ${token}` } });
+        if (res.status === 401) {
+            localStorage.removeItem(WATCHLIST_STORAGE_KEY);
+            return;
+        }
+        const json = await res.json();
+        if (json && json.ok && json.watching > 0) {
+            el.textContent = `👀 You are watching ${json.watching} ${json.watching === 1 ? 'item' : 'items'}`;
+            el.hidden = false;
+        }
+    } catch (err) {
+        console.warn('[PDN Widget] Watchlist summary unavailable', err);
+    }
+}
+
+/**
+ * Pick the email language: an explicit option, else the browser language,
+ * else English.
+ */
+function defaultLocale(preferred?: string): string {
+    const language = (preferred || navigator.language || 'en').toLowerCase().split('-')[0];
+    return LOCALES.some(([code]) => code === language) ? language : 'en';
+}
+
+function localeOptions(selected: string): string {
+    return LOCALES
+        .map(([code, label]) => `<option value="${code}"${code === selected ? ' selected' : ''}>${label}</option>`)
+        .join('');
+}
+
+function createRoot(locale: string) {
     const root = document.createElement('div');
     root.className = CSS_CLASS;
     root.innerHTML = `
@@ -18,7 +98,29 @@ function createRoot() {
         <input class="pdn-input" type="email" name="email" placeholder="you@example.com" required />
         <button class="pdn-btn" type="submit">Notify me</button>
       </div>
+      <details class="pdn-alert">
+        <summary class="pdn-alert-summary">Alert options</summary>
+        <div class="pdn-alert-fields">
+          <label class="pdn-alert-field">Target price
+            <input class="pdn-input" type="number" name="targetPrice" min="0" step="0.01" placeholder="Any" />
+          </label>
+          <label class="pdn-alert-field">Min. drop %
+            <input class="pdn-input" type="number" name="minDropPercent" min="0" max="100" step="0.1" placeholder="Any" />
+          </label>
+          <label class="pdn-alert-field">Min. drop amount
+            <input class="pdn-input" type="number" name="minDropAmount" min="0" step="0.01" placeholder="Any" />
+          </label>
+        </div>
+        <label class="pdn-stock">
+          <input type="checkbox" name="backInStock" value="true" />
+          Email me when it's back in stock
+        </label>
+        <label class="pdn-alert-field pdn-locale">Email language
+          <select class="pdn-input" name="locale">${localeOptions(locale)}</select>
+        </label>
+      </details>
       <div class="pdn-status" aria-live="polite"></div>
+      <div class="pdn-watching" hidden></div>
     </form>
   `;
     return root;
@@ -34,7 +136,8 @@ function applyStyles() {
 }
 
 function parseProductFromPage(): Product {
-    const url = location.href;
+    // Same canonical form the server stores, e.g. amazon.com/dp/<ASIN>
+    const url = normalizeProductUrl(location.href);
 
     // Title extraction - Amazon and eBay specific
     const amazonTitle = document.querySelector('#productTitle');
@@ -67,12 +170,76 @@ function parseProductFromPage(): Product {
         }
     }
     if (!price) price = 'unknown';
-    return { name, price, url };
+
+    // Product image - Amazon and eBay specific, then Open Graph
+    const imageEl = document.querySelector('#landingImage, #imgBlkFront, .ux-image-carousel-item.active img') as HTMLImageElement | null;
+    const ogImage = document.querySelector('meta[property="og:image"]')?.getAttribute('content');
+    const imageSrc = imageEl?.getAttribute('data-old-hires') || imageEl?.getAttribute('src') || ogImage;
+    let image: string | undefined;
+    if (imageSrc) {
+        try {
+            const resolved = new URL(imageSrc, url);
+            if (resolved.protocol === 'https:' || resolved.protocol === 'http:') image = resolved.href;
+        } catch {
+            // Ignore malformed image URLs
+        }
+    }
+
+    return { name, price, url, image };
+}
+
+/**
+ * Whether a price read from the page can be tracked (same checks as the
+ * server's validation).
+ */
+function hasValidPrice(price: string): boolean {
+    const digits = price.replace(/[^0-9]/g, '');
+    return price.toLowerCase() !== 'unknown'
+        && digits.length > 0
+        && parseInt(digits, 10) !== 0
+        && !/^[^a-zA-Z0-9]+$/.test(price);
 }
 
-async function postSubscribe(email: string, product: Product) {
+/**
+ * Read the optional alert rule inputs of a form. Empty or invalid fields are
+ * left out; returns undefined when no rule is set (notify on any drop).
+ */
+function readAlertOptions(form: HTMLFormElement): AlertOptions | undefined {
+    const alert: AlertOptions = {};
+    for (const key of ['targetPrice', 'minDropPercent', 'minDropAmount'] as const) {
+        const field = form.querySelector(`input[name=${key}]`) as HTMLInputElement | null;
+        const value = field ? parseFloat(field.value) : NaN;
+        if (Number.isFinite(value) && value > 0) {
+            alert[key] = value;
+        }
+    }
+    const backInStock = form.querySelector('input[name=backInStock]') as HTMLInputElement | null;
+    if (backInStock?.checked) {
+        alert.backInStock = true;
+    }
+    return Object.keys(alert).length > 0 ? alert : undefined;
+}
+
+/**
+ * Sold-out pages usually show no price: offer the back-in-stock alert
+ * right away instead of a form that can only fail.
+ */
+function preselectBackInStock(form: HTMLFormElement, product: Product) {
+    if (hasValidPrice(product.price)) return;
+    const checkbox = form.querySelector('input[name=backInStock]') as HTMLInputElement | null;
+    const details = form.querySelector('details') as HTMLDetailsElement | null;
+    if (checkbox) checkbox.checked = true;
+    if (details) details.open = true;
+}
+
+function readLocale(form: HTMLFormElement): string | undefined {
+    const select = form.querySelector('select[name=locale]') as HTMLSelectElement | null;
+    return select?.value || undefined;
+}
+
+async function postSubscribe(email: string, product: Product, alert?: AlertOptions, locale?: string) {
     const endpoint = `${SERVER_URL}/subscribe-price-drop`;
-    const payload = { email, product };
+    const payload = { email, product, alert, locale };
 
     // Regular fetch - userscript will intercept form submission before this runs on CSP sites
     console.log('[PDN Widget] Using regular fetch');
@@ -88,11 +255,11 @@ async function postSubscribe(email: string, product: Product) {
     }
 }
 
-export function init(container: HTMLElement | string, options?: { product?: Product }) {
+export function init(container: HTMLElement | string, options?: { product?: Product; locale?: string }) {
     const mount = typeof container === 'string' ? document.querySelector(container) : container;
     if (!mount) return;
     applyStyles();
-    const root = createRoot();
+    const root = createRoot(defaultLocale(options?.locale));
     mount.appendChild(root);
 
     const form = root.querySelector('form') as HTMLFormElement;
@@ -100,6 +267,8 @@ export function init(container: HTMLElement | string, options?: { product?: Prod
     const status = root.querySelector('.pdn-status') as HTMLElement;
 
     const product = options?.product ?? parseProductFromPage();
+    preselectBackInStock(form, product);
+    void showWatching(root.querySelector('.pdn-watching') as HTMLElement);
 
     // Restore saved email from memory
     if (savedEmailInMemory) {
@@ -124,15 +293,10 @@ export function init(container: HTMLElement | string, options?: { product?: Prod
             return;
         }
 
-        // Check if product price is valid before submitting
-        const priceDigits = product.price.replace(/[^0-9]/g, '');
-        if (
-            product.price.toLowerCase() === 'unknown' || 
-            priceDigits.length === 0 ||
-            parseInt(priceDigits, 10) === 0 ||
-            /^[^a-zA-Z0-9]+$/.test(product.price)
-        ) {
-            status.textContent = 'Cannot subscribe - invalid price.';
+        // Check if product price is valid before submitting (back-in-stock alerts don't need one)
+        const alert = readAlertOptions(form);
+        if (!hasValidPrice(product.price) && !alert?.backInStock) {
+            status.textContent = 'Cannot subscribe - invalid price. Tick "back in stock" to be alerted when it returns.';
             root.classList.add('pdn-error');
             setTimeout(() => {
                 root.classList.remove('pdn-error');
@@ -144,18 +308,18 @@ export function init(container: HTMLElement | string, options?: { product?: Prod
         status.textContent = 'Submitting...';
         root.classList.add('pdn-submitting');
         try {
-            const json = await postSubscribe(email, product);
+            const json = await postSubscribe(email, product, alert, readLocale(form));
             if (json && json.ok) {
-                status.textContent = '✓ Subscribed! We\'ll email you if price drops.';
+                status.textContent = '✓ Almost done! Check your inbox to confirm your alert.';
                 root.classList.add('pdn-success');
 
-                // Keep success message, clear input after delay
+                // Keep success message, clear inputs after delay
                 setTimeout(() => {
-                    input.value = '';
+                    form.reset();
                     status.textContent = '';
                     root.classList.remove('pdn-success');
                 }, 3000);
-            } else if (json && json.error) {
+            } else if (json && (json.error || json.errors)) {
                 if (json.error === 'already_subscribed') {
                     status.textContent = 'Already subscribed to this product!';
                 } else if (json.errors && json.errors.length > 0) {
@@ -193,10 +357,11 @@ export function init(container: HTMLElement | string, options?: { product?: Prod
 
 /**
  * Initialize a floating button + widget (for userscript injection)
- * @param options - Product data to pre-fill
+ * @param options - Product data to pre-fill and preferred email language
  */
-export function initFloating(options?: { product?: Product }) {
+export function initFloating(options?: { product?: Product; locale?: string }) {
     const product = options?.product ?? parseProductFromPage();
+    const locale = defaultLocale(options?.locale);
 
     // Create floating button
     const button = document.createElement('button');
@@ -319,7 +484,26 @@ export function initFloating(options?: { product?: Product }) {
             style="background: #0E6F78; color: white; border: none; padding: 10px 16px; border-radius: 6px; cursor: pointer; font-weight: 500; font-size: 14px; white-space: nowrap;"
           >Notify me</button>
         </div>
+        <details style="font-size: 13px; color: #374151;">
+          <summary style="cursor: pointer;">Alert options</summary>
+          <div style="display: flex; gap: 8px; margin-top: 8px;">
+            <input type="number" name="targetPrice" min="0" step="0.01" placeholder="Target price"
+              style="flex: 1; min-width: 0; padding: 8px; border: 1px solid #D8DEE3; border-radius: 6px; font-size: 13px;" />
+            <input type="number" name="minDropPercent" min="0" max="100" step="0.1" placeholder="Min. drop %"
+              style="flex: 1; min-width: 0; padding: 8px; border: 1px solid #D8DEE3; border-radius: 6px; font-size: 13px;" />
+            <input type="number" name="minDropAmount" min="0" step="0.01" placeholder="Min. drop"
+              style="flex: 1; min-width: 0; padding: 8px; border: 1px solid #D8DEE3; border-radius: 6px; font-size: 13px;" />
+          </div>
+          <label style="display: flex; align-items: center; gap: 8px; margin-top: 8px;">
+            <input type="checkbox" name="backInStock" value="true" />
+            Email me when it's back in stock
+          </label>
+          <label style="display: flex; align-items: center; gap: 8px; margin-top: 8px;">Email language
+            <select name="locale" style="flex: 1; padding: 8px; border: 1px solid #D8DEE3; border-radius: 6px; font-size: 13px;">${localeOptions(locale)}</select>
+          </label>
+        </details>
         <div id="pdn-status-floating" style="font-size: 13px; color: #6B7280; min-height: 18px;"></div>
+        <div id="pdn-watching-floating" style="font-size: 13px; color: #0E6F78;" hidden></div>
       </form>
     `;
 
@@ -333,6 +517,8 @@ export function initFloating(options?: { product?: Product }) {
     const emailInput = content.querySelector('#pdn-email-floating') as HTMLInputElement;
     const submitBtn = content.querySelector('#pdn-submit-floating') as HTMLButtonElement;
     const statusDiv = content.querySelector('#pdn-status-floating') as HTMLElement;
+    preselectBackInStock(form, product);
+    void showWatching(content.querySelector('#pdn-watching-floating') as HTMLElement);
 
     // Form submission
     form.addEventListener('submit', async (e) => {
@@ -345,27 +531,37 @@ export function initFloating(options?: { product?: Product }) {
             return;
         }
 
+        // Check if product price is valid before submitting (back-in-stock alerts don't need one)
+        const alert = readAlertOptions(form);
+        if (!hasValidPrice(product.price) && !alert?.backInStock) {
+            statusDiv.textContent = 'Cannot subscribe - invalid price. Tick "back in stock" to be alerted when it returns.';
+            statusDiv.style.color = '#EF4444';
+            return;
+        }
+
         statusDiv.textContent = 'Submitting...';
         statusDiv.style.color = '#6B7280';
         submitBtn.disabled = true;
         submitBtn.style.opacity = '0.6';
 
         try {
-            const result = await postSubscribe(email, product);
+            const result = await postSubscribe(email, product, alert, readLocale(form));
 
             if (result && result.ok) {
-                statusDiv.textContent = '✓ Subscribed! We\'ll email you if price drops.';
+                statusDiv.textContent = '✓ Almost done! Check your inbox to confirm your alert.';
                 statusDiv.style.color = '#10B981';
-                emailInput.value = '';
+                form.reset();
 
                 setTimeout(() => {
                     statusDiv.textContent = '';
                     submitBtn.disabled = false;
                     submitBtn.style.opacity = '1';
                 }, 3000);
-            } else if (result && result.error) {
+            } else if (result && (result.error || result.errors)) {
                 if (result.error === 'already_subscribed') {
                     statusDiv.textContent = 'Already subscribed to this product!';
+                } else if (result.errors && result.errors.length > 0) {
+                    statusDiv.textContent = result.errors[0].msg || 'Validation failed';
                 } else {
                     statusDiv.textContent = 'Error: ' + result.error;
                 }
@@ -418,5 +614,6 @@ export function initFloating(options?: { product?: Product }) {
 
 // Expose to global for IIFE build
 if (typeof window !== 'undefined') {
-    (window as any).PriceDropWidget = { init, initFloating, parseProductFromPage };
+    // The helpers let the userscript, which replaces the submit handler, apply the same checks
+    (window as any).PriceDropWidget = { init, initFloating, parseProductFromPage, readAlertOptions, hasValidPrice };
 }